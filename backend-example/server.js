@@ -12,6 +12,7 @@ const initSqlJs = require('sql.js');
 
 const app = express();
 const PORT = process.env.PORT || 3000;
+const AGENT_VERSION = require('./package.json').version;
 
 // Initialize SQLite database
 const DB_FILE = path.join(__dirname, 'metrics.db');
@@ -31,8 +32,40 @@ const ALERT_THRESHOLDS = {
   temp: parseInt(process.env.ALERT_TEMP_THRESHOLD) || 85,
 };
 
+// Notification channels. Start from .env; values pushed with PUT /config override them.
+const NOTIFICATION_CONFIG = {
+  smtpHost: process.env.SMTP_HOST,
+  smtpPort: parseInt(process.env.SMTP_PORT) || 587,
+  smtpSecure: process.env.SMTP_SECURE === 'true',
+  smtpUser: process.env.SMTP_USER,
+  smtpPass: process.env.SMTP_PASS,
+  smtpFrom: process.env.SMTP_FROM,
+  alertEmail: process.env.ALERT_EMAIL,
+  slackWebhook: process.env.SLACK_WEBHOOK_URL,
+  discordWebhook: process.env.DISCORD_WEBHOOK_URL,
+};
+
+// The .env notification settings, which a pushed config falls back to field by field
+const ENV_NOTIFICATION_CONFIG = { ...NOTIFICATION_CONFIG };
+
+// Remote configuration pushed by the dashboard. Disabled unless CONFIG_TOKEN is set.
+const CONFIG_FILE = path.join(__dirname, '.agent-config.json');
+const CONFIG_TOKEN = process.env.CONFIG_TOKEN;
+let configVersion = null;
+let configUpdatedAt = null;
+
 const alertState = {}; // Track alert states to avoid spam
 
+// Energy accounting. Samples further apart than ENERGY_MAX_GAP_SECONDS are not integrated; the
+// time between them is recorded as a gap instead of being guessed.
+const ENERGY_MAX_GAP = (parseInt(process.env.ENERGY_MAX_GAP_SECONDS) || 60) * 1000;
+const ENERGY_RETENTION_DAYS = parseInt(process.env.ENERGY_RETENTION_DAYS) || 400;
+const ENERGY_COMPONENTS = ['total', 'cpu', 'gpu', 'ram', 'storage', 'other'];
+const HOUR_MS = 60 * 60 * 1000;
+// CPU usage (%) under which a server counts as idle in /efficiency, unless the request sets idle_threshold
+const IDLE_CPU_THRESHOLD = parseFloat(process.env.IDLE_CPU_THRESHOLD) || 10;
+const lastEnergySample = new Map();
+
 // Initialize database tables
 async function initializeDatabase() {
   try {
@@ -100,10 +133,40 @@ async function initializeDatabase() {
     // Create index for alerts
     db.run(`CREATE INDEX IF NOT EXISTS idx_alerts_server_timestamp ON alerts(server_id, timestamp DESC)`);
     
+    // Energy per server per hour, integrated from the power samples. Kept much longer than raw metrics.
+    db.run(`
+      CREATE TABLE IF NOT EXISTS energy_hourly (
+        server_id TEXT NOT NULL,
+        hour_start INTEGER NOT NULL,
+        covered_ms INTEGER NOT NULL,
+        wh_total REAL NOT NULL,
+        wh_cpu REAL NOT NULL,
+        wh_gpu REAL NOT NULL,
+        wh_ram REAL NOT NULL,
+        wh_storage REAL NOT NULL,
+        wh_other REAL NOT NULL,
+        PRIMARY KEY (server_id, hour_start)
+      )
+    `);
+    
+    // Stretches without samples, which the energy totals do not include
+    db.run(`
+      CREATE TABLE IF NOT EXISTS energy_gaps (
+        server_id TEXT NOT NULL,
+        start INTEGER NOT NULL,
+        end INTEGER NOT NULL
+      )
+    `);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_energy_gaps_server_end ON energy_gaps(server_id, end)`);
+    
     // Clean up old data (keep only last 7 days)
     const sevenDaysAgo = Date.now() - (7 * 24 * 60 * 60 * 1000);
+    const energyCutoff = Date.now() - ENERGY_RETENTION_DAYS * 24 * HOUR_MS;
     db.run('DELETE FROM metrics WHERE timestamp < ?', [sevenDaysAgo]);
     db.run('DELETE FROM alerts WHERE timestamp < ?', [new Date(sevenDaysAgo).toISOString()]);
+    db.run('DELETE FROM energy_hourly WHERE hour_start < ?', [energyCutoff]);
+    db.run('DELETE FROM energy_gaps WHERE end < ?', [energyCutoff]);
+    initializeEnergy();
     
     dbInitialized = true;
     console.log('Database initialized successfully');
@@ -146,6 +209,47 @@ process.on('SIGTERM', () => {
 app.use(cors());
 app.use(express.json());
 
+// Apply a configuration document pushed by the dashboard. Thresholds replace the .env values.
+// Notification settings replace the previously pushed ones as a whole; a field that is empty or
+// missing falls back to .env, so clearing a channel in the dashboard removes its credentials here.
+function applyConfig(config) {
+  const thresholds = config.thresholds || {};
+  ['cpu', 'ram', 'gpu'].forEach(key => {
+    if (Number.isFinite(thresholds[key])) ALERT_THRESHOLDS[key] = thresholds[key];
+  });
+  if (Number.isFinite(thresholds.temperature)) ALERT_THRESHOLDS.temp = thresholds.temperature;
+  
+  const notifications = config.notifications || {};
+  const fields = {
+    smtp_host: 'smtpHost',
+    smtp_user: 'smtpUser',
+    smtp_pass: 'smtpPass',
+    smtp_from: 'smtpFrom',
+    alert_email: 'alertEmail',
+    slack_webhook: 'slackWebhook',
+    discord_webhook: 'discordWebhook',
+  };
+  Object.entries(fields).forEach(([field, key]) => {
+    NOTIFICATION_CONFIG[key] = notifications[field] || ENV_NOTIFICATION_CONFIG[key];
+  });
+  NOTIFICATION_CONFIG.smtpPort = parseInt(notifications.smtp_port) || ENV_NOTIFICATION_CONFIG.smtpPort;
+  
+  configVersion = config.version || null;
+  configUpdatedAt = config.updated_at || new Date().toISOString();
+}
+
+// Re-apply the last pushed configuration after a restart
+function loadPushedConfig() {
+  try {
+    if (fs.existsSync(CONFIG_FILE)) {
+      applyConfig(JSON.parse(fs.readFileSync(CONFIG_FILE, 'utf8')));
+      console.log(`Loaded pushed config version ${configVersion}`);
+    }
+  } catch (error) {
+    console.error('Error loading pushed config:', error);
+  }
+}
+
 // Generate or load persistent server ID
 function getServerId() {
   try {
@@ -204,27 +308,37 @@ async function getServerName() {
   return cachedServerName;
 }
 
+// Alert text includes server names and process details, so it is never trusted as markup
+function escapeHtml(text) {
+  return String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 // Send email alert
 async function sendEmailAlert(subject, message) {
-  if (!process.env.SMTP_HOST) return;
+  if (!NOTIFICATION_CONFIG.smtpHost) return;
   
   try {
     const transporter = nodemailer.createTransport({
-      host: process.env.SMTP_HOST,
-      port: parseInt(process.env.SMTP_PORT) || 587,
-      secure: process.env.SMTP_SECURE === 'true',
+      host: NOTIFICATION_CONFIG.smtpHost,
+      port: NOTIFICATION_CONFIG.smtpPort,
+      secure: NOTIFICATION_CONFIG.smtpSecure,
       auth: {
-        user: process.env.SMTP_USER,
-        pass: process.env.SMTP_PASS,
+        user: NOTIFICATION_CONFIG.smtpUser,
+        pass: NOTIFICATION_CONFIG.smtpPass,
       },
     });
 
     await transporter.sendMail({
-      from: process.env.SMTP_FROM || process.env.SMTP_USER,
-      to: process.env.ALERT_EMAIL,
+      from: NOTIFICATION_CONFIG.smtpFrom || NOTIFICATION_CONFIG.smtpUser,
+      to: NOTIFICATION_CONFIG.alertEmail,
       subject: `[Server Alert] ${subject}`,
       text: message,
-      html: `<pre>${message}</pre>`,
+      html: `<pre>${escapeHtml(message)}</pre>`,
     });
     
     console.log(`Email alert sent: ${subject}`);
@@ -235,10 +349,10 @@ async function sendEmailAlert(subject, message) {
 
 // Send Slack alert
 async function sendSlackAlert(message) {
-  if (!process.env.SLACK_WEBHOOK_URL) return;
+  if (!NOTIFICATION_CONFIG.slackWebhook) return;
   
   try {
-    await axios.post(process.env.SLACK_WEBHOOK_URL, {
+    await axios.post(NOTIFICATION_CONFIG.slackWebhook, {
       text: `🚨 *Server Alert*\n\`\`\`${message}\`\`\``,
     });
     console.log('Slack alert sent');
@@ -249,10 +363,10 @@ async function sendSlackAlert(message) {
 
 // Send Discord alert
 async function sendDiscordAlert(message) {
-  if (!process.env.DISCORD_WEBHOOK_URL) return;
+  if (!NOTIFICATION_CONFIG.discordWebhook) return;
   
   try {
-    await axios.post(process.env.DISCORD_WEBHOOK_URL, {
+    await axios.post(NOTIFICATION_CONFIG.discordWebhook, {
       content: `🚨 **Server Alert**\n\`\`\`${message}\`\`\``,
     });
     console.log('Discord alert sent');
@@ -515,11 +629,85 @@ function storeMetrics(metrics) {
       metrics.metrics.network.in,
       metrics.metrics.network.out
     ]);
+    recordEnergySample(metrics.id, { timestamp, power: metrics.metrics.power });
   } catch (error) {
     console.error('Failed to store metrics in database:', error);
   }
 }
 
+function powerRowToSample(row) {
+  return {
+    timestamp: row[0],
+    power: { total: row[1], cpu: row[2], gpu: row[3], ram: row[4], storage: row[5], other: row[6] }
+  };
+}
+
+// Integrates the power between two samples with the trapezoidal rule, split at hour boundaries
+// (power at a boundary is interpolated linearly). Too long a gap is recorded, not integrated.
+function accumulateEnergy(serverId, previous, next) {
+  const span = next.timestamp - previous.timestamp;
+  if (span <= 0) return;
+  if (span > ENERGY_MAX_GAP) {
+    db.run('INSERT INTO energy_gaps (server_id, start, end) VALUES (?, ?, ?)',
+      [serverId, previous.timestamp, next.timestamp]);
+    return;
+  }
+  
+  const powerAt = (component, time) => {
+    const from = previous.power[component] || 0;
+    const to = next.power[component] || 0;
+    return from + (to - from) * (time - previous.timestamp) / span;
+  };
+  
+  let start = previous.timestamp;
+  while (start < next.timestamp) {
+    const hourStart = Math.floor(start / HOUR_MS) * HOUR_MS;
+    const end = Math.min(next.timestamp, hourStart + HOUR_MS);
+    const wh = ENERGY_COMPONENTS.map(component =>
+      (powerAt(component, start) + powerAt(component, end)) / 2 * (end - start) / HOUR_MS);
+    db.run(`
+      INSERT INTO energy_hourly (server_id, hour_start, covered_ms, wh_total, wh_cpu, wh_gpu, wh_ram, wh_storage, wh_other)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (server_id, hour_start) DO UPDATE SET
+        covered_ms = covered_ms + excluded.covered_ms,
+        wh_total = wh_total + excluded.wh_total,
+        wh_cpu = wh_cpu + excluded.wh_cpu,
+        wh_gpu = wh_gpu + excluded.wh_gpu,
+        wh_ram = wh_ram + excluded.wh_ram,
+        wh_storage = wh_storage + excluded.wh_storage,
+        wh_other = wh_other + excluded.wh_other
+    `, [serverId, hourStart, end - start, ...wh]);
+    start = end;
+  }
+}
+
+function recordEnergySample(serverId, sample) {
+  const previous = lastEnergySample.get(serverId);
+  if (previous) accumulateEnergy(serverId, previous, sample);
+  lastEnergySample.set(serverId, sample);
+}
+
+// Picks up where the stored samples end, so downtime shows up as a gap. The first start after an
+// upgrade integrates the raw history that is still in the metrics table.
+function initializeEnergy() {
+  const result = db.exec('SELECT DISTINCT server_id FROM metrics');
+  const serverIds = result[0] ? result[0].values.map(row => row[0]) : [];
+  
+  serverIds.forEach(serverId => {
+    const tracked = db.exec('SELECT 1 FROM energy_hourly WHERE server_id = ? LIMIT 1', [serverId]);
+    const samples = db.exec(`
+      SELECT timestamp, power_total, power_cpu, power_gpu, power_ram, power_storage, power_other
+      FROM metrics WHERE server_id = ? ORDER BY timestamp ${tracked.length > 0 ? 'DESC LIMIT 1' : 'ASC'}
+    `, [serverId]);
+    const rows = samples[0] ? samples[0].values : [];
+    if (tracked.length === 0) {
+      rows.slice(1).forEach((row, index) => accumulateEnergy(serverId, powerRowToSample(rows[index]), powerRowToSample(row)));
+      if (rows.length > 1) console.log(`Integrated ${rows.length} stored samples into energy history for ${serverId}`);
+    }
+    if (rows.length > 0) lastEnergySample.set(serverId, powerRowToSample(rows[rows.length - 1]));
+  });
+}
+
 // GET /metrics - Current metrics for all servers
 app.get('/metrics', async (req, res) => {
   const metrics = await collectMetrics();
@@ -531,68 +719,101 @@ app.get('/metrics', async (req, res) => {
   }
 });
 
+// Parse a period such as 30m, 6h or 7d into milliseconds (plain numbers are hours)
+function parsePeriod(period) {
+  const match = /^(\d+)\s*([mhd]?)$/.exec(String(period).trim());
+  if (!match) return 24 * 60 * 60 * 1000;
+  
+  const value = parseInt(match[1]);
+  const unit = match[2] || 'h';
+  const unitMs = { m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 }[unit];
+  return value * unitMs;
+}
+
+// Transform a database row back to the /metrics format
+function historyRowToMetrics(row) {
+  return {
+    timestamp: row[1],
+    id: row[2],
+    name: row[3],
+    hostname: row[4],
+    os: row[5],
+    status: row[6],
+    uptime: row[7],
+    lastSeen: row[8],
+    metrics: {
+      cpu: {
+        usage: row[9],
+        temp: row[10],
+        cores: row[11]
+      },
+      ram: {
+        used: row[12],
+        total: row[13],
+        temp: row[14]
+      },
+      gpu: row[15] !== null ? {
+        usage: row[15],
+        temp: row[16],
+        memory: row[17]
+      } : undefined,
+      power: {
+        total: row[18],
+        cpu: row[19],
+        gpu: row[20],
+        ram: row[21],
+        storage: row[22],
+        other: row[23]
+      },
+      network: {
+        in: row[24],
+        out: row[25]
+      }
+    }
+  };
+}
+
 // GET /history/:serverId - Historical data
+// Optional ?maxPoints=N averages samples into at most N evenly sized buckets
 app.get('/history/:serverId', (req, res) => {
   if (!dbInitialized) {
     return res.status(503).json({ error: 'Database not ready' });
   }
   
   const { serverId } = req.params;
-  const { period = '24h' } = req.query;
+  const { period = '24h', maxPoints } = req.query;
   
   try {
-    // Parse period (24h, 12h, 1h, etc.)
-    const hours = parseInt(period) || 24;
-    const cutoffTime = Date.now() - (hours * 60 * 60 * 1000);
+    const periodMs = parsePeriod(period);
+    const cutoffTime = Date.now() - periodMs;
+    const points = parseInt(maxPoints) || 0;
     
-    const result = db.exec(`
-      SELECT * FROM metrics 
-      WHERE server_id = '${serverId}' AND timestamp > ${cutoffTime}
-      ORDER BY timestamp ASC
-    `);
+    let result;
+    if (points > 0) {
+      const bucketMs = Math.max(1, Math.ceil(periodMs / points));
+      result = db.exec(`
+        SELECT MIN(id), CAST(AVG(timestamp) AS INTEGER), server_id, MAX(server_name), MAX(hostname), MAX(os),
+          MAX(status), MAX(uptime), MAX(last_seen),
+          AVG(cpu_usage), AVG(cpu_temp), MAX(cpu_cores),
+          AVG(ram_used), MAX(ram_total), AVG(ram_temp),
+          AVG(gpu_usage), AVG(gpu_temp), MAX(gpu_memory),
+          AVG(power_total), AVG(power_cpu), AVG(power_gpu), AVG(power_ram), AVG(power_storage), AVG(power_other),
+          AVG(network_in), AVG(network_out)
+        FROM metrics
+        WHERE server_id = ? AND timestamp > ?
+        GROUP BY timestamp / ?
+        ORDER BY MIN(timestamp) ASC
+      `, [serverId, cutoffTime, bucketMs]);
+    } else {
+      result = db.exec(`
+        SELECT * FROM metrics 
+        WHERE server_id = ? AND timestamp > ?
+        ORDER BY timestamp ASC
+      `, [serverId, cutoffTime]);
+    }
     
     const rows = result[0] ? result[0].values : [];
-    
-    // Transform database rows back to original format
-    const data = rows.map(row => ({
-      timestamp: row[1],
-      id: row[2],
-      name: row[3],
-      hostname: row[4],
-      os: row[5],
-      status: row[6],
-      uptime: row[7],
-      lastSeen: row[8],
-      metrics: {
-        cpu: {
-          usage: row[9],
-          temp: row[10],
-          cores: row[11]
-        },
-        ram: {
-          used: row[12],
-          total: row[13],
-          temp: row[14]
-        },
-        gpu: row[15] !== null ? {
-          usage: row[15],
-          temp: row[16],
-          memory: row[17]
-        } : undefined,
-        power: {
-          total: row[18],
-          cpu: row[19],
-          gpu: row[20],
-          ram: row[21],
-          storage: row[22],
-          other: row[23]
-        },
-        network: {
-          in: row[24],
-          out: row[25]
-        }
-      }
-    }));
+    const data = rows.map(historyRowToMetrics);
     
     res.json({
       serverId,
@@ -605,6 +826,185 @@ app.get('/history/:serverId', (req, res) => {
   }
 });
 
+const ENERGY_BUCKETS = ['hour', 'day', 'week', 'month'];
+
+// Start of the hour, day, week (Monday) or month containing `time`, in the agent's local time
+function energyBucketStart(time, bucket) {
+  const date = new Date(time);
+  if (bucket === 'hour') return Math.floor(time / HOUR_MS) * HOUR_MS;
+  date.setHours(0, 0, 0, 0);
+  if (bucket === 'week') date.setDate(date.getDate() - (date.getDay() + 6) % 7);
+  if (bucket === 'month') date.setDate(1);
+  return date.getTime();
+}
+
+function nextEnergyBucket(start, bucket) {
+  if (bucket === 'hour') return start + HOUR_MS;
+  const date = new Date(start);
+  if (bucket === 'day') date.setDate(date.getDate() + 1);
+  if (bucket === 'week') date.setDate(date.getDate() + 7);
+  if (bucket === 'month') date.setMonth(date.getMonth() + 1);
+  return date.getTime();
+}
+
+function emptyEnergy() {
+  return Object.fromEntries(ENERGY_COMPONENTS.map(component => [component, 0]));
+}
+
+function energySummary(kwh, coveredMs, elapsedMs) {
+  return {
+    kwh,
+    covered_hours: coveredMs / HOUR_MS,
+    elapsed_hours: elapsedMs / HOUR_MS,
+    coverage: elapsedMs > 0 ? Math.min(1, coveredMs / elapsedMs) : 0
+  };
+}
+
+// GET /energy/:serverId - Energy in kWh per hour, day, week or month, total and per component
+// ?period=7d&bucket=day; the range starts at the beginning of the first bucket. Time without samples
+// is reported in `gaps` and lowers `coverage` rather than being estimated.
+app.get('/energy/:serverId', (req, res) => {
+  if (!dbInitialized) {
+    return res.status(503).json({ error: 'Database not ready' });
+  }
+  
+  const { serverId } = req.params;
+  const { period = '24h' } = req.query;
+  const periodMs = parsePeriod(period);
+  const bucket = req.query.bucket || (periodMs <= 48 * HOUR_MS ? 'hour' : periodMs <= 62 * 24 * HOUR_MS ? 'day' : 'month');
+  if (!ENERGY_BUCKETS.includes(bucket)) {
+    return res.status(400).json({ error: `bucket must be one of ${ENERGY_BUCKETS.join(', ')}` });
+  }
+  
+  try {
+    const to = Date.now();
+    const from = energyBucketStart(to - periodMs, bucket);
+    const result = db.exec(`
+      SELECT hour_start, covered_ms, wh_total, wh_cpu, wh_gpu, wh_ram, wh_storage, wh_other
+      FROM energy_hourly WHERE server_id = ? AND hour_start >= ? ORDER BY hour_start ASC
+    `, [serverId, from]);
+    const hours = result[0] ? result[0].values : [];
+    
+    const buckets = [];
+    const totals = emptyEnergy();
+    let totalCovered = 0;
+    let index = 0;
+    for (let start = from; start < to; start = nextEnergyBucket(start, bucket)) {
+      const end = nextEnergyBucket(start, bucket);
+      const kwh = emptyEnergy();
+      let covered = 0;
+      for (; index < hours.length && hours[index][0] < end; index++) {
+        covered += hours[index][1];
+        ENERGY_COMPONENTS.forEach((component, i) => { kwh[component] += hours[index][i + 2] / 1000; });
+      }
+      ENERGY_COMPONENTS.forEach(component => { totals[component] += kwh[component]; });
+      totalCovered += covered;
+      buckets.push({ start, end, ...energySummary(kwh, covered, Math.min(end, to) - start) });
+    }
+    
+    const gapResult = db.exec('SELECT start, end FROM energy_gaps WHERE server_id = ? AND end > ? ORDER BY start ASC',
+      [serverId, from]);
+    const gaps = (gapResult[0] ? gapResult[0].values : []).map(([start, end]) => ({ start, end }));
+    const last = lastEnergySample.get(serverId);
+    if (last && to - last.timestamp > ENERGY_MAX_GAP) gaps.push({ start: last.timestamp, end: to, ongoing: true });
+    
+    res.json({
+      serverId,
+      period,
+      bucket,
+      from,
+      to,
+      max_gap_seconds: ENERGY_MAX_GAP / 1000,
+      totals: energySummary(totals, totalCovered, to - from),
+      buckets,
+      gaps
+    });
+  } catch (error) {
+    console.error('Failed to retrieve energy:', error);
+    res.status(500).json({ error: 'Failed to retrieve energy data' });
+  }
+});
+
+// GET /efficiency/:serverId - Power relative to the work done, from the raw samples (so at most the metrics
+// retention). ?period=24h&idle_threshold=10; time between two samples is idle when their average CPU usage is
+// under the threshold. Gaps longer than ENERGY_MAX_GAP_SECONDS are skipped, as in /energy.
+app.get('/efficiency/:serverId', (req, res) => {
+  if (!dbInitialized) {
+    return res.status(503).json({ error: 'Database not ready' });
+  }
+  
+  const { serverId } = req.params;
+  const { period = '24h' } = req.query;
+  const threshold = req.query.idle_threshold !== undefined ? parseFloat(req.query.idle_threshold) : IDLE_CPU_THRESHOLD;
+  if (!(threshold >= 0 && threshold <= 100)) {
+    return res.status(400).json({ error: 'idle_threshold must be between 0 and 100' });
+  }
+  
+  try {
+    const to = Date.now();
+    const from = to - parsePeriod(period);
+    const result = db.exec(`
+      SELECT timestamp, cpu_usage, power_total, cpu_cores
+      FROM metrics WHERE server_id = ? AND timestamp >= ? ORDER BY timestamp ASC
+    `, [serverId, from]);
+    const rows = result[0] ? result[0].values : [];
+    
+    let measuredMs = 0;
+    let wh = 0;
+    let cpuMs = 0;
+    let idleMs = 0;
+    let idleWh = 0;
+    rows.slice(1).forEach(([timestamp, cpu, power], index) => {
+      const [prevTimestamp, prevCpu, prevPower] = rows[index];
+      const span = timestamp - prevTimestamp;
+      if (span <= 0 || span > ENERGY_MAX_GAP) return;
+      const segmentWh = ((prevPower || 0) + (power || 0)) / 2 * span / HOUR_MS;
+      const segmentCpu = ((prevCpu || 0) + (cpu || 0)) / 2;
+      measuredMs += span;
+      wh += segmentWh;
+      cpuMs += segmentCpu * span;
+      if (segmentCpu < threshold) {
+        idleMs += span;
+        idleWh += segmentWh;
+      }
+    });
+    
+    const measuredHours = measuredMs / HOUR_MS;
+    const idleHours = idleMs / HOUR_MS;
+    const busyHours = measuredHours - idleHours;
+    const avgPower = measuredHours > 0 ? wh / measuredHours : null;
+    const avgCpu = measuredMs > 0 ? cpuMs / measuredMs : null;
+    const cores = rows.length > 0 ? rows[rows.length - 1][3] : null;
+    
+    res.json({
+      serverId,
+      period,
+      from,
+      to,
+      idle_threshold: threshold,
+      cores,
+      measured_hours: measuredHours,
+      kwh: wh / 1000,
+      avg_power_w: avgPower,
+      avg_cpu: avgCpu,
+      // Null when the CPU did no measurable work or the core count is unknown
+      watts_per_cpu_percent: avgPower !== null && avgCpu > 0 ? avgPower / avgCpu : null,
+      watts_per_core: avgPower !== null && cores > 0 ? avgPower / cores : null,
+      idle: {
+        hours: idleHours,
+        kwh: idleWh / 1000,
+        time_share: measuredHours > 0 ? idleHours / measuredHours : 0,
+        energy_share: wh > 0 ? idleWh / wh : 0,
+        avg_power_w: idleHours > 0 ? idleWh / idleHours : null
+      },
+      busy_avg_power_w: busyHours > 0 ? (wh - idleWh) / busyHours : null
+    });
+  } catch (error) {
+    console.error('Failed to compute efficiency:', error);
+    res.status(500).json({ error: 'Failed to compute efficiency' });
+  }
+});
+
 // GET /predictions/:serverId - Health predictions
 app.get('/predictions/:serverId', (req, res) => {
   if (!dbInitialized) {
@@ -807,9 +1207,63 @@ app.get('/alerts', (req, res) => {
   }
 });
 
-// Health check
+// GET /config - Version of the configuration this agent runs and its non-secret values
+app.get('/config', (req, res) => {
+  res.json({
+    version: configVersion,
+    updated_at: configUpdatedAt,
+    remote_config: !!CONFIG_TOKEN,
+    thresholds: {
+      cpu: ALERT_THRESHOLDS.cpu,
+      ram: ALERT_THRESHOLDS.ram,
+      gpu: ALERT_THRESHOLDS.gpu,
+      temperature: ALERT_THRESHOLDS.temp,
+    },
+    channels: {
+      email: !!NOTIFICATION_CONFIG.smtpHost,
+      slack: !!NOTIFICATION_CONFIG.slackWebhook,
+      discord: !!NOTIFICATION_CONFIG.discordWebhook,
+    },
+  });
+});
+
+// PUT /config - Receive thresholds and notification settings from the dashboard
+app.put('/config', (req, res) => {
+  if (!CONFIG_TOKEN) {
+    return res.status(403).json({ error: 'Remote configuration is disabled (CONFIG_TOKEN not set)' });
+  }
+  const token = (req.headers.authorization || '').replace(/^Bearer\s+/i, '');
+  const expected = Buffer.from(CONFIG_TOKEN);
+  const given = Buffer.from(token);
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+    return res.status(401).json({ error: 'Invalid config token' });
+  }
+  
+  const { version, thresholds, notifications } = req.body || {};
+  if (!version || typeof thresholds !== 'object') {
+    return res.status(400).json({ error: 'Missing version or thresholds' });
+  }
+  
+  try {
+    const config = { version, thresholds, notifications: notifications || {}, updated_at: new Date().toISOString() };
+    applyConfig(config);
+    fs.writeFileSync(CONFIG_FILE, JSON.stringify(config), { encoding: 'utf8', mode: 0o600 });
+    console.log(`Applied pushed config version ${version}`);
+    res.json({ version: configVersion, updated_at: configUpdatedAt });
+  } catch (error) {
+    console.error('Failed to apply pushed config:', error);
+    res.status(500).json({ error: 'Failed to apply config' });
+  }
+});
+
+// Health check - also reports the agent version and the optional endpoints it serves
 app.get('/health', (req, res) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
+  res.json({
+    status: 'ok',
+    timestamp: new Date().toISOString(),
+    version: AGENT_VERSION,
+    capabilities: ['metrics', 'history', 'predictions', 'alerts', 'config', 'energy', 'efficiency']
+  });
 });
 
 // Start collecting metrics every 5 seconds
@@ -827,6 +1281,7 @@ setInterval(async () => {
 }, DNS_UPDATE_INTERVAL);
 
 // Start server after database initialization
+loadPushedConfig();
 initializeDatabase().then(() => {
   app.listen(PORT, () => {
     console.log(`Server monitoring API running on port ${PORT}`);
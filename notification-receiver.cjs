@@ -0,0 +1,47 @@
+#!/usr/bin/env node
+// Stand-in HTTP receiver for trying notification channels without real Slack, Teams, ntfy,
+// Gotify or incident accounts. Point a channel at http://localhost:5055/<anything> and every
+// request is printed. Paths ending in /fail answer 500 so failed deliveries can be tested too.
+//
+//   WEBHOOK_SECRET=... node notification-receiver.cjs   # also verify webhook signatures
+const http = require('http');
+const crypto = require('crypto');
+
+const PORT = process.env.RECEIVER_PORT || 5055;
+const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET;
+
+function verifySignature(req, body) {
+  const timestamp = req.headers['x-timestamp'];
+  const signature = req.headers['x-signature'];
+  if (!signature) return 'unsigned';
+  const expected = `sha256=${crypto.createHmac('sha256', WEBHOOK_SECRET).update(`${timestamp}.${body}`).digest('hex')}`;
+  const valid = signature.length === expected.length &&
+    crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+  return valid ? 'valid' : 'INVALID';
+}
+
+http.createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    console.log(`\n${new Date().toISOString()} ${req.method} ${req.url}`);
+    ['content-type', 'title', 'priority', 'tags', 'authorization', 'x-gotify-key', 'x-timestamp', 'x-signature']
+      .filter(name => req.headers[name])
+      .forEach(name => console.log(`  ${name}: ${req.headers[name]}`));
+    if (WEBHOOK_SECRET) console.log(`  signature: ${verifySignature(req, body)}`);
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+
+    if (req.url.endsWith('/fail')) {
+      res.writeHead(500, { 'Content-Type': 'text/plain' });
+      return res.end('Receiver was asked to fail');
+    }
+    res.writeHead(req.url.includes('enqueue') ? 202 : 200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ status: 'success' }));
+  });
+}).listen(PORT, () => {
+  console.log(`Notification receiver listening on http://localhost:${PORT}`);
+});
@@ -8,10 +8,23 @@ const express = require('express');
 const cors = require('cors');
 const path = require('path');
 const fs = require('fs');
+const crypto = require('crypto');
 const initSqlJs = require('sql.js');
+const nodemailer = require('nodemailer');
 
 const app = express();
 const PORT = process.env.PORT || 5000;
+const RULES_EVAL_INTERVAL = parseInt(process.env.RULES_EVAL_INTERVAL) || 15000;
+// Shared secret sent to agents when pushing config; must match CONFIG_TOKEN on each agent
+const AGENT_CONFIG_TOKEN = process.env.AGENT_CONFIG_TOKEN;
+// Encrypts notification secrets in the database; the previous key is only read, during a rotation
+const SETTINGS_SECRET_KEY = process.env.SETTINGS_SECRET_KEY;
+const SETTINGS_SECRET_KEY_PREVIOUS = process.env.SETTINGS_SECRET_KEY_PREVIOUS;
+// Origins allowed to call the API from another host; the dashboard itself is same-origin
+const CORS_ORIGINS = (process.env.CORS_ORIGINS || '').split(',').map(origin => origin.trim()).filter(Boolean);
+const SESSION_TTL_HOURS = parseInt(process.env.SESSION_TTL_HOURS) || 168;
+// Grid carbon intensity (gCO2e/kWh) seeded for the default site on first start
+const DEFAULT_CARBON_INTENSITY = parseFloat(process.env.DEFAULT_CARBON_INTENSITY) || 475;
 const DB_FILE = path.join(__dirname, 'settings.db');
 
 let db = null;
@@ -40,6 +53,15 @@ async function initializeDatabase() {
         created_at TEXT NOT NULL
       )
     `);
+    // Endpoint metadata added after the table was first released
+    addMissingColumns('server_endpoints', {
+      tags: 'TEXT',
+      location: 'TEXT',
+      rack: 'TEXT',
+      owner: 'TEXT',
+      notes: 'TEXT',
+      capabilities: 'TEXT'
+    });
     
     // Alert thresholds table
     db.run(`
@@ -52,6 +74,11 @@ async function initializeDatabase() {
         updated_at TEXT NOT NULL
       )
     `);
+    // Every save adds a row, so older rows are the history; restores point at the row they copied
+    addMissingColumns('alert_thresholds', {
+      changed_by: 'TEXT',
+      restored_from: 'INTEGER'
+    });
     
     // Notifications table
     db.run(`
@@ -69,6 +96,187 @@ async function initializeDatabase() {
       )
     `);
     
+    // Custom dashboards table (widgets and layouts stored as JSON)
+    db.run(`
+      CREATE TABLE IF NOT EXISTS dashboards (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        widgets TEXT NOT NULL,
+        layouts TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+    
+    // Lifecycle of alerts raised by agents, keyed by the agent's alert id
+    db.run(`
+      CREATE TABLE IF NOT EXISTS alert_states (
+        alert_id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        acknowledged_by TEXT,
+        acknowledged_at TEXT,
+        resolved_by TEXT,
+        resolved_at TEXT,
+        comment TEXT,
+        updated_at TEXT NOT NULL
+      )
+    `);
+    // Who is working on an alert, set independently of its status
+    addMissingColumns('alert_states', {
+      assigned_to: 'TEXT',
+      assigned_at: 'TEXT'
+    });
+    
+    // Alert rules evaluated by this server against metrics polled from the agents
+    db.run(`
+      CREATE TABLE IF NOT EXISTS alert_rules (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        metric TEXT NOT NULL,
+        operator TEXT NOT NULL,
+        threshold REAL NOT NULL,
+        duration_seconds INTEGER NOT NULL,
+        hysteresis REAL NOT NULL,
+        severity TEXT NOT NULL,
+        scope_type TEXT NOT NULL,
+        scope_value TEXT,
+        enabled INTEGER NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+    
+    // Alerts raised by the rule engine, in the same shape as agent alerts
+    db.run(`
+      CREATE TABLE IF NOT EXISTS rule_alerts (
+        id TEXT PRIMARY KEY,
+        timestamp TEXT NOT NULL,
+        server_id TEXT NOT NULL,
+        server_name TEXT NOT NULL,
+        subject TEXT NOT NULL,
+        message TEXT NOT NULL,
+        alert_type TEXT NOT NULL,
+        severity TEXT NOT NULL,
+        rule_id TEXT NOT NULL,
+        endpoint_id TEXT NOT NULL,
+        resolved_at TEXT
+      )
+    `);
+    
+    // Every notification the server tried to send, including test sends from Settings
+    db.run(`
+      CREATE TABLE IF NOT EXISTS notification_deliveries (
+        id TEXT PRIMARY KEY,
+        timestamp TEXT NOT NULL,
+        channel TEXT NOT NULL,
+        target TEXT NOT NULL,
+        status TEXT NOT NULL,
+        error TEXT,
+        subject TEXT NOT NULL,
+        is_test INTEGER NOT NULL
+      )
+    `);
+    // Deliveries made through configured channels rather than the fixed SMTP/Slack/Discord settings
+    addMissingColumns('notification_deliveries', {
+      channel_id: 'TEXT',
+      channel_name: 'TEXT'
+    });
+    
+    // Notification channels, each with a type, its own config and an optional message template
+    db.run(`
+      CREATE TABLE IF NOT EXISTS notification_channels (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        type TEXT NOT NULL,
+        config TEXT NOT NULL,
+        template TEXT,
+        enabled INTEGER NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+    migrateNotificationSettings();
+    sealStoredSecrets();
+    
+    // Local user accounts; passwords are scrypt hashes
+    db.run(`
+      CREATE TABLE IF NOT EXISTS users (
+        id TEXT PRIMARY KEY,
+        username TEXT NOT NULL UNIQUE,
+        password_hash TEXT NOT NULL,
+        role TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        last_login_at TEXT
+      )
+    `);
+    
+    // Login sessions, keyed by a hash of the cookie token so a copy of the database cannot log in
+    db.run(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        token_hash TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL
+      )
+    `);
+    createInitialAdmin();
+    
+    // Who changed which setting and how; changes holds { field: { before, after } }
+    db.run(`
+      CREATE TABLE IF NOT EXISTS audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp TEXT NOT NULL,
+        actor TEXT NOT NULL,
+        action TEXT NOT NULL,
+        entity_type TEXT NOT NULL,
+        entity_id TEXT,
+        entity_name TEXT,
+        changes TEXT NOT NULL
+      )
+    `);
+    
+    // Grid carbon intensity per site (a server's location); the 'default' row covers every other server.
+    // profile is 24 hourly gCO2e/kWh values in the site's timezone and replaces g_per_kwh when set.
+    db.run(`
+      CREATE TABLE IF NOT EXISTS carbon_intensity (
+        site TEXT PRIMARY KEY,
+        g_per_kwh REAL NOT NULL,
+        profile TEXT,
+        timezone TEXT,
+        updated_at TEXT NOT NULL
+      )
+    `);
+    db.run(`INSERT OR IGNORE INTO carbon_intensity (site, g_per_kwh, profile, timezone, updated_at)
+      VALUES ('default', ?, NULL, NULL, ?)`, [DEFAULT_CARBON_INTENSITY, new Date().toISOString()]);
+    
+    // Facility overhead per site: PUE (facility power / IT power), optionally with a meter reporting facility power
+    db.run(`
+      CREATE TABLE IF NOT EXISTS site_facilities (
+        site TEXT PRIMARY KEY,
+        pue REAL NOT NULL,
+        meter_url TEXT,
+        meter_field TEXT,
+        updated_at TEXT NOT NULL
+      )
+    `);
+    
+    // Electricity tariffs; rates holds the prices for the tariff type, per kWh in the tariff's currency
+    db.run(`
+      CREATE TABLE IF NOT EXISTS tariffs (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        currency TEXT NOT NULL,
+        type TEXT NOT NULL,
+        rates TEXT NOT NULL,
+        timezone TEXT,
+        scope_type TEXT NOT NULL,
+        scope_value TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+    
     dbInitialized = true;
     console.log('✓ Database initialized');
     saveDatabase();
@@ -78,6 +286,15 @@ async function initializeDatabase() {
   }
 }
 
+// Add columns introduced in later versions to tables created by earlier ones
+function addMissingColumns(table, columns) {
+  const result = db.exec(`PRAGMA table_info(${table})`);
+  const existing = result[0] ? result[0].values.map(row => row[1]) : [];
+  Object.entries(columns).forEach(([name, type]) => {
+    if (!existing.includes(name)) db.run(`ALTER TABLE ${table} ADD COLUMN ${name} ${type}`);
+  });
+}
+
 // Save database to disk
 function saveDatabase() {
   if (db && dbInitialized) {
@@ -99,50 +316,477 @@ process.on('exit', () => saveDatabase());
 process.on('SIGTERM', () => { saveDatabase(); process.exit(0); });
 process.on('SIGINT', () => { saveDatabase(); process.exit(0); });
 
-app.use(cors());
+app.use(cors({ origin: CORS_ORIGINS.length > 0 ? CORS_ORIGINS : false, credentials: true }));
 app.use(express.json());
 
+// Authentication - local users with roles, logged in through an HttpOnly session cookie
+const SESSION_COOKIE = 'monitor_session';
+const ROLES = ['viewer', 'operator', 'admin'];
+const LOGIN_WINDOW = 15 * 60 * 1000;
+const LOGIN_MAX_FAILURES = 5;
+const loginFailures = new Map();
+
+function hashPassword(password) {
+  const salt = crypto.randomBytes(16);
+  const hash = crypto.scryptSync(password, salt, 64);
+  return `scrypt:${salt.toString('base64')}:${hash.toString('base64')}`;
+}
+
+// Checked instead of a real hash when the username does not exist, so the response takes as long
+// as for a wrong password and does not tell which usernames exist
+const DUMMY_PASSWORD_HASH = hashPassword(crypto.randomBytes(16).toString('hex'));
+
+function verifyPassword(password, stored) {
+  const [scheme, salt, hash] = stored.split(':');
+  if (scheme !== 'scrypt') return false;
+  const expected = Buffer.from(hash, 'base64');
+  const actual = crypto.scryptSync(password, Buffer.from(salt, 'base64'), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+function hashToken(token) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function rowToUser(row) {
+  return {
+    id: row[0],
+    username: row[1],
+    role: row[3],
+    created_at: row[4],
+    updated_at: row[5],
+    last_login_at: row[6]
+  };
+}
+
+function findUserRow(column, value) {
+  const result = db.exec(`SELECT * FROM users WHERE ${column} = ?`, [value]);
+  return result[0] ? result[0].values[0] : null;
+}
+
+function getUsers() {
+  const result = db.exec('SELECT * FROM users ORDER BY username ASC');
+  return (result[0] ? result[0].values : []).map(rowToUser);
+}
+
+function countAdmins() {
+  const result = db.exec("SELECT COUNT(*) FROM users WHERE role = 'admin'");
+  return result[0].values[0][0];
+}
+
+function validatePassword(password) {
+  if (typeof password !== 'string' || password.length < 8) return 'Password must be at least 8 characters';
+  return null;
+}
+
+function insertUser(username, password, role) {
+  const now = new Date().toISOString();
+  const id = `user-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  db.run(`INSERT INTO users (id, username, password_hash, role, created_at, updated_at, last_login_at)
+    VALUES (?, ?, ?, ?, ?, ?, NULL)`, [id, username, hashPassword(password), role, now, now]);
+  return rowToUser(findUserRow('id', id));
+}
+
+// ADMIN_USERNAME and ADMIN_PASSWORD create the first admin; otherwise the login page offers setup
+function createInitialAdmin() {
+  const { ADMIN_USERNAME, ADMIN_PASSWORD } = process.env;
+  if (!ADMIN_USERNAME || !ADMIN_PASSWORD || getUsers().length > 0) return;
+  const invalid = validatePassword(ADMIN_PASSWORD);
+  if (invalid) return console.error(`✗ ADMIN_PASSWORD not used: ${invalid}`);
+  insertUser(ADMIN_USERNAME, ADMIN_PASSWORD, 'admin');
+  console.log(`✓ Created admin user ${ADMIN_USERNAME}`);
+}
+
+function parseCookies(header) {
+  return Object.fromEntries((header || '').split(';')
+    .map(part => part.trim().split('='))
+    .filter(([name, value]) => name && value !== undefined)
+    .map(([name, value]) => [name, decodeURIComponent(value)]));
+}
+
+function sessionCookie(req, token, maxAgeSeconds) {
+  const secure = req.secure || req.headers['x-forwarded-proto'] === 'https';
+  return `${SESSION_COOKIE}=${token}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${maxAgeSeconds}${secure ? '; Secure' : ''}`;
+}
+
+function startSession(req, res, userId) {
+  const token = crypto.randomBytes(32).toString('base64url');
+  const now = new Date();
+  const expires = new Date(now.getTime() + SESSION_TTL_HOURS * 3600 * 1000);
+  db.run('DELETE FROM sessions WHERE expires_at < ?', [now.toISOString()]);
+  db.run('INSERT INTO sessions (token_hash, user_id, created_at, expires_at) VALUES (?, ?, ?, ?)',
+    [hashToken(token), userId, now.toISOString(), expires.toISOString()]);
+  db.run('UPDATE users SET last_login_at = ? WHERE id = ?', [now.toISOString(), userId]);
+  saveDatabase();
+  res.setHeader('Set-Cookie', sessionCookie(req, token, SESSION_TTL_HOURS * 3600));
+}
+
+function sessionUser(req) {
+  const token = parseCookies(req.headers.cookie)[SESSION_COOKIE];
+  if (!token) return null;
+  const result = db.exec(`SELECT users.* FROM sessions JOIN users ON users.id = sessions.user_id
+    WHERE sessions.token_hash = ? AND sessions.expires_at > ?`, [hashToken(token), new Date().toISOString()]);
+  return result[0] ? rowToUser(result[0].values[0]) : null;
+}
+
+function requireAuth(req, res, next) {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  req.user = sessionUser(req);
+  if (!req.user) return res.status(401).json({ error: 'Not logged in' });
+  next();
+}
+
+// Roles are ordered: operators can do everything viewers can, admins everything operators can
+function requireRole(role) {
+  return (req, res, next) => {
+    if (ROLES.indexOf(req.user.role) < ROLES.indexOf(role)) {
+      return res.status(403).json({ error: `Requires the ${role} role` });
+    }
+    next();
+  };
+}
+
+function tooManyFailures(key) {
+  const failures = (loginFailures.get(key) || []).filter(time => Date.now() - time < LOGIN_WINDOW);
+  loginFailures.set(key, failures);
+  return failures.length >= LOGIN_MAX_FAILURES;
+}
+
+// GET /api/auth/session - The logged in user, and whether the first admin still has to be created
+app.get('/api/auth/session', (req, res) => {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  
+  try {
+    res.json({ user: sessionUser(req), setup_required: getUsers().length === 0 });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to retrieve session' });
+  }
+});
+
+app.post('/api/auth/login', (req, res) => {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  
+  const { username, password } = req.body;
+  const key = `${req.ip}:${username}`;
+  if (tooManyFailures(key)) {
+    return res.status(429).json({ error: 'Too many failed logins. Try again in 15 minutes.' });
+  }
+  
+  try {
+    const row = username ? findUserRow('username', username) : null;
+    const valid = verifyPassword(String(password || ''), row ? row[2] : DUMMY_PASSWORD_HASH);
+    if (!row || !password || !valid) {
+      loginFailures.get(key).push(Date.now());
+      return res.status(401).json({ error: 'Invalid username or password' });
+    }
+    loginFailures.delete(key);
+    startSession(req, res, row[0]);
+    res.json(rowToUser(row));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to log in' });
+  }
+});
+
+app.post('/api/auth/logout', (req, res) => {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  
+  const token = parseCookies(req.headers.cookie)[SESSION_COOKIE];
+  if (token) {
+    db.run('DELETE FROM sessions WHERE token_hash = ?', [hashToken(token)]);
+    saveDatabase();
+  }
+  res.setHeader('Set-Cookie', sessionCookie(req, '', 0));
+  res.json({ success: true });
+});
+
+// POST /api/auth/setup - Creates the first admin and logs them in; only while there are no users
+app.post('/api/auth/setup', (req, res) => {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  if (getUsers().length > 0) return res.status(409).json({ error: 'Setup is already complete' });
+  
+  const { username, password } = req.body;
+  if (!username) return res.status(400).json({ error: 'Missing username' });
+  const invalid = validatePassword(password);
+  if (invalid) return res.status(400).json({ error: invalid });
+  
+  try {
+    const user = insertUser(username, password, 'admin');
+    recordAudit({ user }, { action: 'create', entity_type: 'user', entity_id: user.id, entity_name: user.username,
+      after: auditUser(user, true) });
+    startSession(req, res, user.id);
+    res.json(user);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to create admin user' });
+  }
+});
+
+// Audit log - one entry per settings change, with a field-by-field diff
+const AUDIT_IGNORED_FIELDS = ['id', 'created_at', 'updated_at'];
+const AUDIT_SECRET = '(secret)';
+const AUDIT_NEW_SECRET = '(new secret)';
+
+// Nested objects become dotted keys so a diff names the exact setting; arrays are compared whole
+function flattenForAudit(value, prefix = '', out = {}) {
+  Object.entries(value || {}).forEach(([key, field]) => {
+    const name = prefix ? `${prefix}.${key}` : key;
+    if (!prefix && AUDIT_IGNORED_FIELDS.includes(key)) return;
+    if (field && typeof field === 'object' && !Array.isArray(field)) flattenForAudit(field, name, out);
+    else out[name] = field === undefined ? null : field;
+  });
+  return out;
+}
+
+function diffForAudit(before, after) {
+  const previous = flattenForAudit(before);
+  const next = flattenForAudit(after);
+  const changes = {};
+  new Set([...Object.keys(previous), ...Object.keys(next)]).forEach(key => {
+    const from = key in previous ? previous[key] : null;
+    const to = key in next ? next[key] : null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) changes[key] = { before: from, after: to };
+  });
+  return changes;
+}
+
+// Records a change made by the logged in user. Updates that change nothing are skipped.
+function recordAudit(req, { action, entity_type, entity_id = null, entity_name = null, before = null, after = null }) {
+  const changes = diffForAudit(before, after);
+  if (action === 'update' && Object.keys(changes).length === 0) return;
+  db.run(`INSERT INTO audit_log (timestamp, actor, action, entity_type, entity_id, entity_name, changes)
+    VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [new Date().toISOString(), req.user ? req.user.username : 'system', action, entity_type, entity_id,
+      entity_name, JSON.stringify(changes)]);
+}
+
+function auditUser(user, passwordSet) {
+  return { username: user.username, role: user.role, password: passwordSet ? AUDIT_SECRET : null };
+}
+
+function rowToAuditEntry(row) {
+  return {
+    id: row[0],
+    timestamp: row[1],
+    actor: row[2],
+    action: row[3],
+    entity_type: row[4],
+    entity_id: row[5],
+    entity_name: row[6],
+    changes: JSON.parse(row[7])
+  };
+}
+
+// Every settings route needs a logged in user; routes that change settings also check the role
+app.use('/api/settings', requireAuth);
+
+app.get('/api/settings/users', requireRole('admin'), (req, res) => {
+  try {
+    res.json(getUsers());
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to retrieve users' });
+  }
+});
+
+app.post('/api/settings/users', requireRole('admin'), (req, res) => {
+  const { username, password, role } = req.body;
+  if (!username) return res.status(400).json({ error: 'Missing username' });
+  if (!ROLES.includes(role)) return res.status(400).json({ error: 'Unknown role' });
+  const invalid = validatePassword(password);
+  if (invalid) return res.status(400).json({ error: invalid });
+  if (findUserRow('username', username)) return res.status(409).json({ error: 'Username is taken' });
+  
+  try {
+    const user = insertUser(username, password, role);
+    recordAudit(req, { action: 'create', entity_type: 'user', entity_id: user.id, entity_name: user.username,
+      after: auditUser(user, true) });
+    saveDatabase();
+    res.json(user);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to add user' });
+  }
+});
+
+// Changes role and/or password. A new password logs the user out everywhere.
+app.put('/api/settings/users/:id', requireRole('admin'), (req, res) => {
+  const row = findUserRow('id', req.params.id);
+  if (!row) return res.status(404).json({ error: 'User not found' });
+  
+  const { role, password } = req.body;
+  if (role !== undefined && !ROLES.includes(role)) return res.status(400).json({ error: 'Unknown role' });
+  if (role && role !== 'admin' && row[3] === 'admin' && countAdmins() === 1) {
+    return res.status(400).json({ error: 'The last admin cannot lose the admin role' });
+  }
+  if (password !== undefined) {
+    const invalid = validatePassword(password);
+    if (invalid) return res.status(400).json({ error: invalid });
+  }
+  
+  try {
+    const now = new Date().toISOString();
+    if (role) db.run('UPDATE users SET role = ?, updated_at = ? WHERE id = ?', [role, now, row[0]]);
+    if (password !== undefined) {
+      db.run('UPDATE users SET password_hash = ?, updated_at = ? WHERE id = ?', [hashPassword(password), now, row[0]]);
+      db.run('DELETE FROM sessions WHERE user_id = ?', [row[0]]);
+    }
+    const updated = rowToUser(findUserRow('id', row[0]));
+    recordAudit(req, { action: 'update', entity_type: 'user', entity_id: updated.id, entity_name: updated.username,
+      before: auditUser(rowToUser(row), true),
+      after: { ...auditUser(updated, true), password: password !== undefined ? AUDIT_NEW_SECRET : AUDIT_SECRET } });
+    saveDatabase();
+    res.json(updated);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to update user' });
+  }
+});
+
+app.delete('/api/settings/users/:id', requireRole('admin'), (req, res) => {
+  if (req.params.id === req.user.id) return res.status(400).json({ error: 'You cannot delete your own account' });
+  
+  try {
+    const row = findUserRow('id', req.params.id);
+    db.run('DELETE FROM users WHERE id = ?', [req.params.id]);
+    db.run('DELETE FROM sessions WHERE user_id = ?', [req.params.id]);
+    if (row) {
+      recordAudit(req, { action: 'delete', entity_type: 'user', entity_id: row[0], entity_name: row[1],
+        before: auditUser(rowToUser(row), true) });
+    }
+    saveDatabase();
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to delete user' });
+  }
+});
+
+// GET /api/settings/audit-log - Newest first; filter by actor, action, entity_type, entity_id, since and until
+app.get('/api/settings/audit-log', requireRole('admin'), (req, res) => {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  
+  const limit = Math.min(parseInt(req.query.limit) || 200, 1000);
+  const filters = [];
+  const params = [];
+  ['actor', 'action', 'entity_type', 'entity_id'].forEach(field => {
+    if (!req.query[field]) return;
+    filters.push(`${field} = ?`);
+    params.push(req.query[field]);
+  });
+  if (req.query.since) {
+    filters.push('timestamp >= ?');
+    params.push(req.query.since);
+  }
+  if (req.query.until) {
+    filters.push('timestamp <= ?');
+    params.push(req.query.until);
+  }
+  
+  try {
+    const where = filters.length ? `WHERE ${filters.join(' AND ')}` : '';
+    const result = db.exec(`SELECT * FROM audit_log ${where} ORDER BY id DESC LIMIT ?`, [...params, limit]);
+    res.json((result[0] ? result[0].values : []).map(rowToAuditEntry));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to retrieve audit log' });
+  }
+});
+
 // API Routes for settings
+const SERVER_COLUMNS = 'id, name, url, created_at, tags, location, rack, owner, notes, capabilities';
+
+function rowToServer(row) {
+  return {
+    id: row[0],
+    name: row[1],
+    url: row[2],
+    created_at: row[3],
+    tags: row[4] ? JSON.parse(row[4]) : [],
+    location: row[5] || '',
+    rack: row[6] || '',
+    owner: row[7] || '',
+    notes: row[8] || '',
+    capabilities: row[9] ? JSON.parse(row[9]) : null
+  };
+}
+
+function findServer(id) {
+  const result = db.exec(`SELECT ${SERVER_COLUMNS} FROM server_endpoints WHERE id = ?`, [id]);
+  const rows = result[0] ? result[0].values : [];
+  return rows.length > 0 ? rowToServer(rows[0]) : null;
+}
+
+function normalizeTags(tags) {
+  if (!Array.isArray(tags)) return [];
+  return [...new Set(tags.map(tag => String(tag).trim()).filter(Boolean))];
+}
+
 app.get('/api/settings/servers', (req, res) => {
   if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
   
   try {
-    const result = db.exec('SELECT * FROM server_endpoints ORDER BY created_at ASC');
+    const result = db.exec(`SELECT ${SERVER_COLUMNS} FROM server_endpoints ORDER BY created_at ASC`);
     const rows = result[0] ? result[0].values : [];
-    const servers = rows.map(row => ({
-      id: row[0],
-      name: row[1],
-      url: row[2],
-      created_at: row[3]
-    }));
-    res.json(servers);
+    res.json(rows.map(rowToServer));
   } catch (error) {
     res.status(500).json({ error: 'Failed to retrieve servers' });
   }
 });
 
-app.post('/api/settings/servers', (req, res) => {
+app.post('/api/settings/servers', requireRole('admin'), (req, res) => {
   if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
   
-  const { id, name, url } = req.body;
+  const { id, name, url, location = '', rack = '', owner = '', notes = '', capabilities = null } = req.body;
   if (!id || !name || !url) return res.status(400).json({ error: 'Missing required fields' });
   
   try {
     const created_at = new Date().toISOString();
-    db.run('INSERT INTO server_endpoints (id, name, url, created_at) VALUES (?, ?, ?, ?)', 
-      [id, name, url, created_at]);
+    const tags = normalizeTags(req.body.tags);
+    db.run(`INSERT INTO server_endpoints (${SERVER_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [id, name, url, created_at, JSON.stringify(tags), location, rack, owner, notes,
+        capabilities ? JSON.stringify(capabilities) : null]);
+    const server = { id, name, url, created_at, tags, location, rack, owner, notes, capabilities };
+    recordAudit(req, { action: 'create', entity_type: 'server', entity_id: id, entity_name: name, after: server });
     saveDatabase();
-    res.json({ id, name, url, created_at });
+    res.json(server);
   } catch (error) {
     res.status(500).json({ error: 'Failed to add server' });
   }
 });
 
-app.delete('/api/settings/servers/:id', (req, res) => {
+app.put('/api/settings/servers/:id', requireRole('admin'), (req, res) => {
   if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
   
   try {
+    const existing = findServer(req.params.id);
+    if (!existing) return res.status(404).json({ error: 'Server not found' });
+    
+    const updated = { ...existing };
+    ['name', 'url', 'location', 'rack', 'owner', 'notes', 'capabilities'].forEach(field => {
+      if (req.body[field] !== undefined) updated[field] = req.body[field];
+    });
+    if (req.body.tags !== undefined) updated.tags = normalizeTags(req.body.tags);
+    if (!updated.name || !updated.url) return res.status(400).json({ error: 'Name and URL are required' });
+    
+    db.run(`UPDATE server_endpoints SET name = ?, url = ?, tags = ?, location = ?, rack = ?, owner = ?, notes = ?,
+      capabilities = ? WHERE id = ?`,
+      [updated.name, updated.url, JSON.stringify(updated.tags), updated.location, updated.rack, updated.owner,
+        updated.notes, updated.capabilities ? JSON.stringify(updated.capabilities) : null, req.params.id]);
+    recordAudit(req, { action: 'update', entity_type: 'server', entity_id: updated.id, entity_name: updated.name,
+      before: existing, after: updated });
+    resolveInapplicableRuleAlerts(Date.now());
+    saveDatabase();
+    res.json(updated);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to update server' });
+  }
+});
+
+app.delete('/api/settings/servers/:id', requireRole('admin'), (req, res) => {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  
+  try {
+    const existing = findServer(req.params.id);
     db.run('DELETE FROM server_endpoints WHERE id = ?', [req.params.id]);
+    if (existing) {
+      recordAudit(req, { action: 'delete', entity_type: 'server', entity_id: existing.id, entity_name: existing.name,
+        before: existing });
+    }
+    resolveInapplicableRuleAlerts(Date.now());
     saveDatabase();
     res.json({ success: true });
   } catch (error) {
@@ -150,31 +794,57 @@ app.delete('/api/settings/servers/:id', (req, res) => {
   }
 });
 
+function rowToThresholds(row) {
+  return {
+    id: row[0],
+    cpu: row[1],
+    ram: row[2],
+    gpu: row[3],
+    temperature: row[4],
+    updated_at: row[5],
+    changed_by: row[6] || null,
+    restored_from: row[7] || null
+  };
+}
+
+function findThresholds(id) {
+  const result = db.exec('SELECT * FROM alert_thresholds WHERE id = ?', [id]);
+  const rows = result[0] ? result[0].values : [];
+  return rows.length > 0 ? rowToThresholds(rows[0]) : null;
+}
+
+// Adds a new version on top of the history and returns it
+function insertThresholds(req, { cpu, ram, gpu, temperature }, restoredFrom = null) {
+  const previous = latestRow('alert_thresholds');
+  db.run(`INSERT INTO alert_thresholds (cpu, ram, gpu, temperature, updated_at, changed_by, restored_from)
+    VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [cpu, ram, gpu, temperature, new Date().toISOString(), req.user.username, restoredFrom]);
+  const thresholds = rowToThresholds(latestRow('alert_thresholds'));
+  recordAudit(req, { action: 'update', entity_type: 'alert_thresholds', entity_id: String(thresholds.id),
+    entity_name: restoredFrom ? `Alert thresholds (restored version ${restoredFrom})` : 'Alert thresholds',
+    before: previous && { cpu: previous[1], ram: previous[2], gpu: previous[3], temperature: previous[4] },
+    after: { cpu, ram, gpu, temperature } });
+  saveDatabase();
+  return thresholds;
+}
+
 app.get('/api/settings/alerts', (req, res) => {
   if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
   
   try {
-    const result = db.exec('SELECT * FROM alert_thresholds ORDER BY id DESC LIMIT 1');
-    const rows = result[0] ? result[0].values : [];
-    
-    if (rows.length === 0) {
+    const row = latestRow('alert_thresholds');
+    if (!row) {
       return res.json({ cpu: 80, ram: 80, gpu: 80, temperature: 80 });
     }
     
-    const row = rows[0];
-    res.json({
-      cpu: row[1],
-      ram: row[2],
-      gpu: row[3],
-      temperature: row[4],
-      updated_at: row[5]
-    });
+    const { cpu, ram, gpu, temperature, updated_at } = rowToThresholds(row);
+    res.json({ cpu, ram, gpu, temperature, updated_at });
   } catch (error) {
     res.status(500).json({ error: 'Failed to retrieve alert thresholds' });
   }
 });
 
-app.post('/api/settings/alerts', (req, res) => {
+app.post('/api/settings/alerts', requireRole('admin'), (req, res) => {
   if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
   
   const { cpu, ram, gpu, temperature } = req.body;
@@ -183,85 +853,1730 @@ app.post('/api/settings/alerts', (req, res) => {
   }
   
   try {
-    const updated_at = new Date().toISOString();
-    db.run('INSERT INTO alert_thresholds (cpu, ram, gpu, temperature, updated_at) VALUES (?, ?, ?, ?, ?)',
-      [cpu, ram, gpu, temperature, updated_at]);
-    saveDatabase();
+    const { updated_at } = insertThresholds(req, { cpu, ram, gpu, temperature });
     res.json({ cpu, ram, gpu, temperature, updated_at });
   } catch (error) {
     res.status(500).json({ error: 'Failed to save alert thresholds' });
   }
 });
 
-app.get('/api/settings/notifications', (req, res) => {
+// GET /api/settings/alerts/history - Every saved version of the thresholds, newest (current) first
+app.get('/api/settings/alerts/history', (req, res) => {
   if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
   
+  const limit = Math.min(parseInt(req.query.limit) || 100, 1000);
+  
   try {
-    const result = db.exec('SELECT * FROM notifications ORDER BY id DESC LIMIT 1');
-    const rows = result[0] ? result[0].values : [];
-    
-    if (rows.length === 0) return res.json({});
-    
-    const row = rows[0];
-    res.json({
-      smtp_host: row[1],
-      smtp_port: row[2],
-      smtp_user: row[3],
-      smtp_pass: row[4],
-      smtp_from: row[5],
-      alert_email: row[6],
-      slack_webhook: row[7],
-      discord_webhook: row[8],
-      updated_at: row[9]
-    });
+    const result = db.exec('SELECT * FROM alert_thresholds ORDER BY id DESC LIMIT ?', [limit]);
+    res.json((result[0] ? result[0].values : []).map(rowToThresholds));
   } catch (error) {
-    res.status(500).json({ error: 'Failed to retrieve notification settings' });
+    res.status(500).json({ error: 'Failed to retrieve alert threshold history' });
   }
 });
 
-app.post('/api/settings/notifications', (req, res) => {
+// Restoring saves the old values as a new version, so the history itself never changes
+app.post('/api/settings/alerts/history/:id/restore', requireRole('admin'), (req, res) => {
   if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
   
-  const { smtp_host, smtp_port, smtp_user, smtp_pass, smtp_from, alert_email, slack_webhook, discord_webhook } = req.body;
-  
   try {
-    const updated_at = new Date().toISOString();
-    db.run(`INSERT INTO notifications 
-      (smtp_host, smtp_port, smtp_user, smtp_pass, smtp_from, alert_email, slack_webhook, discord_webhook, updated_at) 
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [smtp_host, smtp_port, smtp_user, smtp_pass, smtp_from, alert_email, slack_webhook, discord_webhook, updated_at]);
-    saveDatabase();
-    res.json({ success: true, updated_at });
+    const version = findThresholds(req.params.id);
+    if (!version) return res.status(404).json({ error: 'Threshold version not found' });
+    
+    res.json(insertThresholds(req, version, version.id));
   } catch (error) {
-    res.status(500).json({ error: 'Failed to save notification settings' });
+    res.status(500).json({ error: 'Failed to restore alert thresholds' });
   }
 });
 
-// Serve static files from dist folder in production
-app.use(express.static(path.join(__dirname, 'dist')));
+// Agent configuration - thresholds and notification settings distributed to every agent
+function latestRow(table) {
+  const result = db.exec(`SELECT * FROM ${table} ORDER BY id DESC LIMIT 1`);
+  return result[0] ? result[0].values[0] : null;
+}
 
-// All other routes serve the React app
-app.get('*', (req, res) => {
-  res.sendFile(path.join(__dirname, 'dist', 'index.html'));
-});
+// Agents only know the fixed SMTP/Slack/Discord settings, so they get the first enabled channel of each.
+// Every other channel is listed with the reason it is not sent: disabled, duplicate or unsupported.
+const AGENT_CHANNEL_TYPES = ['email', 'slack', 'discord'];
 
-// Start server
-initializeDatabase().then(() => {
-  app.listen(PORT, () => {
-    console.log(`
-╔════════════════════════════════════════╗
-║   Server Monitor Dashboard             ║
-╚════════════════════════════════════════╝
+function agentChannels() {
+  const channels = getNotificationChannels();
+  const distributed = AGENT_CHANNEL_TYPES
+    .map(type => channels.find(channel => channel.enabled && channel.type === type))
+    .filter(Boolean);
+  const skipped = channels.filter(channel => !distributed.includes(channel)).map(channel => ({
+    id: channel.id,
+    name: channel.name,
+    type: channel.type,
+    reason: !AGENT_CHANNEL_TYPES.includes(channel.type) ? 'unsupported' : !channel.enabled ? 'disabled' : 'duplicate'
+  }));
+  return { distributed, skipped };
+}
 
-✓ Server running on port ${PORT}
-✓ Frontend: http://localhost:${PORT}
-✓ Settings API: http://localhost:${PORT}/api/settings
-✓ Database: ${DB_FILE}
+// Fields without a channel are sent empty, which tells the agent to fall back to its .env value
+function currentNotificationSettings(distributed) {
+  const first = type => (distributed.find(channel => channel.type === type) || { config: {} }).config;
+  const email = first('email');
+  return {
+    smtp_host: email.smtp_host || '',
+    smtp_port: email.smtp_port || '',
+    smtp_user: email.smtp_user || '',
+    smtp_pass: email.smtp_pass || '',
+    smtp_from: email.smtp_from || '',
+    alert_email: email.to || '',
+    slack_webhook: first('slack').webhook_url || '',
+    discord_webhook: first('discord').webhook_url || ''
+  };
+}
+
+function channelSummary({ distributed, skipped }) {
+  return {
+    distributed: distributed.map(channel => ({ id: channel.id, name: channel.name, type: channel.type })),
+    skipped
+  };
+}
+
+// The version is a hash of the content, so agents running the same settings report the same version
+function currentAgentConfig() {
+  const thresholdRow = latestRow('alert_thresholds');
+  const thresholds = thresholdRow
+    ? { cpu: thresholdRow[1], ram: thresholdRow[2], gpu: thresholdRow[3], temperature: thresholdRow[4] }
+    : { cpu: 80, ram: 80, gpu: 80, temperature: 80 };
+  const channels = agentChannels();
+  const notifications = currentNotificationSettings(channels.distributed);
+  const version = crypto.createHash('sha256')
+    .update(JSON.stringify({ thresholds, notifications }))
+    .digest('hex')
+    .slice(0, 12);
+  return { version, thresholds, notifications, channels: channelSummary(channels) };
+}
+
+function getEndpoints() {
+  const result = db.exec(`SELECT ${SERVER_COLUMNS} FROM server_endpoints ORDER BY created_at ASC`);
+  return (result[0] ? result[0].values : []).map(rowToServer);
+}
+
+async function agentRequest(endpoint, method, body) {
+  const response = await fetch(`${endpoint.url.replace(/\/+$/, '')}/config`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(AGENT_CONFIG_TOKEN ? { Authorization: `Bearer ${AGENT_CONFIG_TOKEN}` } : {})
+    },
+    body: body ? JSON.stringify(body) : undefined,
+    signal: AbortSignal.timeout(10000)
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`);
+  return data;
+}
+
+// Version each agent is running compared with the version that would be pushed now
+app.get('/api/settings/agent-config', async (req, res) => {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  
+  try {
+    const { version, channels } = currentAgentConfig();
+    const agents = await Promise.all(getEndpoints().map(async endpoint => {
+      try {
+        const config = await agentRequest(endpoint, 'GET');
+        return { endpoint_id: endpoint.id, name: endpoint.name, ok: true, version: config.version,
+          updated_at: config.updated_at, remote_config: config.remote_config };
+      } catch (error) {
+        return { endpoint_id: endpoint.id, name: endpoint.name, ok: false, error: error.message };
+      }
+    }));
+    res.json({ version, token_configured: !!AGENT_CONFIG_TOKEN, channels, agents });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to retrieve agent config status' });
+  }
+});
+
+app.post('/api/settings/agent-config/push', requireRole('admin'), async (req, res) => {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  if (!AGENT_CONFIG_TOKEN) {
+    return res.status(400).json({ error: 'Set AGENT_CONFIG_TOKEN on the dashboard server to push config' });
+  }
+  
+  try {
+    const { channels, ...config } = currentAgentConfig();
+    const agents = await Promise.all(getEndpoints().map(async endpoint => {
+      try {
+        const result = await agentRequest(endpoint, 'PUT', config);
+        return { endpoint_id: endpoint.id, name: endpoint.name, ok: true, version: result.version,
+          updated_at: result.updated_at };
+      } catch (error) {
+        return { endpoint_id: endpoint.id, name: endpoint.name, ok: false, error: error.message };
+      }
+    }));
+    recordAudit(req, { action: 'push', entity_type: 'agent_config', entity_name: `Version ${config.version}`,
+      after: { version: config.version, pushed: agents.filter(agent => agent.ok).map(agent => agent.name),
+        failed: agents.filter(agent => !agent.ok).map(agent => agent.name) } });
+    saveDatabase();
+    res.json({ version: config.version, token_configured: true, channels, agents });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to push agent config' });
+  }
+});
+
+// Secrets at rest - AES-256-GCM with a key derived from SETTINGS_SECRET_KEY. Stored values look like
+// enc:v1:<key id>:<iv>:<auth tag>:<ciphertext>; the key id tells which key a value was sealed with.
+const SECRET_PREFIX = 'enc:v1:';
+
+function deriveSecretKey(secret) {
+  const key = crypto.createHash('sha256').update(secret).digest();
+  return { key, id: crypto.createHash('sha256').update(key).digest('hex').slice(0, 8) };
+}
+
+const SECRET_KEYS = [SETTINGS_SECRET_KEY, SETTINGS_SECRET_KEY_PREVIOUS].filter(Boolean).map(deriveSecretKey);
+
+function isSealed(value) {
+  return typeof value === 'string' && value.startsWith(SECRET_PREFIX);
+}
+
+function sealSecret(value) {
+  if (!value || isSealed(value) || SECRET_KEYS.length === 0) return value;
+  const { key, id } = SECRET_KEYS[0];
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const data = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+  return `${SECRET_PREFIX}${id}:${iv.toString('base64')}:${cipher.getAuthTag().toString('base64')}:` +
+    data.toString('base64');
+}
+
+function openSecret(value) {
+  if (!isSealed(value)) return value;
+  const [id, iv, tag, data] = value.slice(SECRET_PREFIX.length).split(':');
+  const match = SECRET_KEYS.find(candidate => candidate.id === id);
+  if (!match) throw new Error(`Secret was sealed with key ${id}, which is not configured`);
+  const decipher = crypto.createDecipheriv('aes-256-gcm', match.key, Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf8');
+}
+
+// Notification channels - typed channels with their own config, sent from this server
+const DEFAULT_TEMPLATE = {
+  title: '{{subject}}',
+  body: '{{message}}\nServer: {{server}}\nSeverity: {{severity}}\nTime: {{time}}'
+};
+
+// Severities of the Events API, from the rule engine's info/warning/error
+const INCIDENT_SEVERITIES = { info: 'info', warning: 'warning', error: 'critical' };
+const STATUS_COLORS = { triggered: 'D93F0B', resolved: '2EB67D', test: '0076D7' };
+
+const NOTIFICATION_TYPES = {
+  email: {
+    label: 'Email',
+    required: ['smtp_host', 'to'],
+    secrets: ['smtp_pass'],
+    target: config => config.to,
+    send: async (config, message) => {
+      const transporter = nodemailer.createTransport({
+        host: config.smtp_host,
+        port: parseInt(config.smtp_port) || 587,
+        secure: parseInt(config.smtp_port) === 465,
+        auth: config.smtp_user ? { user: config.smtp_user, pass: config.smtp_pass } : undefined,
+        connectionTimeout: 10000
+      });
+      await transporter.sendMail({
+        from: config.smtp_from || config.smtp_user,
+        to: config.to,
+        subject: `[Server Alert] ${message.title}`,
+        text: message.body,
+        html: `<pre>${escapeHtml(message.body)}</pre>`
+      });
+    }
+  },
+  slack: {
+    label: 'Slack',
+    required: ['webhook_url'],
+    secrets: ['webhook_url'],
+    target: config => urlHost(config.webhook_url),
+    send: (config, message) =>
+      postJson(config.webhook_url, { text: `🚨 *${message.title}*\n\`\`\`${message.body}\`\`\`` })
+  },
+  discord: {
+    label: 'Discord',
+    required: ['webhook_url'],
+    secrets: ['webhook_url'],
+    target: config => urlHost(config.webhook_url),
+    send: (config, message) =>
+      postJson(config.webhook_url, { content: `🚨 **${message.title}**\n\`\`\`${message.body}\`\`\`` })
+  },
+  teams: {
+    label: 'Microsoft Teams',
+    required: ['webhook_url'],
+    secrets: ['webhook_url'],
+    target: config => urlHost(config.webhook_url),
+    send: (config, message, event) => postJson(config.webhook_url, {
+      '@type': 'MessageCard',
+      '@context': 'https://schema.org/extensions',
+      themeColor: STATUS_COLORS[event.status],
+      summary: message.title,
+      // Teams renders HTML in the card title and text
+      title: escapeHtml(message.title),
+      text: escapeHtml(message.body).replace(/\n/g, '<br>')
+    })
+  },
+  // Generic JSON webhook. With a secret, the body is signed so the receiver can verify it:
+  // X-Signature = sha256=HMAC-SHA256(secret, `${X-Timestamp}.${body}`) in hex
+  webhook: {
+    label: 'Webhook',
+    required: ['url'],
+    secrets: ['secret'],
+    target: config => urlHost(config.url),
+    send: (config, message, event) => {
+      const body = JSON.stringify({ ...event, title: message.title, body: message.body });
+      const headers = {};
+      if (config.secret) {
+        const timestamp = Math.floor(Date.now() / 1000).toString();
+        const signature = crypto.createHmac('sha256', config.secret).update(`${timestamp}.${body}`).digest('hex');
+        headers['X-Timestamp'] = timestamp;
+        headers['X-Signature'] = `sha256=${signature}`;
+      }
+      return postJson(config.url, body, headers);
+    }
+  },
+  ntfy: {
+    label: 'ntfy',
+    required: ['topic'],
+    secrets: ['token'],
+    target: config => `${urlHost(config.server_url || 'https://ntfy.sh')}/${config.topic}`,
+    send: (config, message, event) => httpPost(
+      `${(config.server_url || 'https://ntfy.sh').replace(/\/+$/, '')}/${encodeURIComponent(config.topic)}`,
+      message.body,
+      {
+        'Content-Type': 'text/plain; charset=utf-8',
+        // HTTP headers are Latin-1; ntfy decodes RFC 2047 encoded words
+        Title: `=?UTF-8?B?${Buffer.from(message.title).toString('base64')}?=`,
+        Priority: config.priority || (event.severity === 'error' ? 'high' : 'default'),
+        Tags: event.status === 'resolved' ? 'white_check_mark' : 'rotating_light',
+        ...(config.token ? { Authorization: `Bearer ${config.token}` } : {})
+      }
+    )
+  },
+  gotify: {
+    label: 'Gotify',
+    required: ['server_url', 'app_token'],
+    secrets: ['app_token'],
+    target: config => urlHost(config.server_url),
+    send: (config, message, event) => postJson(`${config.server_url.replace(/\/+$/, '')}/message`, {
+      title: message.title,
+      message: message.body,
+      priority: parseInt(config.priority) || (event.severity === 'error' ? 8 : 5)
+    }, { 'X-Gotify-Key': config.app_token })
+  },
+  // Incident services with an Events API v2 style endpoint (PagerDuty and compatible). The alert
+  // id is the dedup key, so a resolved alert closes the incident its trigger opened.
+  incident: {
+    label: 'Incident (Events API)',
+    required: ['routing_key'],
+    secrets: ['routing_key'],
+    target: config => urlHost(config.events_url || 'https://events.pagerduty.com/v2/enqueue'),
+    send: (config, message, event) => postJson(config.events_url || 'https://events.pagerduty.com/v2/enqueue', {
+      routing_key: config.routing_key,
+      event_action: event.status === 'resolved' ? 'resolve' : 'trigger',
+      dedup_key: event.alert_id,
+      payload: {
+        summary: message.title,
+        source: event.server,
+        severity: INCIDENT_SEVERITIES[event.severity] || 'warning',
+        timestamp: event.time,
+        custom_details: { message: message.body }
+      }
+    })
+  }
+};
+
+// Alert text comes from the agents (server names, messages), so it is never trusted as markup
+function escapeHtml(text) {
+  return String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Hosts only: webhook URLs carry their secret in the path
+function urlHost(url) {
+  try {
+    return new URL(url).host;
+  } catch {
+    return 'invalid URL';
+  }
+}
+
+async function httpPost(url, body, headers) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers,
+    body,
+    signal: AbortSignal.timeout(10000)
+  });
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new Error(`HTTP ${response.status}${text ? `: ${text.slice(0, 200)}` : ''}`);
+  }
+}
+
+function postJson(url, body, headers = {}) {
+  return httpPost(url, typeof body === 'string' ? body : JSON.stringify(body),
+    { 'Content-Type': 'application/json', ...headers });
+}
+
+// Replaces {{name}} with the event field of that name; unknown names render empty
+function renderTemplate(text, event) {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name) => (event[name] === undefined ? '' : String(event[name])));
+}
+
+function renderMessage(channel, event) {
+  const template = channel.template || {};
+  return {
+    title: renderTemplate(template.title || DEFAULT_TEMPLATE.title, event),
+    body: renderTemplate(template.body || DEFAULT_TEMPLATE.body, event)
+  };
+}
+
+// Secret fields of a channel type, sealed in the database and never returned by the API
+function secretFields(type) {
+  return (NOTIFICATION_TYPES[type] && NOTIFICATION_TYPES[type].secrets) || [];
+}
+
+// A secret that cannot be opened (its key is gone) reads as unset and is listed in `unreadable`, so the
+// channel shows it and asks for it again instead of failing every delivery
+function openChannelConfig(type, config) {
+  const opened = { ...config };
+  const unreadable = [];
+  secretFields(type).forEach(field => {
+    try {
+      opened[field] = openSecret(config[field]);
+    } catch (error) {
+      console.error(`Cannot read ${field} of a ${type} channel: ${error.message}`);
+      delete opened[field];
+      unreadable.push(field);
+    }
+  });
+  return { config: opened, unreadable };
+}
+
+function sealChannelConfig(type, config) {
+  const sealed = { ...config };
+  secretFields(type).forEach(field => {
+    sealed[field] = sealSecret(config[field]);
+  });
+  return sealed;
+}
+
+// What the API returns: secret values are replaced by the list of secret fields that are set, and
+// `secrets_unreadable` lists stored secrets that cannot be decrypted with the configured key
+function publicChannel(channel) {
+  const config = { ...channel.config };
+  const secrets = secretFields(channel.type).filter(field => config[field]);
+  const unreadable = (channel.secrets_unreadable || []).filter(field => !config[field]);
+  secretFields(channel.type).forEach(field => delete config[field]);
+  return { ...channel, config, secrets, secrets_unreadable: unreadable };
+}
+
+// Channel as written to the audit log: secrets only show whether they are set and whether they changed
+function auditChannel(channel, previous) {
+  const config = { ...channel.config };
+  secretFields(channel.type).forEach(field => {
+    if (!config[field]) delete config[field];
+    else config[field] = previous && previous.config[field] !== config[field] ? AUDIT_NEW_SECRET : AUDIT_SECRET;
+  });
+  return { ...channel, config };
+}
+
+function rowToChannel(row) {
+  const { config, unreadable } = openChannelConfig(row[2], JSON.parse(row[3]));
+  return {
+    id: row[0],
+    name: row[1],
+    type: row[2],
+    config,
+    secrets_unreadable: unreadable,
+    template: row[4] ? JSON.parse(row[4]) : null,
+    enabled: !!row[5],
+    created_at: row[6],
+    updated_at: row[7]
+  };
+}
+
+function findNotificationChannel(id) {
+  const result = db.exec('SELECT * FROM notification_channels WHERE id = ?', [id]);
+  const rows = result[0] ? result[0].values : [];
+  return rows.length > 0 ? rowToChannel(rows[0]) : null;
+}
+
+function getNotificationChannels() {
+  const result = db.exec('SELECT * FROM notification_channels ORDER BY created_at ASC');
+  return (result[0] ? result[0].values : []).map(rowToChannel);
+}
+
+function validateChannel(channel) {
+  if (!channel.name) return 'Missing name';
+  const type = NOTIFICATION_TYPES[channel.type];
+  if (!type) return 'Unknown channel type';
+  if (!channel.config || typeof channel.config !== 'object') return 'Missing config';
+  const missing = type.required.find(field => !channel.config[field]);
+  if (missing && (channel.secrets_unreadable || []).includes(missing)) {
+    return `The stored ${missing} cannot be decrypted with SETTINGS_SECRET_KEY; enter it again`;
+  }
+  if (missing) return `Missing ${missing}`;
+  return null;
+}
+
+function saveNotificationChannel(channel) {
+  db.run(`INSERT OR REPLACE INTO notification_channels
+    (id, name, type, config, template, enabled, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [channel.id, channel.name, channel.type, JSON.stringify(sealChannelConfig(channel.type, channel.config)),
+      channel.template ? JSON.stringify(channel.template) : null, channel.enabled ? 1 : 0,
+      channel.created_at, channel.updated_at]);
+  saveDatabase();
+}
+
+// Turns the fixed SMTP/Slack/Discord settings of earlier versions into channels, once
+function migrateNotificationSettings() {
+  const row = latestRow('notifications');
+  if (!row) return;
+  const existing = db.exec('SELECT COUNT(*) FROM notification_channels');
+  if (existing[0].values[0][0] === 0) migrateLegacyRow(row);
+  
+  // The old table kept passwords and webhook URLs in plaintext
+  db.run('DELETE FROM notifications');
+  db.run('VACUUM');
+}
+
+function migrateLegacyRow(row) {
+  const now = new Date().toISOString();
+  const legacy = [
+    row[1] && row[6] && { type: 'email', name: 'Email', config: {
+      smtp_host: row[1], smtp_port: row[2], smtp_user: row[3], smtp_pass: row[4], smtp_from: row[5], to: row[6]
+    } },
+    row[7] && { type: 'slack', name: 'Slack', config: { webhook_url: row[7] } },
+    row[8] && { type: 'discord', name: 'Discord', config: { webhook_url: row[8] } }
+  ].filter(Boolean);
+  legacy.forEach(channel => saveNotificationChannel({
+    ...channel, id: `channel-${channel.type}`, template: null, enabled: true, created_at: now, updated_at: now
+  }));
+  if (legacy.length > 0) console.log(`✓ Migrated ${legacy.length} notification settings to channels`);
+}
+
+// Whether secrets are encrypted at rest, and how many stored secrets are plaintext or cannot be opened
+function secretsStatus() {
+  const result = db.exec('SELECT type, config FROM notification_channels');
+  const status = { encrypted: SECRET_KEYS.length > 0, plaintext: 0, unreadable: 0 };
+  (result[0] ? result[0].values : []).forEach(([type, config]) => {
+    const stored = JSON.parse(config);
+    status.plaintext += secretFields(type).filter(field => stored[field] && !isSealed(stored[field])).length;
+    status.unreadable += openChannelConfig(type, stored).unreadable.length;
+  });
+  return status;
+}
+
+// Seals secrets stored before a key was configured. Without a key they stay plaintext, which
+// GET /api/settings/secrets-status reports to Settings.
+function sealStoredSecrets() {
+  if (SECRET_KEYS.length === 0) {
+    console.warn('⚠ SETTINGS_SECRET_KEY is not set; notification secrets are stored unencrypted');
+    return;
+  }
+  const result = db.exec('SELECT id, type, config FROM notification_channels');
+  (result[0] ? result[0].values : []).forEach(([id, type, config]) => {
+    const stored = JSON.parse(config);
+    if (secretFields(type).every(field => !stored[field] || isSealed(stored[field]))) return;
+    db.run('UPDATE notification_channels SET config = ? WHERE id = ?',
+      [JSON.stringify(sealChannelConfig(type, stored)), id]);
+  });
+}
+
+// node server.js --rotate-secrets, with the new key in SETTINGS_SECRET_KEY and the old one in
+// SETTINGS_SECRET_KEY_PREVIOUS. Reseals every secret with the new key; nothing is written if any
+// secret cannot be opened with either key.
+function rotateSecrets() {
+  if (!SETTINGS_SECRET_KEY) throw new Error('Set SETTINGS_SECRET_KEY to the new key');
+  const result = db.exec('SELECT id, type, config FROM notification_channels');
+  const rows = result[0] ? result[0].values : [];
+  
+  const rotated = rows.map(([id, type, config]) => {
+    const stored = JSON.parse(config);
+    const opened = { ...stored };
+    secretFields(type).forEach(field => {
+      try {
+        opened[field] = openSecret(stored[field]);
+      } catch (error) {
+        throw new Error(`Channel ${id}, ${field}: ${error.message}. Set SETTINGS_SECRET_KEY_PREVIOUS to the old key.`);
+      }
+    });
+    return [JSON.stringify(sealChannelConfig(type, opened)), id];
+  });
+  
+  rotated.forEach(params => db.run('UPDATE notification_channels SET config = ? WHERE id = ?', params));
+  saveDatabase();
+  return rotated.length;
+}
+
+function rowToDelivery(row) {
+  return {
+    id: row[0],
+    timestamp: row[1],
+    channel: row[2],
+    target: row[3],
+    status: row[4],
+    error: row[5],
+    subject: row[6],
+    is_test: row[7] === 1,
+    channel_id: row[8],
+    channel_name: row[9]
+  };
+}
+
+// `event` carries status (triggered, resolved or test), alert_id, subject, message, severity,
+// server and time; these are also the fields templates can use
+async function deliverNotification(channel, event) {
+  const type = NOTIFICATION_TYPES[channel.type];
+  const message = renderMessage(channel, event);
+  const delivery = {
+    id: `delivery-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    timestamp: new Date().toISOString(),
+    channel: channel.type,
+    target: type.target(channel.config) || '',
+    status: 'sent',
+    error: null,
+    subject: message.title,
+    is_test: event.status === 'test',
+    channel_id: channel.id,
+    channel_name: channel.name
+  };
+  try {
+    const unreadable = (channel.secrets_unreadable || []).filter(field => !channel.config[field]);
+    if (unreadable.length > 0) {
+      throw new Error(`Cannot decrypt ${unreadable.join(', ')}; check SETTINGS_SECRET_KEY or enter it again`);
+    }
+    await type.send(channel.config, message, event);
+  } catch (error) {
+    delivery.status = 'failed';
+    delivery.error = error.message;
+    console.error(`Failed to send ${type.label} notification to ${channel.name}: ${error.message}`);
+  }
+  db.run(`INSERT INTO notification_deliveries
+    (id, timestamp, channel, target, status, error, subject, is_test, channel_id, channel_name)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [delivery.id, delivery.timestamp, delivery.channel, delivery.target, delivery.status, delivery.error,
+      delivery.subject, delivery.is_test ? 1 : 0, channel.id, channel.name]);
+  saveDatabase();
+  return delivery;
+}
+
+// Sends through every enabled channel; failures are logged, never thrown
+async function notifyAll(event) {
+  const channels = getNotificationChannels().filter(channel => channel.enabled);
+  return Promise.all(channels.map(channel => deliverNotification(channel, event)));
+}
+
+app.get('/api/settings/notification-channels', (req, res) => {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  
+  try {
+    res.json(getNotificationChannels().map(publicChannel));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to retrieve notification channels' });
+  }
+});
+
+app.post('/api/settings/notification-channels', requireRole('admin'), (req, res) => {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  
+  const now = new Date().toISOString();
+  const channel = {
+    id: req.body.id || `channel-${Date.now()}`,
+    name: req.body.name,
+    type: req.body.type,
+    config: req.body.config,
+    template: req.body.template || null,
+    enabled: req.body.enabled !== false,
+    created_at: now,
+    updated_at: now
+  };
+  const invalid = validateChannel(channel);
+  if (invalid) return res.status(400).json({ error: invalid });
+  
+  try {
+    recordAudit(req, { action: 'create', entity_type: 'notification_channel', entity_id: channel.id,
+      entity_name: channel.name, after: auditChannel(channel) });
+    saveNotificationChannel(channel);
+    res.json(publicChannel(channel));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to add notification channel' });
+  }
+});
+
+app.put('/api/settings/notification-channels/:id', requireRole('admin'), (req, res) => {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  
+  try {
+    const existing = findNotificationChannel(req.params.id);
+    if (!existing) return res.status(404).json({ error: 'Notification channel not found' });
+    
+    // Secret fields are write-only: left out of the request, they keep their stored value
+    const channel = { ...existing, ...req.body, id: existing.id, type: existing.type,
+      config: { ...existing.config, ...req.body.config }, secrets_unreadable: existing.secrets_unreadable,
+      created_at: existing.created_at, updated_at: new Date().toISOString() };
+    const invalid = validateChannel(channel);
+    if (invalid) return res.status(400).json({ error: invalid });
+    
+    recordAudit(req, { action: 'update', entity_type: 'notification_channel', entity_id: channel.id,
+      entity_name: channel.name, before: auditChannel(existing), after: auditChannel(channel, existing) });
+    saveNotificationChannel(channel);
+    res.json(publicChannel(channel));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to update notification channel' });
+  }
+});
+
+app.delete('/api/settings/notification-channels/:id', requireRole('admin'), (req, res) => {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  
+  try {
+    const existing = findNotificationChannel(req.params.id);
+    db.run('DELETE FROM notification_channels WHERE id = ?', [req.params.id]);
+    if (existing) {
+      recordAudit(req, { action: 'delete', entity_type: 'notification_channel', entity_id: existing.id,
+        entity_name: existing.name, before: auditChannel(existing) });
+    }
+    saveDatabase();
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to delete notification channel' });
+  }
+});
+
+// Sends a test through one channel, enabled or not, and reports the channel's error on failure
+app.post('/api/settings/notification-channels/:id/test', requireRole('admin'), async (req, res) => {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  
+  try {
+    const channel = findNotificationChannel(req.params.id);
+    if (!channel) return res.status(404).json({ error: 'Notification channel not found' });
+    
+    const delivery = await deliverNotification(channel, {
+      status: 'test',
+      alert_id: `test-${Date.now()}`,
+      subject: 'Test notification',
+      message: `This is a test notification from the Server Monitor Dashboard to ${channel.name}.`,
+      severity: 'info',
+      server: 'dashboard',
+      time: new Date().toISOString()
+    });
+    if (delivery.status === 'failed') return res.status(502).json({ error: delivery.error, delivery });
+    res.json(delivery);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to send test notification' });
+  }
+});
+
+app.get('/api/settings/secrets-status', requireRole('admin'), (req, res) => {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  
+  try {
+    res.json(secretsStatus());
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to retrieve secrets status' });
+  }
+});
+
+app.get('/api/settings/notification-deliveries', (req, res) => {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  
+  const limit = Math.min(parseInt(req.query.limit) || 100, 1000);
+  const filters = [];
+  const params = [];
+  if (req.query.channel) {
+    filters.push('channel = ?');
+    params.push(req.query.channel);
+  }
+  if (req.query.status) {
+    filters.push('status = ?');
+    params.push(req.query.status);
+  }
+  
+  try {
+    const where = filters.length ? `WHERE ${filters.join(' AND ')}` : '';
+    const result = db.exec(
+      `SELECT * FROM notification_deliveries ${where} ORDER BY timestamp DESC LIMIT ?`, [...params, limit]);
+    res.json((result[0] ? result[0].values : []).map(rowToDelivery));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to retrieve notification deliveries' });
+  }
+});
+
+const ALERT_STATUSES = ['open', 'acknowledged', 'resolved'];
+
+function rowToAlertState(row) {
+  return {
+    alert_id: row[0],
+    status: row[1],
+    acknowledged_by: row[2],
+    acknowledged_at: row[3],
+    resolved_by: row[4],
+    resolved_at: row[5],
+    comment: row[6],
+    updated_at: row[7],
+    assigned_to: row[8],
+    assigned_at: row[9]
+  };
+}
+
+function saveAlertState(state) {
+  db.run(`INSERT OR REPLACE INTO alert_states
+    (alert_id, status, acknowledged_by, acknowledged_at, resolved_by, resolved_at, comment, updated_at,
+      assigned_to, assigned_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [state.alert_id, state.status, state.acknowledged_by || null, state.acknowledged_at || null,
+      state.resolved_by || null, state.resolved_at || null, state.comment || null, state.updated_at,
+      state.assigned_to || null, state.assigned_at || null]);
+}
+
+function findAlertState(alertId) {
+  const result = db.exec('SELECT * FROM alert_states WHERE alert_id = ?', [alertId]);
+  const rows = result[0] ? result[0].values : [];
+  return rows.length > 0 ? rowToAlertState(rows[0]) : null;
+}
+
+app.get('/api/settings/alert-states', (req, res) => {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  
+  try {
+    const result = db.exec('SELECT * FROM alert_states');
+    const rows = result[0] ? result[0].values : [];
+    res.json(rows.map(rowToAlertState));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to retrieve alert states' });
+  }
+});
+
+// Users an alert can be assigned to: everyone allowed to act on alerts
+app.get('/api/settings/alert-assignees', (req, res) => {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  
+  try {
+    res.json(getUsers().filter(user => user.role !== 'viewer').map(user => user.username));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to retrieve assignees' });
+  }
+});
+
+// Moves an alert to a new status and/or assigns it. Acknowledging and resolving record who did it
+// and when; reopening clears both. Resolving an alert nobody acknowledged counts as acknowledging it
+// too. `assigned_to` is a username, or null to unassign; the assignment survives status changes.
+app.put('/api/settings/alert-states/:alertId', requireRole('operator'), (req, res) => {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  
+  const { status, assigned_to: assignee } = req.body;
+  const user = req.user.username;
+  if (status === undefined && assignee === undefined) {
+    return res.status(400).json({ error: 'Missing status or assignee' });
+  }
+  if (status !== undefined && !ALERT_STATUSES.includes(status)) return res.status(400).json({ error: 'Invalid status' });
+  if (assignee) {
+    const row = findUserRow('username', assignee);
+    if (!row || rowToUser(row).role === 'viewer') return res.status(400).json({ error: 'Unknown assignee' });
+  }
+  
+  try {
+    const now = new Date().toISOString();
+    const existing = findAlertState(req.params.alertId) || { alert_id: req.params.alertId, status: 'open' };
+    const state = { ...existing, updated_at: now };
+    if (status !== undefined || req.body.comment !== undefined) state.comment = req.body.comment || null;
+    
+    if (status === 'open') {
+      Object.assign(state, { status, acknowledged_by: null, acknowledged_at: null, resolved_by: null,
+        resolved_at: null });
+    } else if (status === 'acknowledged') {
+      Object.assign(state, { status, acknowledged_by: user, acknowledged_at: now, resolved_by: null,
+        resolved_at: null });
+    } else if (status === 'resolved') {
+      Object.assign(state, { status, resolved_by: user, resolved_at: now });
+      if (!state.acknowledged_by) Object.assign(state, { acknowledged_by: user, acknowledged_at: now });
+    }
+    if (assignee !== undefined) {
+      Object.assign(state, { assigned_to: assignee || null, assigned_at: assignee ? now : null });
+    }
+    
+    saveAlertState(state);
+    recordAudit(req, { action: 'update', entity_type: 'alert_state', entity_id: state.alert_id,
+      entity_name: state.alert_id,
+      before: { status: existing.status, comment: existing.comment || null, assigned_to: existing.assigned_to || null },
+      after: { status: state.status, comment: state.comment || null, assigned_to: state.assigned_to || null } });
+    saveDatabase();
+    res.json(state);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to update alert state' });
+  }
+});
+
+function rowToDashboard(row) {
+  return {
+    id: row[0],
+    name: row[1],
+    widgets: JSON.parse(row[2]),
+    layouts: JSON.parse(row[3]),
+    created_at: row[4],
+    updated_at: row[5]
+  };
+}
+
+function findDashboard(id) {
+  const result = db.exec('SELECT * FROM dashboards WHERE id = ?', [id]);
+  const rows = result[0] ? result[0].values : [];
+  return rows.length > 0 ? rowToDashboard(rows[0]) : null;
+}
+
+app.get('/api/settings/dashboards', (req, res) => {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  
+  try {
+    const result = db.exec('SELECT * FROM dashboards ORDER BY created_at ASC');
+    const rows = result[0] ? result[0].values : [];
+    res.json(rows.map(rowToDashboard));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to retrieve dashboards' });
+  }
+});
+
+app.get('/api/settings/dashboards/:id', (req, res) => {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  
+  try {
+    const dashboard = findDashboard(req.params.id);
+    if (!dashboard) return res.status(404).json({ error: 'Dashboard not found' });
+    res.json(dashboard);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to retrieve dashboard' });
+  }
+});
+
+app.post('/api/settings/dashboards', requireRole('operator'), (req, res) => {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  
+  const { id, name, widgets = [], layouts = {} } = req.body;
+  if (!id || !name) return res.status(400).json({ error: 'Missing required fields' });
+  
+  try {
+    const created_at = new Date().toISOString();
+    db.run('INSERT INTO dashboards (id, name, widgets, layouts, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)',
+      [id, name, JSON.stringify(widgets), JSON.stringify(layouts), created_at, created_at]);
+    recordAudit(req, { action: 'create', entity_type: 'dashboard', entity_id: id, entity_name: name,
+      after: { name, widgets, layouts } });
+    saveDatabase();
+    res.json({ id, name, widgets, layouts, created_at, updated_at: created_at });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to add dashboard' });
+  }
+});
+
+app.put('/api/settings/dashboards/:id', requireRole('operator'), (req, res) => {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  
+  try {
+    const existing = findDashboard(req.params.id);
+    if (!existing) return res.status(404).json({ error: 'Dashboard not found' });
+    
+    const { name = existing.name, widgets = existing.widgets, layouts = existing.layouts } = req.body;
+    const updated_at = new Date().toISOString();
+    db.run('UPDATE dashboards SET name = ?, widgets = ?, layouts = ?, updated_at = ? WHERE id = ?',
+      [name, JSON.stringify(widgets), JSON.stringify(layouts), updated_at, req.params.id]);
+    recordAudit(req, { action: 'update', entity_type: 'dashboard', entity_id: existing.id, entity_name: name,
+      before: existing, after: { ...existing, name, widgets, layouts } });
+    saveDatabase();
+    res.json({ ...existing, name, widgets, layouts, updated_at });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to update dashboard' });
+  }
+});
+
+app.delete('/api/settings/dashboards/:id', requireRole('operator'), (req, res) => {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  
+  try {
+    const existing = findDashboard(req.params.id);
+    db.run('DELETE FROM dashboards WHERE id = ?', [req.params.id]);
+    if (existing) {
+      recordAudit(req, { action: 'delete', entity_type: 'dashboard', entity_id: existing.id,
+        entity_name: existing.name, before: existing });
+    }
+    saveDatabase();
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to delete dashboard' });
+  }
+});
+
+// Carbon intensity - used by the dashboard to turn measured kWh into CO2e
+const CARBON_DEFAULT_SITE = 'default';
+
+function rowToCarbonIntensity(row) {
+  return {
+    site: row[0],
+    g_per_kwh: row[1],
+    profile: row[2] ? JSON.parse(row[2]) : null,
+    timezone: row[3] || null,
+    updated_at: row[4]
+  };
+}
+
+function findCarbonIntensity(site) {
+  const result = db.exec('SELECT * FROM carbon_intensity WHERE site = ?', [site]);
+  const rows = result[0] ? result[0].values : [];
+  return rows.length > 0 ? rowToCarbonIntensity(rows[0]) : null;
+}
+
+function validateCarbonIntensity(intensity) {
+  if (!intensity.site) return 'Missing site';
+  if (typeof intensity.g_per_kwh !== 'number' || !(intensity.g_per_kwh >= 0)) {
+    return 'Intensity must be zero or more gCO2e/kWh';
+  }
+  if (intensity.profile !== null) {
+    if (!Array.isArray(intensity.profile) || intensity.profile.length !== 24 ||
+      !intensity.profile.every(value => typeof value === 'number' && value >= 0)) {
+      return 'A profile needs 24 hourly values of zero or more gCO2e/kWh';
+    }
+  }
+  if (intensity.timezone) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: intensity.timezone });
+    } catch {
+      return `Unknown timezone ${intensity.timezone}`;
+    }
+  }
+  return null;
+}
+
+app.get('/api/settings/carbon-intensity', (req, res) => {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  
+  try {
+    const result = db.exec(`SELECT * FROM carbon_intensity ORDER BY site = '${CARBON_DEFAULT_SITE}' DESC, site ASC`);
+    res.json((result[0] ? result[0].values : []).map(rowToCarbonIntensity));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to retrieve carbon intensity' });
+  }
+});
+
+// Creates or replaces the intensity for one site
+app.put('/api/settings/carbon-intensity/:site', requireRole('admin'), (req, res) => {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  
+  const intensity = {
+    site: req.params.site.trim(),
+    g_per_kwh: req.body.g_per_kwh,
+    profile: req.body.profile || null,
+    timezone: req.body.timezone || null,
+    updated_at: new Date().toISOString()
+  };
+  const invalid = validateCarbonIntensity(intensity);
+  if (invalid) return res.status(400).json({ error: invalid });
+  
+  try {
+    const existing = findCarbonIntensity(intensity.site);
+    db.run(`INSERT OR REPLACE INTO carbon_intensity (site, g_per_kwh, profile, timezone, updated_at)
+      VALUES (?, ?, ?, ?, ?)`,
+      [intensity.site, intensity.g_per_kwh, intensity.profile ? JSON.stringify(intensity.profile) : null,
+        intensity.timezone, intensity.updated_at]);
+    recordAudit(req, { action: existing ? 'update' : 'create', entity_type: 'carbon_intensity',
+      entity_id: intensity.site, entity_name: intensity.site, before: existing, after: intensity });
+    saveDatabase();
+    res.json(intensity);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to save carbon intensity' });
+  }
+});
+
+app.delete('/api/settings/carbon-intensity/:site', requireRole('admin'), (req, res) => {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  if (req.params.site === CARBON_DEFAULT_SITE) {
+    return res.status(400).json({ error: 'The default intensity cannot be removed' });
+  }
+  
+  try {
+    const existing = findCarbonIntensity(req.params.site);
+    db.run('DELETE FROM carbon_intensity WHERE site = ?', [req.params.site]);
+    if (existing) {
+      recordAudit(req, { action: 'delete', entity_type: 'carbon_intensity', entity_id: existing.site,
+        entity_name: existing.site, before: existing });
+    }
+    saveDatabase();
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to delete carbon intensity' });
+  }
+});
+
+// Site facilities - PUE and an optional facility power meter, so the dashboard can add cooling and
+// distribution losses to the IT power the agents report
+const METER_TIMEOUT_MS = 5000;
+
+function rowToFacility(row) {
+  return {
+    site: row[0],
+    pue: row[1],
+    meter_url: row[2] || null,
+    meter_field: row[3] || null,
+    updated_at: row[4]
+  };
+}
+
+function findFacility(site) {
+  const result = db.exec('SELECT * FROM site_facilities WHERE site = ?', [site]);
+  const rows = result[0] ? result[0].values : [];
+  return rows.length > 0 ? rowToFacility(rows[0]) : null;
+}
+
+function validateFacility(facility) {
+  if (!facility.site) return 'Missing site';
+  if (typeof facility.pue !== 'number' || !(facility.pue >= 1)) return 'PUE must be 1 or more';
+  if (facility.meter_url) {
+    try {
+      if (!['http:', 'https:'].includes(new URL(facility.meter_url).protocol)) return 'Meter URL must use http or https';
+    } catch {
+      return 'Invalid meter URL';
+    }
+  }
+  return null;
+}
+
+// The meter answers with JSON, where meter_field is a dotted path to the watts (e.g. "data.power"),
+// or with a bare number when no field is set
+async function readFacilityMeter(facility) {
+  const response = await fetch(facility.meter_url, { signal: AbortSignal.timeout(METER_TIMEOUT_MS) });
+  if (!response.ok) throw new Error(`Meter answered HTTP ${response.status}`);
+  const text = await response.text();
+  let value;
+  if (facility.meter_field) {
+    let data;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error('Meter did not answer with JSON');
+    }
+    value = facility.meter_field.split('.').reduce((node, key) => (node == null ? undefined : node[key]), data);
+  } else {
+    value = text.trim();
+  }
+  const watts = Number(value);
+  if (value === undefined || value === '' || !Number.isFinite(watts)) {
+    throw new Error(facility.meter_field ? `No number at ${facility.meter_field}` : 'Meter did not answer with a number');
+  }
+  return watts;
+}
+
+app.get('/api/settings/facilities', (req, res) => {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  
+  try {
+    const result = db.exec('SELECT * FROM site_facilities ORDER BY site ASC');
+    res.json((result[0] ? result[0].values : []).map(rowToFacility));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to retrieve facilities' });
+  }
+});
+
+// Creates or replaces the facility settings for one site
+app.put('/api/settings/facilities/:site', requireRole('admin'), (req, res) => {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  
+  const facility = {
+    site: req.params.site.trim(),
+    pue: req.body.pue,
+    meter_url: req.body.meter_url || null,
+    meter_field: req.body.meter_url && req.body.meter_field ? req.body.meter_field.trim() : null,
+    updated_at: new Date().toISOString()
+  };
+  const invalid = validateFacility(facility);
+  if (invalid) return res.status(400).json({ error: invalid });
+  
+  try {
+    const existing = findFacility(facility.site);
+    db.run(`INSERT OR REPLACE INTO site_facilities (site, pue, meter_url, meter_field, updated_at)
+      VALUES (?, ?, ?, ?, ?)`,
+      [facility.site, facility.pue, facility.meter_url, facility.meter_field, facility.updated_at]);
+    recordAudit(req, { action: existing ? 'update' : 'create', entity_type: 'facility', entity_id: facility.site,
+      entity_name: facility.site, before: existing, after: facility });
+    saveDatabase();
+    res.json(facility);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to save facility' });
+  }
+});
+
+app.delete('/api/settings/facilities/:site', requireRole('admin'), (req, res) => {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  
+  try {
+    const existing = findFacility(req.params.site);
+    db.run('DELETE FROM site_facilities WHERE site = ?', [req.params.site]);
+    if (existing) {
+      recordAudit(req, { action: 'delete', entity_type: 'facility', entity_id: existing.site,
+        entity_name: existing.site, before: existing });
+    }
+    saveDatabase();
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to delete facility' });
+  }
+});
+
+// GET /api/settings/facilities/:site/meter - Current facility power; read here because meters rarely allow CORS
+app.get('/api/settings/facilities/:site/meter', async (req, res) => {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  
+  const facility = findFacility(req.params.site);
+  if (!facility) return res.status(404).json({ error: 'Facility not found' });
+  if (!facility.meter_url) return res.status(404).json({ error: 'No meter configured for this site' });
+  
+  try {
+    const watts = await readFacilityMeter(facility);
+    res.json({ site: facility.site, watts, read_at: new Date().toISOString() });
+  } catch (error) {
+    let message = error.message;
+    if (error.name === 'TimeoutError') message = 'Meter did not answer in time';
+    else if (error instanceof TypeError) message = 'Could not reach the meter';
+    res.status(502).json({ error: message });
+  }
+});
+
+// Tariffs - the dashboard prices each server's measured kWh with the tariff for its tag, site or the default
+const TARIFF_TYPES = ['flat', 'day_night', 'tiered'];
+const TARIFF_SCOPES = ['default', 'site', 'tag'];
+
+function rowToTariff(row) {
+  return {
+    id: row[0],
+    name: row[1],
+    currency: row[2],
+    type: row[3],
+    rates: JSON.parse(row[4]),
+    timezone: row[5] || null,
+    scope_type: row[6],
+    scope_value: row[7],
+    created_at: row[8],
+    updated_at: row[9]
+  };
+}
+
+function findTariff(id) {
+  const result = db.exec('SELECT * FROM tariffs WHERE id = ?', [id]);
+  const rows = result[0] ? result[0].values : [];
+  return rows.length > 0 ? rowToTariff(rows[0]) : null;
+}
+
+const isPrice = value => typeof value === 'number' && value >= 0;
+const isHour = value => Number.isInteger(value) && value >= 0 && value <= 23;
+
+function validateTariffRates(type, rates) {
+  if (!rates || typeof rates !== 'object') return 'Missing rates';
+  if (type === 'flat') {
+    return isPrice(rates.rate) ? null : 'Rate must be zero or more';
+  }
+  if (type === 'day_night') {
+    if (!isPrice(rates.day_rate) || !isPrice(rates.night_rate)) return 'Day and night rates must be zero or more';
+    if (!isHour(rates.night_start) || !isHour(rates.night_end)) return 'Night hours must be between 0 and 23';
+    if (rates.night_start === rates.night_end) return 'Night must start and end at different hours';
+    return null;
+  }
+  // Tiers apply to each server's kWh in the calendar month; only the last tier has no upper limit
+  if (!Array.isArray(rates.tiers) || rates.tiers.length === 0) return 'Add at least one tier';
+  for (const [index, tier] of rates.tiers.entries()) {
+    const last = index === rates.tiers.length - 1;
+    if (!isPrice(tier.rate)) return `Tier ${index + 1}: rate must be zero or more`;
+    if (last ? tier.up_to_kwh !== null : !(tier.up_to_kwh > 0)) {
+      return last ? 'The last tier must have no upper limit' : `Tier ${index + 1}: upper limit must be above 0 kWh`;
+    }
+    if (index > 0 && !last && tier.up_to_kwh <= rates.tiers[index - 1].up_to_kwh) {
+      return `Tier ${index + 1}: limits must increase`;
+    }
+  }
+  return null;
+}
+
+function validateTariff(tariff) {
+  if (!tariff.name) return 'Missing name';
+  if (!tariff.currency) return 'Missing currency';
+  if (!TARIFF_TYPES.includes(tariff.type)) return 'Unknown tariff type';
+  if (!TARIFF_SCOPES.includes(tariff.scope_type)) return 'Unknown scope';
+  if (tariff.scope_type !== 'default' && !tariff.scope_value) return 'Missing scope value';
+  if (tariff.timezone) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: tariff.timezone });
+    } catch {
+      return `Unknown timezone ${tariff.timezone}`;
+    }
+  }
+  return validateTariffRates(tariff.type, tariff.rates);
+}
+
+function saveTariff(tariff) {
+  db.run(`INSERT OR REPLACE INTO tariffs
+    (id, name, currency, type, rates, timezone, scope_type, scope_value, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [tariff.id, tariff.name, tariff.currency, tariff.type, JSON.stringify(tariff.rates), tariff.timezone || null,
+      tariff.scope_type, tariff.scope_type === 'default' ? null : tariff.scope_value, tariff.created_at,
+      tariff.updated_at]);
+  saveDatabase();
+}
+
+app.get('/api/settings/tariffs', (req, res) => {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  
+  try {
+    const result = db.exec('SELECT * FROM tariffs ORDER BY created_at ASC');
+    res.json((result[0] ? result[0].values : []).map(rowToTariff));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to retrieve tariffs' });
+  }
+});
+
+app.post('/api/settings/tariffs', requireRole('admin'), (req, res) => {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  
+  const now = new Date().toISOString();
+  const tariff = {
+    id: req.body.id || `tariff-${Date.now()}`,
+    name: req.body.name,
+    currency: req.body.currency,
+    type: req.body.type,
+    rates: req.body.rates,
+    timezone: req.body.timezone || null,
+    scope_type: req.body.scope_type || 'default',
+    scope_value: req.body.scope_value || null,
+    created_at: now,
+    updated_at: now
+  };
+  const invalid = validateTariff(tariff);
+  if (invalid) return res.status(400).json({ error: invalid });
+  
+  try {
+    recordAudit(req, { action: 'create', entity_type: 'tariff', entity_id: tariff.id, entity_name: tariff.name,
+      after: tariff });
+    saveTariff(tariff);
+    res.json(tariff);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to add tariff' });
+  }
+});
+
+app.put('/api/settings/tariffs/:id', requireRole('admin'), (req, res) => {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  
+  try {
+    const existing = findTariff(req.params.id);
+    if (!existing) return res.status(404).json({ error: 'Tariff not found' });
+    
+    const tariff = { ...existing, ...req.body, id: existing.id, created_at: existing.created_at,
+      updated_at: new Date().toISOString() };
+    const invalid = validateTariff(tariff);
+    if (invalid) return res.status(400).json({ error: invalid });
+    
+    recordAudit(req, { action: 'update', entity_type: 'tariff', entity_id: tariff.id, entity_name: tariff.name,
+      before: existing, after: tariff });
+    saveTariff(tariff);
+    res.json(tariff);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to update tariff' });
+  }
+});
+
+app.delete('/api/settings/tariffs/:id', requireRole('admin'), (req, res) => {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  
+  try {
+    const existing = findTariff(req.params.id);
+    db.run('DELETE FROM tariffs WHERE id = ?', [req.params.id]);
+    if (existing) {
+      recordAudit(req, { action: 'delete', entity_type: 'tariff', entity_id: existing.id,
+        entity_name: existing.name, before: existing });
+    }
+    saveDatabase();
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to delete tariff' });
+  }
+});
+
+// Alert rules
+const RULE_METRICS = {
+  cpu: { label: 'CPU usage', unit: '%', read: m => m.cpu && m.cpu.usage },
+  ram: { label: 'RAM usage', unit: '%', read: m => m.ram && m.ram.total ? (m.ram.used / m.ram.total) * 100 : undefined },
+  gpu: { label: 'GPU usage', unit: '%', read: m => m.gpu && m.gpu.usage },
+  cpu_temp: { label: 'CPU temperature', unit: '°C', read: m => (m.temperature && m.temperature.cpu) || (m.cpu && m.cpu.temp) },
+  gpu_temp: { label: 'GPU temperature', unit: '°C', read: m => (m.temperature && m.temperature.gpu) || (m.gpu && m.gpu.temp) },
+  power: { label: 'Power draw', unit: 'W', read: m => m.power && m.power.total }
+};
+const RULE_OPERATORS = ['>', '<'];
+const RULE_SEVERITIES = ['info', 'warning', 'error'];
+const RULE_SCOPES = ['global', 'server', 'tag'];
+
+function rowToRule(row) {
+  return {
+    id: row[0],
+    name: row[1],
+    metric: row[2],
+    operator: row[3],
+    threshold: row[4],
+    duration_seconds: row[5],
+    hysteresis: row[6],
+    severity: row[7],
+    scope_type: row[8],
+    scope_value: row[9],
+    enabled: !!row[10],
+    created_at: row[11],
+    updated_at: row[12]
+  };
+}
+
+function findRule(id) {
+  const result = db.exec('SELECT * FROM alert_rules WHERE id = ?', [id]);
+  const rows = result[0] ? result[0].values : [];
+  return rows.length > 0 ? rowToRule(rows[0]) : null;
+}
+
+function getRules() {
+  const result = db.exec('SELECT * FROM alert_rules ORDER BY created_at ASC');
+  const rows = result[0] ? result[0].values : [];
+  return rows.map(rowToRule);
+}
+
+function validateRule(rule) {
+  if (!rule.name) return 'Missing name';
+  if (!RULE_METRICS[rule.metric]) return 'Unknown metric';
+  if (!RULE_OPERATORS.includes(rule.operator)) return 'Unknown operator';
+  if (typeof rule.threshold !== 'number' || Number.isNaN(rule.threshold)) return 'Threshold must be a number';
+  if (!(rule.duration_seconds >= 0)) return 'Duration must be zero or more seconds';
+  if (!(rule.hysteresis >= 0)) return 'Hysteresis must be zero or more';
+  if (!RULE_SEVERITIES.includes(rule.severity)) return 'Unknown severity';
+  if (!RULE_SCOPES.includes(rule.scope_type)) return 'Unknown scope';
+  if (rule.scope_type !== 'global' && !rule.scope_value) return 'Missing scope value';
+  return null;
+}
+
+function saveRule(rule) {
+  db.run(`INSERT OR REPLACE INTO alert_rules
+    (id, name, metric, operator, threshold, duration_seconds, hysteresis, severity, scope_type, scope_value, enabled,
+      created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [rule.id, rule.name, rule.metric, rule.operator, rule.threshold, rule.duration_seconds, rule.hysteresis,
+      rule.severity, rule.scope_type, rule.scope_type === 'global' ? null : rule.scope_value, rule.enabled ? 1 : 0,
+      rule.created_at, rule.updated_at]);
+  saveDatabase();
+}
+
+app.get('/api/settings/rules', (req, res) => {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  
+  try {
+    res.json(getRules());
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to retrieve rules' });
+  }
+});
+
+app.post('/api/settings/rules', requireRole('admin'), (req, res) => {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  
+  const now = new Date().toISOString();
+  const rule = {
+    id: req.body.id || `rule-${Date.now()}`,
+    name: req.body.name,
+    metric: req.body.metric,
+    operator: req.body.operator || '>',
+    threshold: req.body.threshold,
+    duration_seconds: req.body.duration_seconds || 0,
+    hysteresis: req.body.hysteresis || 0,
+    severity: req.body.severity || 'warning',
+    scope_type: req.body.scope_type || 'global',
+    scope_value: req.body.scope_value || null,
+    enabled: req.body.enabled !== false,
+    created_at: now,
+    updated_at: now
+  };
+  const invalid = validateRule(rule);
+  if (invalid) return res.status(400).json({ error: invalid });
+  
+  try {
+    recordAudit(req, { action: 'create', entity_type: 'alert_rule', entity_id: rule.id, entity_name: rule.name,
+      after: rule });
+    saveRule(rule);
+    res.json(rule);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to add rule' });
+  }
+});
+
+app.put('/api/settings/rules/:id', requireRole('admin'), (req, res) => {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  
+  try {
+    const existing = findRule(req.params.id);
+    if (!existing) return res.status(404).json({ error: 'Rule not found' });
+    
+    const rule = { ...existing, ...req.body, id: existing.id, created_at: existing.created_at,
+      updated_at: new Date().toISOString() };
+    const invalid = validateRule(rule);
+    if (invalid) return res.status(400).json({ error: invalid });
+    
+    recordAudit(req, { action: 'update', entity_type: 'alert_rule', entity_id: rule.id, entity_name: rule.name,
+      before: existing, after: rule });
+    saveRule(rule);
+    if (resolveInapplicableRuleAlerts(Date.now()) > 0) saveDatabase();
+    res.json(rule);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to update rule' });
+  }
+});
+
+app.delete('/api/settings/rules/:id', requireRole('admin'), (req, res) => {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  
+  try {
+    const existing = findRule(req.params.id);
+    db.run('DELETE FROM alert_rules WHERE id = ?', [req.params.id]);
+    if (existing) {
+      recordAudit(req, { action: 'delete', entity_type: 'alert_rule', entity_id: existing.id,
+        entity_name: existing.name, before: existing });
+    }
+    resolveInapplicableRuleAlerts(Date.now());
+    saveDatabase();
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to delete rule' });
+  }
+});
+
+// GET /api/settings/rule-alerts - Alerts raised by the rule engine, shaped like an agent's GET /alerts
+app.get('/api/settings/rule-alerts', (req, res) => {
+  if (!dbInitialized) return res.status(503).json({ error: 'Database not ready' });
+  
+  const limit = Math.min(parseInt(req.query.limit) || 100, 1000);
+  
+  try {
+    const result = db.exec('SELECT * FROM rule_alerts ORDER BY timestamp DESC LIMIT ?', [limit]);
+    const rows = result[0] ? result[0].values : [];
+    const alerts = rows.map(row => ({
+      id: row[0],
+      timestamp: row[1],
+      server_id: row[2],
+      server_name: row[3],
+      subject: row[4],
+      message: row[5],
+      alert_type: row[6],
+      severity: row[7],
+      rule_id: row[8],
+      endpoint_id: row[9],
+      resolved_at: row[10]
+    }));
+    res.json({ alerts, total: alerts.length });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to retrieve rule alerts' });
+  }
+});
+
+// Rules that apply to an endpoint. For each metric the most specific scope wins: rules for
+// this server replace tag rules, which replace global ones. Several rules can apply at the
+// same level, e.g. a warning and an error threshold.
+function rulesForEndpoint(rules, endpoint) {
+  const applicable = rules.filter(rule => rule.enabled && (
+    rule.scope_type === 'global' ||
+    (rule.scope_type === 'server' && rule.scope_value === endpoint.id) ||
+    (rule.scope_type === 'tag' && endpoint.tags.includes(rule.scope_value))
+  ));
+  const rank = { server: 3, tag: 2, global: 1 };
+  const best = {};
+  applicable.forEach(rule => {
+    best[rule.metric] = Math.max(best[rule.metric] || 0, rank[rule.scope_type]);
+  });
+  return applicable.filter(rule => rank[rule.scope_type] === best[rule.metric]);
+}
+
+// Per rule and server: when the condition started to hold and the alert it raised, if any
+const ruleStates = new Map();
+
+// A rule fires once its condition has held for `duration_seconds` and clears only after the
+// value has moved `hysteresis` units back past the threshold, so values hovering around the
+// threshold do not flap.
+function evaluateRule(rule, endpoint, server, now) {
+  const metric = RULE_METRICS[rule.metric];
+  const value = metric.read(server.metrics || server);
+  if (value === undefined || value === null) return;
+  
+  const key = `${rule.id}:${endpoint.id}:${server.id || endpoint.id}`;
+  const state = ruleStates.get(key) ||
+    { ruleId: rule.id, endpointId: endpoint.id, since: null, alertId: null, event: null };
+  ruleStates.set(key, state);
+  
+  const above = rule.operator === '>';
+  const breached = above ? value > rule.threshold : value < rule.threshold;
+  const cleared = above ? value <= rule.threshold - rule.hysteresis : value >= rule.threshold + rule.hysteresis;
+  const serverName = server.hostname || endpoint.name;
+  
+  if (state.alertId) {
+    if (cleared) {
+      resolveRuleAlert(state, now, 'Condition cleared');
+      state.alertId = null;
+      state.since = null;
+    }
+    return;
+  }
+  
+  if (!breached) {
+    state.since = null;
+    return;
+  }
+  
+  state.since = state.since || now;
+  if (now - state.since < rule.duration_seconds * 1000) return;
+  
+  const seconds = rule.duration_seconds;
+  const held = seconds === 0 ? '' : seconds < 60 ? ` for ${seconds} s` : ` for ${Math.round(seconds / 6) / 10} min`;
+  const alertId = `rule-alert-${now}-${Math.random().toString(36).substr(2, 9)}`;
+  const subject = `${rule.name}: ${metric.label} on ${serverName}`;
+  const message = `${metric.label} is ${Math.round(value * 10) / 10}${metric.unit} ` +
+    `(${rule.operator} ${rule.threshold}${metric.unit}${held})`;
+  db.run(`INSERT INTO rule_alerts
+    (id, timestamp, server_id, server_name, subject, message, alert_type, severity, rule_id, endpoint_id, resolved_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NULL)`,
+    [alertId, new Date(now).toISOString(), server.id || endpoint.id, serverName, subject, message,
+      rule.metric, rule.severity, rule.id, endpoint.id]);
+  state.alertId = alertId;
+  state.event = { alert_id: alertId, subject, message, severity: rule.severity, server: serverName };
+  console.log(`Rule alert: ${rule.name} on ${serverName}`);
+  notifyAll({ ...state.event, status: 'triggered', time: new Date(now).toISOString() })
+    .catch(error => console.error('Failed to send rule notifications:', error));
+}
+
+// Cleared rule alerts are resolved automatically in the alert lifecycle as well
+function resolveRuleAlert(state, now, comment) {
+  const resolvedAt = new Date(now).toISOString();
+  db.run('UPDATE rule_alerts SET resolved_at = ? WHERE id = ?', [resolvedAt, state.alertId]);
+  saveAlertState({ ...findAlertState(state.alertId), alert_id: state.alertId, status: 'resolved',
+    resolved_by: 'Rule engine', resolved_at: resolvedAt, comment, updated_at: resolvedAt });
+  notifyAll({ ...state.event, status: 'resolved', subject: `Resolved: ${state.event.subject}`, time: resolvedAt })
+    .catch(error => console.error('Failed to send rule notifications:', error));
+}
+
+// Rebuilds the firing state from the rule alerts still open in the database, so alerts raised
+// before a restart are resolved when their condition clears instead of being raised again
+function loadRuleStates() {
+  const result = db.exec(`SELECT id, timestamp, server_id, server_name, subject, message, severity, rule_id, endpoint_id
+    FROM rule_alerts WHERE resolved_at IS NULL`);
+  const rows = result[0] ? result[0].values : [];
+  rows.forEach(([alertId, timestamp, serverId, serverName, subject, message, severity, ruleId, endpointId]) => {
+    ruleStates.set(`${ruleId}:${endpointId}:${serverId}`, {
+      ruleId,
+      endpointId,
+      since: Date.parse(timestamp),
+      alertId,
+      event: { alert_id: alertId, subject, message, severity, server: serverName }
+    });
+  });
+  return rows.length;
+}
+
+// Resolves the open alerts of rules that were deleted, disabled or rescoped away from their
+// server, and of endpoints that were removed. Returns how many alerts were resolved.
+function resolveInapplicableRuleAlerts(now) {
+  const rules = getRules();
+  const endpoints = getEndpoints();
+  let resolved = 0;
+  ruleStates.forEach((state, key) => {
+    const endpoint = endpoints.find(e => e.id === state.endpointId);
+    if (endpoint && rulesForEndpoint(rules, endpoint).some(rule => rule.id === state.ruleId)) return;
+    if (state.alertId) {
+      resolveRuleAlert(state, now, 'Rule no longer applies');
+      resolved++;
+    }
+    ruleStates.delete(key);
+  });
+  return resolved;
+}
+
+async function evaluateRules() {
+  const now = Date.now();
+  const resolved = resolveInapplicableRuleAlerts(now);
+  const rules = getRules().filter(rule => rule.enabled);
+  if (rules.length === 0) {
+    if (resolved > 0) saveDatabase();
+    return;
+  }
+  
+  const endpoints = getEndpoints();
+  
+  await Promise.all(endpoints.map(async endpoint => {
+    const endpointRules = rulesForEndpoint(rules, endpoint);
+    if (endpointRules.length === 0) return;
+    
+    try {
+      const response = await fetch(`${endpoint.url.replace(/\/+$/, '')}/metrics`, {
+        signal: AbortSignal.timeout(RULES_EVAL_INTERVAL / 2)
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const data = await response.json();
+      const servers = Array.isArray(data.servers) ? data.servers : [data];
+      servers.forEach(server => endpointRules.forEach(rule => evaluateRule(rule, endpoint, server, now)));
+    } catch (error) {
+      console.error(`Rule evaluation skipped for ${endpoint.name}: ${error.message}`);
+    }
+  }));
+  saveDatabase();
+}
+
+// Serve static files from dist folder in production
+app.use(express.static(path.join(__dirname, 'dist')));
+
+// All other routes serve the React app
+app.get('*', (req, res) => {
+  res.sendFile(path.join(__dirname, 'dist', 'index.html'));
+});
+
+// Start server
+function startServer() {
+  initializeDatabase().then(() => {
+    const openRuleAlerts = loadRuleStates();
+    if (openRuleAlerts > 0) console.log(`✓ Tracking ${openRuleAlerts} open rule alerts`);
+    setInterval(() => {
+      evaluateRules().catch(error => console.error('Rule evaluation failed:', error));
+    }, RULES_EVAL_INTERVAL);
+  
+    app.listen(PORT, () => {
+      console.log(`
+╔════════════════════════════════════════╗
+║   Server Monitor Dashboard             ║
+╚════════════════════════════════════════╝
+
+✓ Server running on port ${PORT}
+✓ Frontend: http://localhost:${PORT}
+✓ Settings API: http://localhost:${PORT}/api/settings
+✓ Database: ${DB_FILE}
 
 Ready to accept connections!
     `);
+    });
+  }).catch(error => {
+    console.error('Failed to start server:', error);
+    process.exit(1);
   });
-}).catch(error => {
-  console.error('Failed to start server:', error);
-  process.exit(1);
-});
+}
+
+// node server.js --rotate-secrets reseals the stored secrets and exits instead of serving
+if (process.argv.includes('--rotate-secrets')) {
+  initializeDatabase().then(() => {
+    const count = rotateSecrets();
+    console.log(`✓ Resealed secrets of ${count} notification channels with the current key`);
+    process.exit(0);
+  }).catch(error => {
+    console.error('Failed to rotate secrets:', error.message);
+    process.exit(1);
+  });
+} else {
+  startServer();
+}
@@ -1,20 +1,34 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route, Link, useLocation } from "react-router-dom";
+import { QueryClient, QueryClientProvider, useQueryClient } from "@tanstack/react-query";
+import { BrowserRouter, Routes, Route, Link, Navigate, useLocation } from "react-router-dom";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import Dashboard from "./pages/Dashboard";
 import CustomDashboard from "./pages/CustomDashboard";
 import Settings from "./pages/Settings";
 import Alerts from "./pages/Alerts";
+import Login from "./pages/Login";
 import NotFound from "./pages/NotFound";
-import { Activity, Settings as SettingsIcon, Bell, LayoutDashboard } from "lucide-react";
+import { Activity, Settings as SettingsIcon, Bell, LayoutDashboard, Loader2, LogOut } from "lucide-react";
 import { cn } from "./lib/utils";
+import { USER_ROLES, UserRole, hasRole, logout, sessionQueryKey, useSession } from "./lib/auth";
 
 const queryClient = new QueryClient();
 
 function Navigation() {
   const location = useLocation();
+  const queryClient = useQueryClient();
+  const { user } = useSession();
+
+  if (!user) return null;
+
+  const handleLogout = async () => {
+    await logout().catch((error) => console.error("Failed to log out:", error));
+    queryClient.clear();
+    await queryClient.invalidateQueries({ queryKey: sessionQueryKey });
+  };
 
   return (
     <nav className="border-b border-border bg-card/50 backdrop-blur-sm sticky top-0 z-50">
@@ -39,7 +53,7 @@ function Navigation() {
             to="/custom"
             className={cn(
               "px-4 py-2 rounded-md transition-colors flex items-center gap-2",
-              location.pathname === "/custom"
+              location.pathname.startsWith("/custom")
                 ? "bg-primary text-primary-foreground"
                 : "text-muted-foreground hover:text-foreground hover:bg-muted"
             )}
@@ -59,24 +73,67 @@ function Navigation() {
             <Bell className="w-4 h-4" />
             Alerts
           </Link>
-          <Link
-            to="/settings"
-            className={cn(
-              "px-4 py-2 rounded-md transition-colors flex items-center gap-2",
-              location.pathname === "/settings"
-                ? "bg-primary text-primary-foreground"
-                : "text-muted-foreground hover:text-foreground hover:bg-muted"
-            )}
-          >
-            <SettingsIcon className="w-4 h-4" />
-            Settings
-          </Link>
+          {hasRole(user, "admin") && (
+            <Link
+              to="/settings"
+              className={cn(
+                "px-4 py-2 rounded-md transition-colors flex items-center gap-2",
+                location.pathname === "/settings"
+                  ? "bg-primary text-primary-foreground"
+                  : "text-muted-foreground hover:text-foreground hover:bg-muted"
+              )}
+            >
+              <SettingsIcon className="w-4 h-4" />
+              Settings
+            </Link>
+          )}
+        </div>
+        <div className="flex items-center gap-2 pl-4 border-l border-border">
+          <span className="text-sm font-medium">{user.username}</span>
+          <Badge variant="outline">{USER_ROLES.find((role) => role.value === user.role)?.label}</Badge>
+          <Button variant="ghost" size="icon" onClick={handleLogout} title="Log out">
+            <LogOut className="w-4 h-4" />
+          </Button>
         </div>
       </div>
     </nav>
   );
 }
 
+// Sends signed-out visitors to the login page and remembers where they were going
+function RequireAuth({ role = "viewer", children }: { role?: UserRole; children: JSX.Element }) {
+  const location = useLocation();
+  const { user, isLoading } = useSession();
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-[60vh] items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+  if (!user) return <Navigate to="/login" state={{ from: location.pathname }} replace />;
+  if (!hasRole(user, role)) {
+    return (
+      <div className="flex min-h-[60vh] items-center justify-center">
+        <div className="text-center">
+          <h1 className="mb-2 text-2xl font-bold">No access</h1>
+          <p className="text-muted-foreground">
+            This page needs the {USER_ROLES.find((r) => r.value === role)?.label.toLowerCase()} role.
+          </p>
+        </div>
+      </div>
+    );
+  }
+  return children;
+}
+
+function LoginRoute() {
+  const { user, isLoading } = useSession();
+  if (isLoading) return null;
+  return user ? <Navigate to="/" replace /> : <Login />;
+}
+
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
@@ -85,10 +142,12 @@ const App = () => (
       <BrowserRouter>
         <Navigation />
         <Routes>
-          <Route path="/" element={<Dashboard />} />
-          <Route path="/custom" element={<CustomDashboard />} />
-          <Route path="/alerts" element={<Alerts />} />
-          <Route path="/settings" element={<Settings />} />
+          <Route path="/login" element={<LoginRoute />} />
+          <Route path="/" element={<RequireAuth><Dashboard /></RequireAuth>} />
+          <Route path="/custom" element={<RequireAuth><CustomDashboard /></RequireAuth>} />
+          <Route path="/custom/:dashboardId" element={<RequireAuth><CustomDashboard /></RequireAuth>} />
+          <Route path="/alerts" element={<RequireAuth><Alerts /></RequireAuth>} />
+          <Route path="/settings" element={<RequireAuth role="admin"><Settings /></RequireAuth>} />
           <Route path="*" element={<NotFound />} />
         </Routes>
       </BrowserRouter>
@@ -0,0 +1,104 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { AgentAlert } from "@/lib/alertsClient";
+import type { AlertStatus } from "@/lib/settingsApi";
+
+export type AlertActionKind = AlertStatus | "assign";
+
+const actionLabels: Record<AlertActionKind, string> = {
+  open: "Reopen",
+  acknowledged: "Acknowledge",
+  resolved: "Resolve",
+  assign: "Assign",
+};
+
+const UNASSIGNED = "__unassigned";
+
+export interface AlertAction {
+  alert: AgentAlert;
+  kind: AlertActionKind;
+  // Current assignee, preselected when assigning
+  assignedTo?: string | null;
+}
+
+interface AlertActionDialogProps {
+  action: AlertAction | null;
+  assignees: string[];
+  onOpenChange: (open: boolean) => void;
+  // `assignee` is only set for the assign action; null removes the assignment
+  onConfirm: (action: AlertAction, comment: string, assignee?: string | null) => void;
+}
+
+export function AlertActionDialog({ action, assignees, onOpenChange, onConfirm }: AlertActionDialogProps) {
+  const [comment, setComment] = useState("");
+  const [assignee, setAssignee] = useState(UNASSIGNED);
+
+  useEffect(() => {
+    if (!action) return;
+    setComment("");
+    setAssignee(action.assignedTo || UNASSIGNED);
+  }, [action]);
+
+  const handleConfirm = () => {
+    if (!action) return;
+    if (action.kind === "assign") onConfirm(action, comment.trim(), assignee === UNASSIGNED ? null : assignee);
+    else onConfirm(action, comment.trim());
+  };
+
+  return (
+    <Dialog open={!!action} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{action && `${actionLabels[action.kind]} Alert`}</DialogTitle>
+          <DialogDescription>{action?.alert.subject}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {action?.kind === "assign" && (
+            <div className="space-y-2">
+              <Label htmlFor="alert-assignee">Assignee</Label>
+              <Select value={assignee} onValueChange={setAssignee}>
+                <SelectTrigger id="alert-assignee">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNASSIGNED}>Nobody</SelectItem>
+                  {assignees.map((username) => (
+                    <SelectItem key={username} value={username}>
+                      {username}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="alert-comment">Comment</Label>
+            <Textarea
+              id="alert-comment"
+              rows={3}
+              placeholder="What was done, or who is looking into it"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button onClick={handleConfirm}>
+            {action && actionLabels[action.kind]}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Leaf } from "lucide-react";
+import { EnergySource, formatEnergy, formatHours } from "@/lib/energy";
+import {
+  CARBON_PERIODS,
+  CarbonPeriod,
+  formatCarbon,
+  intensityForSite,
+  useCarbonEstimates,
+  useCarbonIntensities,
+} from "@/lib/carbon";
+
+interface CarbonFootprintProps {
+  server: EnergySource;
+  // Every server with energy accounting, including the selected one
+  fleet: EnergySource[];
+}
+
+const TOP_EMITTERS = 5;
+
+export function CarbonFootprint({ server, fleet }: CarbonFootprintProps) {
+  const [period, setPeriod] = useState<CarbonPeriod>("24h");
+  const { data: intensities = [] } = useCarbonIntensities();
+  const { servers, total, isLoading } = useCarbonEstimates(fleet, period);
+  const selected = servers.find((s) => s.serverId === server.serverId);
+  const intensity = intensityForSite(intensities, server.endpoint?.location);
+  const topEmitters = servers
+    .filter((s) => s.estimate)
+    .sort((a, b) => b.estimate.grams - a.estimate.grams)
+    .slice(0, TOP_EMITTERS);
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <Leaf className="w-5 h-5 text-green-500" />
+          <div>
+            <h3 className="text-lg font-semibold">Carbon Emissions</h3>
+            <p className="text-sm text-muted-foreground">
+              Estimated CO2e from measured energy and the grid intensity set for each site in Settings.
+            </p>
+          </div>
+        </div>
+        <Select value={period} onValueChange={(value) => setPeriod(value as CarbonPeriod)}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CARBON_PERIODS.map((p) => (
+              <SelectItem key={p.value} value={p.value}>
+                {p.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {!server.endpoint ? (
+        <p className="text-sm text-muted-foreground py-8 text-center">
+          Configure API endpoint in settings to estimate emissions
+        </p>
+      ) : isLoading ? (
+        <p className="text-sm text-muted-foreground py-8 text-center">Loading emissions...</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <div className="flex items-center justify-between p-4 bg-muted rounded-lg">
+              <span className="text-sm font-medium">{server.name}</span>
+              <span className="text-2xl font-bold text-green-500">
+                {selected?.estimate ? formatCarbon(selected.estimate.grams) : "—"}
+              </span>
+            </div>
+            {selected?.estimate ? (
+              <div className="space-y-2 text-sm">
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">Energy</span>
+                  <span className="font-mono">{formatEnergy(selected.estimate.kwh)}</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">Avg. Intensity</span>
+                  <span className="font-mono">{selected.estimate.intensity.toFixed(0)} gCO2e/kWh</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">Measured</span>
+                  <span className="font-mono">
+                    {formatHours(selected.estimate.covered_hours)} of {formatHours(selected.estimate.elapsed_hours)}
+                  </span>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                {selected?.isError
+                  ? "This agent does not report energy yet."
+                  : "No carbon intensity is configured on the settings server."}
+              </p>
+            )}
+            {intensity && (
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="outline">
+                  Site: {intensity.site === "default" ? "Default" : intensity.site}
+                </Badge>
+                <Badge variant="outline">
+                  {intensity.profile
+                    ? `Hourly profile${intensity.timezone ? ` (${intensity.timezone})` : ""}`
+                    : `${intensity.g_per_kwh} gCO2e/kWh`}
+                </Badge>
+                {selected && selected.pue > 1 && (
+                  <Badge variant="outline">Incl. facility overhead (PUE {selected.pue.toFixed(2)})</Badge>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-4">
+            <div className="flex items-center justify-between p-4 bg-muted rounded-lg">
+              <span className="text-sm font-medium">Fleet ({servers.length} servers)</span>
+              <span className="text-2xl font-bold text-green-500">{total ? formatCarbon(total.grams) : "—"}</span>
+            </div>
+            {total && (
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">Energy</span>
+                <span className="font-mono">{formatEnergy(total.kwh)}</span>
+              </div>
+            )}
+            {topEmitters.length > 1 && (
+              <div className="space-y-2 pt-4 border-t border-border">
+                <p className="text-sm text-muted-foreground">Largest emitters</p>
+                {topEmitters.map((s) => (
+                  <div key={s.serverId} className="flex items-center justify-between text-sm">
+                    <span className={s.serverId === server.serverId ? "font-semibold" : ""}>{s.name}</span>
+                    <span className="font-mono">
+                      {formatCarbon(s.estimate.grams)}
+                      <span className="text-muted-foreground">
+                        {" "}
+                        ({total.grams > 0 ? Math.round((s.estimate.grams / total.grams) * 100) : 0}%)
+                      </span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
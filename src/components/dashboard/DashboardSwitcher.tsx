@@ -0,0 +1,186 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download, MoreVertical, Pencil, Plus, Trash2, Upload } from "lucide-react";
+import type { SavedDashboard } from "@/lib/settingsApi";
+
+interface DashboardSwitcherProps {
+  dashboards: SavedDashboard[];
+  currentId?: string;
+  onSelect: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+  // Viewers can switch and export dashboards but not change them
+  canEdit?: boolean;
+}
+
+export function DashboardSwitcher({
+  dashboards,
+  currentId,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  onImport,
+  onExport,
+  canEdit = true,
+}: DashboardSwitcherProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [nameDialog, setNameDialog] = useState<"create" | "rename" | null>(null);
+  const [name, setName] = useState("");
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const current = dashboards.find((d) => d.id === currentId);
+
+  const openNameDialog = (mode: "create" | "rename") => {
+    setName(mode === "rename" ? current?.name || "" : "");
+    setNameDialog(mode);
+  };
+
+  const handleSubmitName = () => {
+    if (!name.trim()) return;
+    if (nameDialog === "create") onCreate(name.trim());
+    else onRename(name.trim());
+    setNameDialog(null);
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <Select value={currentId} onValueChange={onSelect}>
+        <SelectTrigger className="w-[200px]">
+          <SelectValue placeholder="Select dashboard..." />
+        </SelectTrigger>
+        <SelectContent>
+          {dashboards.map((dashboard) => (
+            <SelectItem key={dashboard.id} value={dashboard.id}>
+              {dashboard.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon">
+            <MoreVertical className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {canEdit && (
+            <>
+              <DropdownMenuItem onClick={() => openNameDialog("create")}>
+                <Plus className="mr-2 h-4 w-4" />
+                New dashboard
+              </DropdownMenuItem>
+              <DropdownMenuItem disabled={!current} onClick={() => openNameDialog("rename")}>
+                <Pencil className="mr-2 h-4 w-4" />
+                Rename
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => fileInput.current?.click()}>
+                <Upload className="mr-2 h-4 w-4" />
+                Import JSON...
+              </DropdownMenuItem>
+            </>
+          )}
+          <DropdownMenuItem disabled={!current} onClick={onExport}>
+            <Download className="mr-2 h-4 w-4" />
+            Export JSON
+          </DropdownMenuItem>
+          {canEdit && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                disabled={!current}
+                className="text-destructive focus:text-destructive"
+                onClick={() => setConfirmDelete(true)}
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <input
+        ref={fileInput}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onImport(file);
+          e.target.value = "";
+        }}
+      />
+
+      <Dialog open={nameDialog !== null} onOpenChange={(open) => !open && setNameDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{nameDialog === "create" ? "New Dashboard" : "Rename Dashboard"}</DialogTitle>
+            <DialogDescription>Dashboards are stored on the server and shared with your team</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="dashboard-name">Name</Label>
+            <Input
+              id="dashboard-name"
+              placeholder="Production overview"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleSubmitName()}
+            />
+          </div>
+          <DialogFooter>
+            <Button onClick={handleSubmitName} disabled={!name.trim()}>
+              {nameDialog === "create" ? "Create" : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{current?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This removes the dashboard for everyone. Links to it will stop working.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={onDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Gauge } from "lucide-react";
+import { ServerMetrics } from "@/lib/metricsClient";
+import { formatEnergy, formatHours } from "@/lib/energy";
+import {
+  EFFICIENCY_PERIODS,
+  EfficiencyPeriod,
+  IDLE_THRESHOLD_OPTIONS,
+  liveEfficiency,
+  setIdleThreshold,
+  useEfficiency,
+  useIdleThreshold,
+  wasteCandidate,
+} from "@/lib/efficiency";
+import type { ServerEndpoint } from "@/lib/settingsApi";
+
+interface EfficiencyMetricsProps {
+  server: ServerMetrics;
+  endpoint?: ServerEndpoint;
+}
+
+const formatWatts = (watts: number | null | undefined, digits = 1) =>
+  watts === null || watts === undefined ? "—" : `${watts.toFixed(digits)}W`;
+
+function Figure({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="p-4 bg-muted rounded-lg">
+      <p className="text-sm text-muted-foreground">{label}</p>
+      <p className="text-2xl font-bold">{value}</p>
+      {hint && <p className="text-xs text-muted-foreground mt-1">{hint}</p>}
+    </div>
+  );
+}
+
+export function EfficiencyMetrics({ server, endpoint }: EfficiencyMetricsProps) {
+  const [period, setPeriod] = useState<EfficiencyPeriod>("24h");
+  const threshold = useIdleThreshold();
+  const { data: report, isLoading, isError } = useEfficiency(endpoint, server.id, period);
+  const live = liveEfficiency(server);
+  const candidate = report && report.measured_hours > 0 ? wasteCandidate(report.idle) : undefined;
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <Gauge className="w-5 h-5 text-purple-500" />
+          <div>
+            <h3 className="text-lg font-semibold">Efficiency</h3>
+            <p className="text-sm text-muted-foreground">
+              Power relative to the work done. Time under {threshold}% CPU counts as idle.
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={String(threshold)} onValueChange={(value) => setIdleThreshold(Number(value))}>
+            <SelectTrigger className="w-[120px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {IDLE_THRESHOLD_OPTIONS.map((option) => (
+                <SelectItem key={option} value={String(option)}>
+                  Idle &lt; {option}%
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={period} onValueChange={(value) => setPeriod(value as EfficiencyPeriod)}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EFFICIENCY_PERIODS.map((p) => (
+                <SelectItem key={p.value} value={p.value}>
+                  {p.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <Figure
+          label="W per CPU-%"
+          value={formatWatts(report ? report.watts_per_cpu_percent : live.wattsPerCpuPercent, 2)}
+          hint={report ? `Now ${formatWatts(live.wattsPerCpuPercent, 2)}` : "Current"}
+        />
+        <Figure
+          label="W per core"
+          value={formatWatts(report ? report.watts_per_core : live.wattsPerCore)}
+          hint={report ? `Now ${formatWatts(live.wattsPerCore)}` : "Current"}
+        />
+        <Figure
+          label="Idle energy"
+          value={report ? formatEnergy(report.idle.kwh) : "—"}
+          hint={report ? `${Math.round(report.idle.energy_share * 100)}% of ${formatEnergy(report.kwh)}` : undefined}
+        />
+        <Figure
+          label="Idle time"
+          value={report ? `${Math.round(report.idle.time_share * 100)}%` : "—"}
+          hint={report ? `${formatHours(report.idle.hours)} of ${formatHours(report.measured_hours)} measured` : undefined}
+        />
+      </div>
+
+      {!endpoint ? (
+        <p className="text-sm text-muted-foreground pt-4">
+          Configure API endpoint in settings to measure efficiency over time
+        </p>
+      ) : isLoading ? (
+        <p className="text-sm text-muted-foreground pt-4">Loading efficiency...</p>
+      ) : isError ? (
+        <p className="text-sm text-muted-foreground pt-4">Efficiency data unavailable</p>
+      ) : (
+        report &&
+        report.measured_hours > 0 && (
+          <div className="flex flex-wrap items-center gap-x-6 gap-y-2 pt-4 text-sm">
+            <span>
+              <span className="text-muted-foreground">Average power </span>
+              <span className="font-mono">{formatWatts(report.avg_power_w)}</span>
+            </span>
+            <span>
+              <span className="text-muted-foreground">Idle </span>
+              <span className="font-mono">{formatWatts(report.idle.avg_power_w)}</span>
+            </span>
+            <span>
+              <span className="text-muted-foreground">Busy </span>
+              <span className="font-mono">{formatWatts(report.busy_avg_power_w)}</span>
+            </span>
+            <span>
+              <span className="text-muted-foreground">Average CPU </span>
+              <span className="font-mono">{report.avg_cpu !== null ? `${report.avg_cpu.toFixed(1)}%` : "—"}</span>
+            </span>
+            {candidate && (
+              <Badge variant={candidate === "power_down" ? "destructive" : "secondary"}>
+                {candidate === "power_down" ? "Power-down candidate" : "Consolidation candidate"}
+              </Badge>
+            )}
+          </div>
+        )
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from "recharts";
+import { format } from "date-fns";
+import { BatteryCharging, Info } from "lucide-react";
+import { ServerMetrics } from "@/lib/metricsClient";
+import {
+  ENERGY_COMPONENTS,
+  ENERGY_PERIODS,
+  EnergyBucket,
+  EnergyPeriod,
+  formatEnergy,
+  formatHours,
+  useEnergyReport,
+} from "@/lib/energy";
+import type { ServerEndpoint } from "@/lib/settingsApi";
+
+interface EnergyUsageProps {
+  server: ServerMetrics;
+  endpoint?: ServerEndpoint;
+}
+
+const bucketFormats: Record<EnergyBucket, string> = {
+  hour: "HH:mm",
+  day: "EEE d",
+  week: "'Week of' MMM d",
+  month: "MMM yyyy",
+};
+
+// Buckets with less than this share of samples are flagged as incomplete
+const FULL_COVERAGE = 0.95;
+
+export function EnergyUsage({ server, endpoint }: EnergyUsageProps) {
+  const [period, setPeriod] = useState<EnergyPeriod>("24h");
+  const { data: report, isLoading, isError } = useEnergyReport(endpoint, server.id, period);
+
+  if (!endpoint) {
+    return (
+      <Card className="p-6">
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <Info className="h-5 w-5" />
+          <p>Configure API endpoint in settings to see measured energy use</p>
+        </div>
+      </Card>
+    );
+  }
+
+  const components = ENERGY_COMPONENTS.filter(
+    (component) => component.key !== "gpu" || (report?.totals.kwh.gpu ?? 0) > 0
+  );
+  const chartData = (report?.buckets || []).map((bucket) => ({
+    label: format(new Date(bucket.start), bucketFormats[report.bucket]),
+    coverage: bucket.coverage,
+    ...Object.fromEntries(components.map(({ key }) => [key, bucket.kwh[key]])),
+  }));
+  const recentGaps = (report?.gaps || []).slice(-5).reverse();
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <BatteryCharging className="w-5 h-5 text-yellow-500" />
+          <div>
+            <h3 className="text-lg font-semibold">Energy Use</h3>
+            <p className="text-sm text-muted-foreground">
+              Integrated from the agent's power samples. Time without samples is not estimated.
+            </p>
+          </div>
+        </div>
+        <Select value={period} onValueChange={(value) => setPeriod(value as EnergyPeriod)}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ENERGY_PERIODS.map((p) => (
+              <SelectItem key={p.value} value={p.value}>
+                {p.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground py-8 text-center">Loading energy data...</p>
+      ) : isError || !report ? (
+        <p className="text-sm text-muted-foreground py-8 text-center">
+          This agent does not report energy yet. Update it to a version with the /energy endpoint.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2">
+            <ResponsiveContainer width="100%" height={300}>
+              <BarChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis
+                  dataKey="label"
+                  stroke="hsl(var(--muted-foreground))"
+                  tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 12 }}
+                />
+                <YAxis
+                  stroke="hsl(var(--muted-foreground))"
+                  tick={{ fill: "hsl(var(--muted-foreground))" }}
+                  label={{ value: "kWh", angle: -90, position: "insideLeft" }}
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: "hsl(var(--card))",
+                    border: "1px solid hsl(var(--border))",
+                    borderRadius: "8px",
+                  }}
+                  formatter={(value: number, name: string) => [formatEnergy(value), name]}
+                  labelFormatter={(label, payload) => {
+                    const coverage = payload?.[0]?.payload.coverage;
+                    return coverage !== undefined ? `${label} (${Math.round(coverage * 100)}% measured)` : label;
+                  }}
+                />
+                <Legend />
+                {components.map((component) => (
+                  <Bar key={component.key} dataKey={component.key} name={component.label} stackId="energy" fill={component.color} />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="space-y-4">
+            <div className="flex items-center justify-between p-4 bg-muted rounded-lg">
+              <span className="text-sm font-medium">Total</span>
+              <span className="text-2xl font-bold text-yellow-500">{formatEnergy(report.totals.kwh.total)}</span>
+            </div>
+
+            <div className="space-y-2">
+              {components.map((component) => (
+                <div key={component.key} className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <div className="w-3 h-3 rounded" style={{ backgroundColor: component.color }} />
+                    <span className="text-sm">{component.label}</span>
+                  </div>
+                  <span className="text-sm font-mono font-semibold">
+                    {formatEnergy(report.totals.kwh[component.key])}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            <div className="pt-4 border-t border-border space-y-2 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">Measured</span>
+                <span className="font-mono">
+                  {formatHours(report.totals.covered_hours)} of {formatHours(report.totals.elapsed_hours)}
+                </span>
+              </div>
+              {report.totals.coverage < FULL_COVERAGE && (
+                <Badge variant="outline">
+                  {Math.round(report.totals.coverage * 100)}% coverage. Totals exclude unmeasured time.
+                </Badge>
+              )}
+              {recentGaps.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-muted-foreground">
+                    Gaps (no sample for over {report.max_gap_seconds} s)
+                  </p>
+                  {recentGaps.map((gap) => (
+                    <p key={gap.start} className="font-mono text-xs">
+                      {format(new Date(gap.start), "MMM d, HH:mm")} –{" "}
+                      {gap.ongoing ? "now" : format(new Date(gap.end), "MMM d, HH:mm")} (
+                      {formatHours((gap.end - gap.start) / 3600000)})
+                    </p>
+                  ))}
+                  {report.gaps.length > recentGaps.length && (
+                    <p className="text-xs text-muted-foreground">
+                      and {report.gaps.length - recentGaps.length} earlier
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
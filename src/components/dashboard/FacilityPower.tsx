@@ -0,0 +1,105 @@
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Building2 } from "lucide-react";
+import { ServerMetrics } from "@/lib/metricsClient";
+import {
+  DEFAULT_FACILITY_SITE,
+  facilityForEndpoint,
+  setIncludeOverhead,
+  useFacilities,
+  useFacilityMeter,
+  useIncludeOverhead,
+} from "@/lib/facility";
+import type { ServerEndpoint } from "@/lib/settingsApi";
+
+interface FacilityPowerProps {
+  server: ServerMetrics;
+  endpoint?: ServerEndpoint;
+  servers: ServerMetrics[];
+  endpoints: ServerEndpoint[];
+}
+
+function PowerRow({ label, watts, muted }: { label: string; watts: number; muted?: boolean }) {
+  return (
+    <div className={`flex items-center justify-between text-sm ${muted ? "text-muted-foreground" : ""}`}>
+      <span>{label}</span>
+      <span className="font-mono">{Math.round(watts)}W</span>
+    </div>
+  );
+}
+
+export function FacilityPower({ server, endpoint, servers, endpoints }: FacilityPowerProps) {
+  const includeOverhead = useIncludeOverhead();
+  const { data: facilities = [] } = useFacilities();
+  const facility = facilityForEndpoint(facilities, endpoint);
+  const { data: meter, isError: meterError, error } = useFacilityMeter(facility);
+
+  // Every server sharing this facility, including ones on other endpoints
+  const siteServers = facility
+    ? servers.filter((s) => facilityForEndpoint(facilities, endpoints.find((e) => e.id === s.endpointId)) === facility)
+    : [server];
+  const siteIt = siteServers.reduce((sum, s) => sum + s.metrics.power.total, 0);
+  const siteFacility = meter ? meter.watts : siteIt * (facility?.pue ?? 1);
+  const pue = facility?.pue ?? 1;
+  const siteName = !facility ? endpoint?.location : facility.site === DEFAULT_FACILITY_SITE ? "Default" : facility.site;
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <Building2 className="w-5 h-5 text-blue-500" />
+          <div>
+            <h3 className="text-lg font-semibold">Facility Power</h3>
+            <p className="text-sm text-muted-foreground">
+              Agents report IT power only. Facility power adds cooling and distribution losses.
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch id="include-overhead" checked={includeOverhead} onCheckedChange={setIncludeOverhead} />
+          <Label htmlFor="include-overhead" className="text-sm">
+            Include in carbon and cost
+          </Label>
+        </div>
+      </div>
+
+      {!facility ? (
+        <p className="text-sm text-muted-foreground py-4">
+          No PUE is configured for {siteName ? `the site ${siteName}` : "servers without a location"}. Add one under
+          Settings → Energy.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <p className="text-sm font-medium">{server.name}</p>
+            <PowerRow label="IT power" watts={server.metrics.power.total} />
+            <PowerRow label={`Facility power (PUE ${pue.toFixed(2)})`} watts={server.metrics.power.total * pue} />
+            <PowerRow label="Overhead" watts={server.metrics.power.total * (pue - 1)} muted />
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium">
+              Site {siteName} ({siteServers.length} servers)
+            </p>
+            <PowerRow label="IT power" watts={siteIt} />
+            <PowerRow label={meter ? "Facility power (meter)" : "Facility power (from PUE)"} watts={siteFacility} />
+            <PowerRow label="Overhead" watts={Math.max(0, siteFacility - siteIt)} muted />
+            {meter && siteIt > 0 && (
+              <div className="flex items-center justify-between text-sm pt-2 border-t border-border">
+                <span>Measured PUE</span>
+                <span className="font-mono">
+                  {(meter.watts / siteIt).toFixed(2)}
+                  <span className="text-muted-foreground"> (configured {pue.toFixed(2)})</span>
+                </span>
+              </div>
+            )}
+            {meterError && (
+              <p className="text-xs text-destructive">Meter unavailable: {(error as Error).message}</p>
+            )}
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
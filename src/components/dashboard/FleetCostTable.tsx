@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowDown, ArrowUp, ArrowUpDown, Coins } from "lucide-react";
+import { EnergySource, formatEnergy } from "@/lib/energy";
+import { ServerCost, formatCost, useElectricityCosts } from "@/lib/cost";
+import { useIncludeOverhead } from "@/lib/facility";
+
+type SortKey = "name" | "tariff" | "kwh" | "today" | "month" | "projection";
+
+const columns: { key: SortKey; label: string; numeric?: boolean }[] = [
+  { key: "name", label: "Server" },
+  { key: "tariff", label: "Tariff" },
+  { key: "kwh", label: "Energy This Month", numeric: true },
+  { key: "today", label: "Today", numeric: true },
+  { key: "month", label: "This Month", numeric: true },
+  { key: "projection", label: "Projected", numeric: true },
+];
+
+// Servers without a cost sort last whichever way the column is sorted
+function sortValue(server: ServerCost, key: SortKey): string | number | undefined {
+  switch (key) {
+    case "name":
+      return server.name.toLowerCase();
+    case "tariff":
+      return server.tariff?.name.toLowerCase();
+    case "kwh":
+      return server.cost?.kwh_month;
+    default:
+      return server.cost?.[key] ?? undefined;
+  }
+}
+
+interface FleetCostTableProps {
+  fleet: EnergySource[];
+  selectedId?: string;
+}
+
+export function FleetCostTable({ fleet, selectedId }: FleetCostTableProps) {
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: "month", descending: true });
+  const { servers, totals, isLoading } = useElectricityCosts(fleet);
+  const includeOverhead = useIncludeOverhead();
+
+  const sorted = [...servers].sort((a, b) => {
+    const x = sortValue(a, sort.key);
+    const y = sortValue(b, sort.key);
+    if (x === undefined || y === undefined) return x === y ? 0 : x === undefined ? 1 : -1;
+    const order = x < y ? -1 : x > y ? 1 : 0;
+    return sort.descending ? -order : order;
+  });
+
+  const toggleSort = (key: SortKey) =>
+    setSort((current) =>
+      current.key === key ? { key, descending: !current.descending } : { key, descending: key !== "name" && key !== "tariff" }
+    );
+
+  const currencies = Object.entries(totals);
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <Coins className="w-5 h-5 text-yellow-500" />
+        <div>
+          <h3 className="text-lg font-semibold">Fleet Electricity Cost</h3>
+          <p className="text-sm text-muted-foreground">
+            Measured energy this month priced with each server's tariff. Projections assume the rest of the month
+            uses energy at the measured rate.
+            {includeOverhead && " Includes facility overhead for sites with a PUE."}
+          </p>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground py-8 text-center">Loading costs...</p>
+      ) : servers.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-8 text-center">No servers report energy yet</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {columns.map((column) => (
+                <TableHead key={column.key} className={column.numeric ? "text-right" : ""}>
+                  <Button variant="ghost" size="sm" className="-mx-3" onClick={() => toggleSort(column.key)}>
+                    {column.label}
+                    {sort.key !== column.key ? (
+                      <ArrowUpDown className="h-3 w-3 ml-1 opacity-50" />
+                    ) : sort.descending ? (
+                      <ArrowDown className="h-3 w-3 ml-1" />
+                    ) : (
+                      <ArrowUp className="h-3 w-3 ml-1" />
+                    )}
+                  </Button>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sorted.map((server) => (
+              <TableRow key={server.serverId} className={server.serverId === selectedId ? "bg-muted/50" : ""}>
+                <TableCell className="font-medium">{server.name}</TableCell>
+                <TableCell className="text-muted-foreground">{server.tariff?.name || "No tariff"}</TableCell>
+                {server.cost ? (
+                  <>
+                    <TableCell className="text-right font-mono">{formatEnergy(server.cost.kwh_month)}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      {formatCost(server.cost.today, server.cost.currency)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {formatCost(server.cost.month, server.cost.currency)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {server.cost.projection !== null ? formatCost(server.cost.projection, server.cost.currency) : "—"}
+                    </TableCell>
+                  </>
+                ) : (
+                  <TableCell colSpan={4} className="text-right text-muted-foreground">
+                    {server.isError ? "No energy data" : "—"}
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+          {currencies.length > 0 && (
+            <TableFooter>
+              {currencies.map(([currency, total]) => (
+                <TableRow key={currency}>
+                  <TableCell colSpan={3} className="font-medium">
+                    Total{currencies.length > 1 ? ` (${currency})` : ""}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">{formatCost(total.today, currency)}</TableCell>
+                  <TableCell className="text-right font-mono">{formatCost(total.month, currency)}</TableCell>
+                  <TableCell className="text-right font-mono">{formatCost(total.projection, currency)}</TableCell>
+                </TableRow>
+              ))}
+            </TableFooter>
+          )}
+        </Table>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { PowerOff } from "lucide-react";
+import { EnergySource, formatEnergy, formatHours } from "@/lib/energy";
+import { EFFICIENCY_PERIODS, EfficiencyPeriod, useIdleThreshold, useIdleWaste } from "@/lib/efficiency";
+
+interface IdleWasteReportProps {
+  fleet: EnergySource[];
+  selectedId?: string;
+}
+
+export function IdleWasteReport({ fleet, selectedId }: IdleWasteReportProps) {
+  const [period, setPeriod] = useState<EfficiencyPeriod>("7d");
+  const threshold = useIdleThreshold();
+  const { servers, idleKwh, totalKwh, isLoading } = useIdleWaste(fleet, period);
+  const candidates = servers.filter((s) => s.candidate).length;
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <PowerOff className="w-5 h-5 text-orange-500" />
+          <div>
+            <h3 className="text-lg font-semibold">Idle Waste</h3>
+            <p className="text-sm text-muted-foreground">
+              Servers ranked by the energy used while under {threshold}% CPU. Servers idle 90% of the time are
+              power-down candidates; idle half the time, consolidation candidates.
+            </p>
+          </div>
+        </div>
+        <Select value={period} onValueChange={(value) => setPeriod(value as EfficiencyPeriod)}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {EFFICIENCY_PERIODS.map((p) => (
+              <SelectItem key={p.value} value={p.value}>
+                {p.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground py-8 text-center">Loading idle waste...</p>
+      ) : servers.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-8 text-center">No servers report efficiency yet</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Server</TableHead>
+              <TableHead className="text-right">Idle Energy</TableHead>
+              <TableHead className="text-right">Share of Energy</TableHead>
+              <TableHead className="text-right">Idle Time</TableHead>
+              <TableHead className="text-right">Idle Power</TableHead>
+              <TableHead className="text-right">Avg CPU</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {servers.map((server) => (
+              <TableRow key={server.serverId} className={server.serverId === selectedId ? "bg-muted/50" : ""}>
+                <TableCell className="font-medium">{server.name}</TableCell>
+                {server.report && server.report.measured_hours > 0 ? (
+                  <>
+                    <TableCell className="text-right font-mono">{formatEnergy(server.report.idle.kwh)}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      {Math.round(server.report.idle.energy_share * 100)}%
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {formatHours(server.report.idle.hours)}
+                      <span className="text-muted-foreground"> ({Math.round(server.report.idle.time_share * 100)}%)</span>
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {server.report.idle.avg_power_w !== null ? `${Math.round(server.report.idle.avg_power_w)}W` : "—"}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {server.report.avg_cpu !== null ? `${server.report.avg_cpu.toFixed(1)}%` : "—"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {server.candidate && (
+                        <Badge variant={server.candidate === "power_down" ? "destructive" : "secondary"}>
+                          {server.candidate === "power_down" ? "Power down" : "Consolidate"}
+                        </Badge>
+                      )}
+                    </TableCell>
+                  </>
+                ) : (
+                  <TableCell colSpan={6} className="text-right text-muted-foreground">
+                    {server.isError ? "No efficiency data" : "No samples in this period"}
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+          {totalKwh > 0 && (
+            <TableFooter>
+              <TableRow>
+                <TableCell className="font-medium">
+                  Total{candidates > 0 ? ` (${candidates} candidate${candidates === 1 ? "" : "s"})` : ""}
+                </TableCell>
+                <TableCell className="text-right font-mono">{formatEnergy(idleKwh)}</TableCell>
+                <TableCell className="text-right font-mono">{Math.round((idleKwh / totalKwh) * 100)}%</TableCell>
+                <TableCell colSpan={4} />
+              </TableRow>
+            </TableFooter>
+          )}
+        </Table>
+      )}
+    </Card>
+  );
+}
@@ -1,33 +1,66 @@
 import { Card } from "@/components/ui/card";
-import { LineChart, Line, AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, Brush } from "recharts";
+
+export interface MetricsChartSeries {
+  dataKey: string;
+  name: string;
+  color: string;
+}
+
+export interface MetricsChartBrush {
+  startIndex?: number;
+  endIndex?: number;
+  onChange: (range: { startIndex: number; endIndex: number }) => void;
+}
 
 interface MetricsChartProps {
   title: string;
   data: any[];
-  dataKey: string;
-  color: string;
+  dataKey?: string;
+  color?: string;
+  series?: MetricsChartSeries[];
   unit?: string;
   max?: number;
+  height?: number;
+  brush?: MetricsChartBrush;
+  timeFormatter?: (value: number) => string;
 }
 
-export function MetricsChart({ title, data, dataKey, color, unit = "", max }: MetricsChartProps) {
+const formatValue = (value: number | string) => (typeof value === "number" ? Math.round(value * 10) / 10 : value);
+
+export function MetricsChart({
+  title,
+  data,
+  dataKey,
+  color,
+  series,
+  unit = "",
+  max,
+  height = 200,
+  brush,
+  timeFormatter = (value) => new Date(value).toLocaleTimeString(),
+}: MetricsChartProps) {
+  const lines = series || [{ dataKey, name: title, color }];
+
   return (
     <Card className="p-6">
       <h3 className="text-lg font-semibold mb-4">{title}</h3>
-      <ResponsiveContainer width="100%" height={200}>
+      <ResponsiveContainer width="100%" height={brush ? height + 40 : height}>
         <AreaChart data={data}>
           <defs>
-            <linearGradient id={`gradient-${dataKey}`} x1="0" y1="0" x2="0" y2="1">
-              <stop offset="5%" stopColor={color} stopOpacity={0.3} />
-              <stop offset="95%" stopColor={color} stopOpacity={0} />
-            </linearGradient>
+            {lines.map((line) => (
+              <linearGradient key={line.dataKey} id={`gradient-${line.dataKey}`} x1="0" y1="0" x2="0" y2="1">
+                <stop offset="5%" stopColor={line.color} stopOpacity={0.3} />
+                <stop offset="95%" stopColor={line.color} stopOpacity={0} />
+              </linearGradient>
+            ))}
           </defs>
           <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
           <XAxis
             dataKey="time"
             stroke="hsl(var(--muted-foreground))"
             tick={{ fill: "hsl(var(--muted-foreground))" }}
-            tickFormatter={(value) => new Date(value).toLocaleTimeString()}
+            tickFormatter={timeFormatter}
           />
           <YAxis
             stroke="hsl(var(--muted-foreground))"
@@ -41,15 +74,33 @@ export function MetricsChart({ title, data, dataKey, color, unit = "", max }: Me
               borderRadius: "8px",
             }}
             labelFormatter={(value) => new Date(value).toLocaleString()}
-            formatter={(value: any) => [`${value}${unit}`, title]}
-          />
-          <Area
-            type="monotone"
-            dataKey={dataKey}
-            stroke={color}
-            strokeWidth={2}
-            fill={`url(#gradient-${dataKey})`}
+            formatter={(value: any, name: string) => [`${formatValue(value)}${unit}`, name]}
           />
+          {series && <Legend />}
+          {lines.map((line) => (
+            <Area
+              key={line.dataKey}
+              type="monotone"
+              dataKey={line.dataKey}
+              name={line.name}
+              stroke={line.color}
+              strokeWidth={2}
+              fill={`url(#gradient-${line.dataKey})`}
+              isAnimationActive={!brush}
+            />
+          ))}
+          {brush && (
+            <Brush
+              dataKey="time"
+              height={24}
+              stroke="hsl(var(--primary))"
+              fill="hsl(var(--card))"
+              tickFormatter={timeFormatter}
+              startIndex={brush.startIndex}
+              endIndex={brush.endIndex}
+              onChange={(range) => brush.onChange({ startIndex: range.startIndex ?? 0, endIndex: range.endIndex ?? data.length - 1 })}
+            />
+          )}
         </AreaChart>
       </ResponsiveContainer>
     </Card>
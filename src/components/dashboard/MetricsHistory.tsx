@@ -0,0 +1,147 @@
+import { useEffect, useMemo, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MetricsChart } from "@/components/dashboard/MetricsChart";
+import { HISTORY_PERIODS, HistoryPeriod, ServerMetrics, useServerHistory } from "@/lib/metricsClient";
+import type { ServerEndpoint } from "@/lib/settingsApi";
+import { History, Info, ZoomOut } from "lucide-react";
+
+interface MetricsHistoryProps {
+  server: ServerMetrics;
+  endpoint?: ServerEndpoint;
+}
+
+export function MetricsHistory({ server, endpoint }: MetricsHistoryProps) {
+  const [period, setPeriod] = useState<HistoryPeriod>("24h");
+  const [range, setRange] = useState<{ startIndex: number; endIndex: number } | null>(null);
+  const { data: samples = [], isLoading, isError } = useServerHistory(endpoint, server.id, period);
+
+  // A new period or server starts fully zoomed out
+  useEffect(() => {
+    setRange(null);
+  }, [period, server.id]);
+
+  const visible = useMemo(
+    () => (range ? samples.slice(range.startIndex, range.endIndex + 1) : samples),
+    [samples, range]
+  );
+
+  const hasGpu = samples.some((s) => s.gpu !== undefined);
+  const timeFormatter = (value: number) =>
+    period === "7d"
+      ? new Date(value).toLocaleDateString([], { weekday: "short", hour: "2-digit" })
+      : new Date(value).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+  if (!endpoint) {
+    return (
+      <Card className="p-6">
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <Info className="h-5 w-5" />
+          <p>Configure API endpoint in settings to view historical data</p>
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <History className="h-5 w-5 text-muted-foreground" />
+          <span className="text-sm text-muted-foreground">
+            {range && visible.length > 0
+              ? `${new Date(visible[0].time).toLocaleString()} – ${new Date(visible[visible.length - 1].time).toLocaleString()}`
+              : `${samples.length} samples`}
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          {range && (
+            <Button variant="outline" size="sm" onClick={() => setRange(null)}>
+              <ZoomOut className="h-4 w-4 mr-2" />
+              Reset zoom
+            </Button>
+          )}
+          <Select value={period} onValueChange={(value) => setPeriod(value as HistoryPeriod)}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {HISTORY_PERIODS.map((p) => (
+                <SelectItem key={p.value} value={p.value}>
+                  {p.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <Card className="p-6">
+          <p className="text-muted-foreground">Loading history...</p>
+        </Card>
+      ) : isError ? (
+        <Card className="p-6">
+          <p className="text-muted-foreground">Failed to load historical data from {endpoint.name}</p>
+        </Card>
+      ) : samples.length === 0 ? (
+        <Card className="p-6">
+          <p className="text-muted-foreground">No historical data recorded for this period yet</p>
+        </Card>
+      ) : (
+        <>
+          <MetricsChart
+            title="Utilization"
+            data={samples}
+            series={[
+              { dataKey: "cpu", name: "CPU", color: "hsl(var(--chart-1))" },
+              { dataKey: "ram", name: "RAM", color: "hsl(var(--chart-2))" },
+              ...(hasGpu ? [{ dataKey: "gpu", name: "GPU", color: "hsl(var(--chart-3))" }] : []),
+            ]}
+            unit="%"
+            max={100}
+            height={240}
+            brush={{ startIndex: range?.startIndex, endIndex: range?.endIndex, onChange: setRange }}
+            timeFormatter={timeFormatter}
+          />
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <MetricsChart
+              title="Temperature"
+              data={visible}
+              series={[
+                { dataKey: "cpuTemp", name: "CPU", color: "hsl(var(--chart-1))" },
+                { dataKey: "ramTemp", name: "RAM", color: "hsl(var(--chart-2))" },
+                ...(hasGpu ? [{ dataKey: "gpuTemp", name: "GPU", color: "hsl(var(--chart-3))" }] : []),
+              ]}
+              unit="°C"
+              timeFormatter={timeFormatter}
+            />
+            <MetricsChart
+              title="Power"
+              data={visible}
+              series={[
+                { dataKey: "power", name: "Total", color: "hsl(var(--chart-4))" },
+                { dataKey: "powerCpu", name: "CPU", color: "hsl(var(--chart-1))" },
+                ...(hasGpu ? [{ dataKey: "powerGpu", name: "GPU", color: "hsl(var(--chart-5))" }] : []),
+                { dataKey: "powerRam", name: "RAM", color: "hsl(var(--chart-2))" },
+              ]}
+              unit="W"
+              timeFormatter={timeFormatter}
+            />
+            <MetricsChart
+              title="Network"
+              data={visible}
+              series={[
+                { dataKey: "networkIn", name: "In", color: "#3b82f6" },
+                { dataKey: "networkOut", name: "Out", color: "#10b981" },
+              ]}
+              unit=" KB/s"
+              timeFormatter={timeFormatter}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
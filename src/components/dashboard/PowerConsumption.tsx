@@ -1,13 +1,24 @@
 import { Card } from "@/components/ui/card";
-import { ServerMetrics } from "@/pages/Dashboard";
+import { ServerMetrics } from "@/lib/metricsClient";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from "recharts";
 import { Zap } from "lucide-react";
+import { EnergySource, formatEnergy, formatHours, useEnergyReport } from "@/lib/energy";
+import { formatCost, useElectricityCosts } from "@/lib/cost";
+import type { ServerEndpoint } from "@/lib/settingsApi";
 
 interface PowerConsumptionProps {
   server: ServerMetrics;
+  endpoint?: ServerEndpoint;
+  // Every server with energy accounting; servers on the same tiered tariff are priced together
+  fleet: EnergySource[];
 }
 
-export function PowerConsumption({ server }: PowerConsumptionProps) {
+export function PowerConsumption({ server, endpoint, fleet }: PowerConsumptionProps) {
+  const { data: energy } = useEnergyReport(endpoint, server.id, "24h");
+  const measured = energy?.totals;
+  const { servers: costs } = useElectricityCosts(endpoint ? fleet : []);
+  const { tariff, cost, pue = 1 } = costs.find((s) => s.serverId === server.id) || {};
+
   const powerData = [
     { component: "CPU", watts: server.metrics.power.cpu, color: "hsl(var(--chart-1))" },
     { component: "RAM", watts: server.metrics.power.ram, color: "hsl(var(--chart-2))" },
@@ -84,15 +95,59 @@ export function PowerConsumption({ server }: PowerConsumptionProps) {
           </div>
 
           <div className="pt-4 border-t border-border">
-            <div className="flex items-center justify-between text-sm text-muted-foreground">
-              <span>Avg. Hourly Consumption</span>
-              <span className="font-mono">{(server.metrics.power.total / 1000).toFixed(2)} kWh</span>
-            </div>
-            <div className="flex items-center justify-between text-sm text-muted-foreground mt-2">
-              <span>Avg. Daily Consumption</span>
-              <span className="font-mono">{((server.metrics.power.total * 24) / 1000).toFixed(2)} kWh</span>
-            </div>
+            {measured && measured.covered_hours > 0 ? (
+              <>
+                <div className="flex items-center justify-between text-sm text-muted-foreground">
+                  <span>Energy, Last 24 Hours</span>
+                  <span className="font-mono">{formatEnergy(measured.kwh.total)}</span>
+                </div>
+                <div className="flex items-center justify-between text-sm text-muted-foreground mt-2">
+                  <span>Avg. per Measured Hour</span>
+                  <span className="font-mono">{formatEnergy(measured.kwh.total / measured.covered_hours)}</span>
+                </div>
+                <p className="text-xs text-muted-foreground mt-2">
+                  Measured over {formatHours(measured.covered_hours)} of {formatHours(measured.elapsed_hours)}
+                </p>
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Energy totals appear once the agent has recorded power samples.
+              </p>
+            )}
           </div>
+
+          {endpoint && (
+            <div className="pt-4 border-t border-border">
+              {cost ? (
+                <>
+                  <div className="flex items-center justify-between text-sm text-muted-foreground">
+                    <span>Cost Today</span>
+                    <span className="font-mono">{formatCost(cost.today, cost.currency)}</span>
+                  </div>
+                  <div className="flex items-center justify-between text-sm text-muted-foreground mt-2">
+                    <span>Cost This Month</span>
+                    <span className="font-mono">{formatCost(cost.month, cost.currency)}</span>
+                  </div>
+                  {cost.projection !== null && (
+                    <div className="flex items-center justify-between text-sm text-muted-foreground mt-2">
+                      <span>Projected for the Month</span>
+                      <span className="font-mono">{formatCost(cost.projection, cost.currency)}</span>
+                    </div>
+                  )}
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Tariff: {tariff.name}
+                    {pue > 1 && ` · incl. facility overhead (PUE ${pue.toFixed(2)})`}
+                  </p>
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  {tariff
+                    ? "Costs appear once the agent has recorded power samples."
+                    : "No tariff applies to this server. Add one under Settings → Energy."}
+                </p>
+              )}
+            </div>
+          )}
         </div>
       </Card>
     </div>
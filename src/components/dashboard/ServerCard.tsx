@@ -1,17 +1,19 @@
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
-import { ServerMetrics } from "@/pages/Dashboard";
-import { Activity, HardDrive, Cpu, Zap } from "lucide-react";
+import { ServerMetrics } from "@/lib/metricsClient";
+import type { ServerEndpoint } from "@/lib/settingsApi";
+import { Activity, HardDrive, Cpu, Zap, MapPin, Users } from "lucide-react";
 import { cn } from "@/lib/utils";
 
 interface ServerCardProps {
   server: ServerMetrics;
+  endpoint?: ServerEndpoint;
   onClick: () => void;
   isSelected: boolean;
 }
 
-export function ServerCard({ server, onClick, isSelected }: ServerCardProps) {
+export function ServerCard({ server, endpoint, onClick, isSelected }: ServerCardProps) {
   const formatUptime = (seconds: number) => {
     const days = Math.floor(seconds / 86400);
     const hours = Math.floor((seconds % 86400) / 3600);
@@ -51,6 +53,36 @@ export function ServerCard({ server, onClick, isSelected }: ServerCardProps) {
           <span>Uptime: {formatUptime(server.uptime)}</span>
         </div>
 
+        {endpoint && (endpoint.location || endpoint.rack || endpoint.owner || endpoint.tags?.length) ? (
+          <div className="space-y-2">
+            {(endpoint.location || endpoint.rack || endpoint.owner) && (
+              <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+                {(endpoint.location || endpoint.rack) && (
+                  <span className="flex items-center gap-1">
+                    <MapPin className="w-3 h-3" />
+                    {[endpoint.location, endpoint.rack].filter(Boolean).join(" / ")}
+                  </span>
+                )}
+                {endpoint.owner && (
+                  <span className="flex items-center gap-1">
+                    <Users className="w-3 h-3" />
+                    {endpoint.owner}
+                  </span>
+                )}
+              </div>
+            )}
+            {endpoint.tags && endpoint.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {endpoint.tags.map((tag) => (
+                  <Badge key={tag} variant="secondary" className="text-xs">
+                    {tag}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+        ) : null}
+
         <div className="space-y-3">
           <div>
             <div className="flex items-center justify-between mb-1">
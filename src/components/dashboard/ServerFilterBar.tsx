@@ -0,0 +1,64 @@
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Search, X } from "lucide-react";
+import { EMPTY_ENDPOINT_FILTER, EndpointFilter, endpointFacet } from "@/lib/serverEndpoints";
+import type { ServerEndpoint } from "@/lib/settingsApi";
+
+// Radix Select does not allow an empty item value
+const ANY = "__any__";
+
+interface ServerFilterBarProps {
+  endpoints: ServerEndpoint[];
+  filter: EndpointFilter;
+  onChange: (filter: EndpointFilter) => void;
+}
+
+export function ServerFilterBar({ endpoints, filter, onChange }: ServerFilterBarProps) {
+  const facets = [
+    { field: "tag" as const, label: "All tags", options: endpointFacet(endpoints, "tags") },
+    { field: "location" as const, label: "All locations", options: endpointFacet(endpoints, "location") },
+    { field: "owner" as const, label: "All teams", options: endpointFacet(endpoints, "owner") },
+  ].filter((facet) => facet.options.length > 0);
+
+  const isFiltered = Object.values(filter).some(Boolean);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="relative w-[240px]">
+        <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+        <Input
+          className="pl-8"
+          placeholder="Search servers..."
+          value={filter.search}
+          onChange={(e) => onChange({ ...filter, search: e.target.value })}
+        />
+      </div>
+      {facets.map((facet) => (
+        <Select
+          key={facet.field}
+          value={filter[facet.field] || ANY}
+          onValueChange={(value) => onChange({ ...filter, [facet.field]: value === ANY ? "" : value })}
+        >
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>{facet.label}</SelectItem>
+            {facet.options.map((option) => (
+              <SelectItem key={option} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ))}
+      {isFiltered && (
+        <Button variant="ghost" size="sm" onClick={() => onChange(EMPTY_ENDPOINT_FILTER)}>
+          <X className="h-4 w-4 mr-1" />
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+}
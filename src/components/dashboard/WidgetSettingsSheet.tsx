@@ -0,0 +1,161 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Sheet, SheetContent, SheetDescription, SheetFooter, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { AGGREGATE_MODES, AggregateMode } from "@/lib/metricsAggregate";
+import { WidgetConfig, WidgetDataSource, sourceAggregate, widgetSource } from "@/lib/customDashboard";
+import type { ServerEndpoint } from "@/lib/settingsApi";
+
+interface WidgetSettingsSheetProps {
+  widget: WidgetConfig | null;
+  endpoints: ServerEndpoint[];
+  onOpenChange: (open: boolean) => void;
+  onSave: (widget: WidgetConfig) => void;
+}
+
+export function WidgetSettingsSheet({ widget, endpoints, onOpenChange, onSave }: WidgetSettingsSheetProps) {
+  const [title, setTitle] = useState("");
+  const [sourceType, setSourceType] = useState<WidgetDataSource["type"]>("fleet");
+  const [serverId, setServerId] = useState("");
+  const [serverIds, setServerIds] = useState<string[]>([]);
+  const [aggregate, setAggregate] = useState<AggregateMode>("avg");
+
+  useEffect(() => {
+    if (!widget) return;
+    const source = widgetSource(widget);
+    setTitle(widget.title);
+    setSourceType(source.type);
+    setServerId(source.type === "server" ? source.endpointId : endpoints[0]?.id || "");
+    setServerIds(source.type === "servers" ? source.endpointIds : []);
+    setAggregate(sourceAggregate(source));
+  }, [widget, endpoints]);
+
+  const toggleServer = (id: string, checked: boolean) => {
+    setServerIds((ids) => (checked ? [...ids, id] : ids.filter((existing) => existing !== id)));
+  };
+
+  const buildSource = (): WidgetDataSource => {
+    switch (sourceType) {
+      case "server":
+        return { type: "server", endpointId: serverId };
+      case "servers":
+        return { type: "servers", endpointIds: serverIds, aggregate };
+      default:
+        return { type: "fleet", aggregate };
+    }
+  };
+
+  const canSave =
+    (sourceType !== "server" || !!serverId) && (sourceType !== "servers" || serverIds.length > 0);
+
+  const handleSave = () => {
+    if (!widget) return;
+    onSave({ ...widget, title: title.trim() || widget.title, source: buildSource() });
+  };
+
+  return (
+    <Sheet open={!!widget} onOpenChange={onOpenChange}>
+      <SheetContent>
+        <SheetHeader>
+          <SheetTitle>Widget Settings</SheetTitle>
+          <SheetDescription>Choose which servers this widget shows</SheetDescription>
+        </SheetHeader>
+        <div className="space-y-6 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="widget-title">Title</Label>
+            <Input id="widget-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+          </div>
+
+          <div className="space-y-3">
+            <Label>Data Source</Label>
+            <RadioGroup
+              value={sourceType}
+              onValueChange={(value) => setSourceType(value as WidgetDataSource["type"])}
+            >
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="server" id="source-server" />
+                <Label htmlFor="source-server" className="font-normal">Single server</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="servers" id="source-servers" />
+                <Label htmlFor="source-servers" className="font-normal">Selected servers</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="fleet" id="source-fleet" />
+                <Label htmlFor="source-fleet" className="font-normal">Entire fleet</Label>
+              </div>
+            </RadioGroup>
+          </div>
+
+          {sourceType === "server" && (
+            <div className="space-y-2">
+              <Label>Server</Label>
+              <Select value={serverId} onValueChange={setServerId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a server" />
+                </SelectTrigger>
+                <SelectContent>
+                  {endpoints.map((endpoint) => (
+                    <SelectItem key={endpoint.id} value={endpoint.id}>
+                      {endpoint.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {sourceType === "servers" && (
+            <div className="space-y-2">
+              <Label>Servers</Label>
+              <div className="space-y-2 rounded-lg border border-border p-3">
+                {endpoints.map((endpoint) => (
+                  <div key={endpoint.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`source-${endpoint.id}`}
+                      checked={serverIds.includes(endpoint.id)}
+                      onCheckedChange={(checked) => toggleServer(endpoint.id, checked === true)}
+                    />
+                    <Label htmlFor={`source-${endpoint.id}`} className="font-normal">
+                      {endpoint.name}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {sourceType !== "server" && (
+            <div className="space-y-2">
+              <Label>Aggregate</Label>
+              <Select value={aggregate} onValueChange={(value) => setAggregate(value as AggregateMode)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {AGGREGATE_MODES.map((mode) => (
+                    <SelectItem key={mode.value} value={mode.value}>
+                      {mode.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                How values from several servers are combined at each point in time
+              </p>
+            </div>
+          )}
+        </div>
+        <SheetFooter>
+          <Button onClick={handleSave} disabled={!canSave}>
+            Save
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,138 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { useToast } from "@/hooks/use-toast";
+import { CheckCircle2, Loader2, RefreshCw, Send, XCircle } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import * as settingsApi from "@/lib/settingsApi";
+import type { AgentChannelSkipReason, AgentConfigResult } from "@/lib/settingsApi";
+
+const skipReasons: Record<AgentChannelSkipReason, string> = {
+  disabled: "disabled",
+  duplicate: "agents take one channel of each type",
+  unsupported: "agents only send email, Slack and Discord",
+};
+
+function versionBadge(agent: AgentConfigResult, current: string) {
+  if (!agent.ok) return null;
+  if (!agent.version) return <Badge variant="outline">.env only</Badge>;
+  if (agent.version === current) return <Badge variant="secondary">Up to date</Badge>;
+  return <Badge variant="default">Outdated</Badge>;
+}
+
+export function AgentConfigCard() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [pushing, setPushing] = useState(false);
+  const { data: status, isFetching, refetch } = useQuery({
+    queryKey: ["agentConfig"],
+    queryFn: settingsApi.getAgentConfigStatus,
+  });
+
+  const handlePush = async () => {
+    setPushing(true);
+    try {
+      const result = await settingsApi.pushAgentConfig();
+      queryClient.setQueryData(["agentConfig"], result);
+      const failed = result.agents.filter((agent) => !agent.ok).length;
+      toast({
+        title: failed === 0 ? "Config Pushed" : "Config Partly Pushed",
+        description:
+          failed === 0
+            ? `Version ${result.version} sent to ${result.agents.length} agents`
+            : `${failed} of ${result.agents.length} agents did not accept the config`,
+        variant: failed === 0 ? "default" : "destructive",
+      });
+    } catch (error) {
+      console.error("Failed to push config:", error);
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setPushing(false);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold mb-2">Agent Configuration</h3>
+            <p className="text-sm text-muted-foreground">
+              Sends the saved alert thresholds and notification settings to every agent.
+              {status && ` Current version: ${status.version}.`}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="ghost" size="icon" onClick={() => refetch()} disabled={isFetching} title="Refresh">
+              <RefreshCw className={`h-4 w-4 ${isFetching ? "animate-spin" : ""}`} />
+            </Button>
+            <Button onClick={handlePush} disabled={pushing || (status && !status.token_configured)}>
+              {pushing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+              Push to Agents
+            </Button>
+          </div>
+        </div>
+
+        {status && !status.token_configured && (
+          <p className="text-sm text-destructive">
+            Set AGENT_CONFIG_TOKEN on the dashboard server and CONFIG_TOKEN on each agent to enable pushing.
+          </p>
+        )}
+
+        {status && (
+          <div className="space-y-1 text-sm">
+            <p>
+              <span className="text-muted-foreground">Channels sent to agents: </span>
+              {status.channels.distributed.length > 0
+                ? status.channels.distributed.map((channel) => channel.name).join(", ")
+                : "none, agents use their own .env settings"}
+            </p>
+            {status.channels.skipped.map((channel) => (
+              <p key={channel.id} className="text-muted-foreground">
+                Not sent: {channel.name} ({skipReasons[channel.reason]})
+              </p>
+            ))}
+          </div>
+        )}
+
+        <Separator />
+
+        <div className="space-y-2">
+          {status?.agents.map((agent) => (
+            <div key={agent.endpoint_id} className="flex items-center gap-3 text-sm">
+              {agent.ok ? (
+                <CheckCircle2 className="h-4 w-4 text-green-500" />
+              ) : (
+                <XCircle className="h-4 w-4 text-destructive" />
+              )}
+              <span className="font-medium flex-1">{agent.name}</span>
+              {agent.ok ? (
+                <>
+                  <span className="font-mono text-muted-foreground">{agent.version || "—"}</span>
+                  {agent.updated_at && (
+                    <span className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(agent.updated_at), { addSuffix: true })}
+                    </span>
+                  )}
+                  {versionBadge(agent, status.version)}
+                </>
+              ) : (
+                <span className="text-destructive">{agent.error}</span>
+              )}
+            </div>
+          ))}
+          {status?.agents.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">No server endpoints configured.</p>
+          )}
+        </div>
+      </div>
+    </Card>
+  );
+}
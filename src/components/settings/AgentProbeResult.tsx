@@ -0,0 +1,41 @@
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle2, XCircle } from "lucide-react";
+import { AGENT_FEATURES, AgentCapabilities } from "@/lib/agentProbe";
+
+interface AgentProbeResultProps {
+  capabilities: AgentCapabilities;
+}
+
+export function AgentProbeResult({ capabilities }: AgentProbeResultProps) {
+  if (!capabilities.reachable) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-destructive">
+        <XCircle className="h-4 w-4" />
+        <span>Connection failed{capabilities.error ? `: ${capabilities.error}` : ""}</span>
+      </div>
+    );
+  }
+
+  const details = [
+    capabilities.latencyMs !== undefined && `${capabilities.latencyMs} ms`,
+    capabilities.agentVersion && `Agent v${capabilities.agentVersion}`,
+    capabilities.os,
+    capabilities.gpu ? `GPU ${capabilities.gpu}` : "No GPU",
+  ].filter(Boolean);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-sm">
+        <CheckCircle2 className="h-4 w-4 text-green-500" />
+        <span>{details.join(" · ")}</span>
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {AGENT_FEATURES.map((feature) => (
+          <Badge key={feature.value} variant={capabilities.features[feature.value] ? "secondary" : "outline"}>
+            {feature.label}: {capabilities.features[feature.value] ? "available" : "unavailable"}
+          </Badge>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { endpointFacet } from "@/lib/serverEndpoints";
+import { AlertRuleDraft, NEW_RULE, RULE_METRICS, RULE_SEVERITIES } from "@/lib/alertRules";
+import type { AlertRule, RuleMetric, RuleSeverity, ServerEndpoint } from "@/lib/settingsApi";
+
+interface AlertRuleDialogProps {
+  rule: AlertRuleDraft | null;
+  endpoints: ServerEndpoint[];
+  onOpenChange: (open: boolean) => void;
+  onSave: (rule: AlertRuleDraft) => void;
+}
+
+export function AlertRuleDialog({ rule, endpoints, onOpenChange, onSave }: AlertRuleDialogProps) {
+  const [draft, setDraft] = useState<AlertRuleDraft>(NEW_RULE);
+  const tags = endpointFacet(endpoints, "tags");
+  const unit = RULE_METRICS.find((m) => m.value === draft.metric)?.unit;
+
+  useEffect(() => {
+    if (rule) setDraft(rule);
+  }, [rule]);
+
+  const update = (changes: Partial<AlertRuleDraft>) => setDraft((current) => ({ ...current, ...changes }));
+
+  const canSave =
+    !!draft.name.trim() &&
+    !Number.isNaN(draft.threshold) &&
+    draft.duration_seconds >= 0 &&
+    draft.hysteresis >= 0 &&
+    (draft.scope_type === "global" || !!draft.scope_value);
+
+  return (
+    <Dialog open={!!rule} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{rule?.id ? "Edit Rule" : "New Rule"}</DialogTitle>
+          <DialogDescription>Evaluated by the dashboard server every time it polls the agents</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="rule-name">Name</Label>
+            <Input
+              id="rule-name"
+              placeholder="Sustained high CPU"
+              value={draft.name}
+              onChange={(e) => update({ name: e.target.value })}
+            />
+          </div>
+
+          <div className="grid grid-cols-[1fr_80px_1fr] gap-2 items-end">
+            <div className="space-y-2">
+              <Label>Condition</Label>
+              <Select value={draft.metric} onValueChange={(value) => update({ metric: value as RuleMetric })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RULE_METRICS.map((metric) => (
+                    <SelectItem key={metric.value} value={metric.value}>
+                      {metric.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Select value={draft.operator} onValueChange={(value) => update({ operator: value as AlertRule["operator"] })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value=">">&gt;</SelectItem>
+                <SelectItem value="<">&lt;</SelectItem>
+              </SelectContent>
+            </Select>
+            <div className="relative">
+              <Input
+                type="number"
+                value={draft.threshold}
+                onChange={(e) => update({ threshold: parseFloat(e.target.value) })}
+              />
+              <span className="absolute right-3 top-2.5 text-sm text-muted-foreground">{unit}</span>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule-duration">For (minutes)</Label>
+              <Input
+                id="rule-duration"
+                type="number"
+                min="0"
+                step="0.5"
+                value={draft.duration_seconds / 60}
+                onChange={(e) => update({ duration_seconds: Math.round(parseFloat(e.target.value || "0") * 60) })}
+              />
+              <p className="text-xs text-muted-foreground">0 fires on the first poll over the threshold</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-hysteresis">Hysteresis ({unit})</Label>
+              <Input
+                id="rule-hysteresis"
+                type="number"
+                min="0"
+                value={draft.hysteresis}
+                onChange={(e) => update({ hysteresis: parseFloat(e.target.value || "0") })}
+              />
+              <p className="text-xs text-muted-foreground">How far back past the threshold before it clears</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Severity</Label>
+              <Select value={draft.severity} onValueChange={(value) => update({ severity: value as RuleSeverity })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RULE_SEVERITIES.map((severity) => (
+                    <SelectItem key={severity.value} value={severity.value}>
+                      {severity.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Applies To</Label>
+              <Select
+                value={draft.scope_type}
+                onValueChange={(value) =>
+                  update({ scope_type: value as AlertRule["scope_type"], scope_value: null })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="global">All servers</SelectItem>
+                  <SelectItem value="server">One server</SelectItem>
+                  <SelectItem value="tag" disabled={tags.length === 0}>
+                    Servers with tag
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {draft.scope_type !== "global" && (
+            <div className="space-y-2">
+              <Label>{draft.scope_type === "server" ? "Server" : "Tag"}</Label>
+              <Select value={draft.scope_value || undefined} onValueChange={(value) => update({ scope_value: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder={draft.scope_type === "server" ? "Select a server" : "Select a tag"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {draft.scope_type === "server"
+                    ? endpoints.map((endpoint) => (
+                        <SelectItem key={endpoint.id} value={endpoint.id}>
+                          {endpoint.name}
+                        </SelectItem>
+                      ))
+                    : tags.map((tag) => (
+                        <SelectItem key={tag} value={tag}>
+                          {tag}
+                        </SelectItem>
+                      ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Rules for a server replace tag rules for the same metric, which replace rules for all servers
+              </p>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button onClick={() => onSave({ ...draft, name: draft.name.trim() })} disabled={!canSave}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
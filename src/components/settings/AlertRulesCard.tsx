@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { AlertRuleDialog } from "@/components/settings/AlertRuleDialog";
+import { AlertRuleDraft, NEW_RULE, describeRule, describeRuleScope } from "@/lib/alertRules";
+import * as settingsApi from "@/lib/settingsApi";
+import type { AlertRule, ServerEndpoint } from "@/lib/settingsApi";
+
+const severityColors = {
+  info: "secondary",
+  warning: "default",
+  error: "destructive",
+} as const;
+
+interface AlertRulesCardProps {
+  endpoints: ServerEndpoint[];
+}
+
+export function AlertRulesCard({ endpoints }: AlertRulesCardProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<AlertRuleDraft | null>(null);
+  const { data: rules = [], isError } = useQuery({
+    queryKey: ["alertRules"],
+    queryFn: settingsApi.getAlertRules,
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["alertRules"] });
+
+  const handleSave = async ({ id, ...rule }: AlertRuleDraft) => {
+    try {
+      if (id) await settingsApi.updateAlertRule(id, rule);
+      else await settingsApi.createAlertRule(rule);
+      await refresh();
+      setEditing(null);
+      toast({
+        title: "Rule Saved",
+        description: `${rule.name} is evaluated on the next poll`,
+      });
+    } catch (error) {
+      console.error("Failed to save rule:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save alert rule to database",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleToggle = async (rule: AlertRule, enabled: boolean) => {
+    try {
+      await settingsApi.updateAlertRule(rule.id, { enabled });
+      await refresh();
+    } catch (error) {
+      console.error("Failed to update rule:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update alert rule",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (rule: AlertRule) => {
+    try {
+      await settingsApi.deleteAlertRule(rule.id);
+      await refresh();
+      toast({
+        title: "Rule Removed",
+        description: `${rule.name} removed`,
+      });
+    } catch (error) {
+      console.error("Failed to delete rule:", error);
+      toast({
+        title: "Error",
+        description: "Failed to remove alert rule from database",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold mb-2">Alert Rules</h3>
+            <p className="text-sm text-muted-foreground">
+              The dashboard server checks these rules against every agent it polls. Alerts appear on the Alerts page.
+            </p>
+          </div>
+          <Button onClick={() => setEditing(NEW_RULE)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Rule
+          </Button>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-3">
+          {rules.map((rule) => (
+            <div
+              key={rule.id}
+              className="flex items-center gap-3 p-4 bg-muted/30 rounded-lg border border-border"
+            >
+              <Switch checked={rule.enabled} onCheckedChange={(checked) => handleToggle(rule, checked)} />
+              <div className="flex-1 space-y-1">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium">{rule.name}</p>
+                  <Badge variant={severityColors[rule.severity]} className="uppercase">
+                    {rule.severity}
+                  </Badge>
+                  <Badge variant="outline">{describeRuleScope(rule, endpoints)}</Badge>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {describeRule(rule)}
+                  {rule.hysteresis > 0 && ` · clears ${rule.hysteresis} ${rule.operator === ">" ? "below" : "above"}`}
+                </p>
+              </div>
+              <Button variant="ghost" size="icon" onClick={() => setEditing(rule)}>
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => handleDelete(rule)}
+                className="hover:bg-destructive/10 hover:text-destructive"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          {rules.length === 0 && (
+            <div className="text-center py-8 text-muted-foreground">
+              <p className="text-sm">
+                {isError ? "Could not load rules from the settings server." : "No alert rules configured."}
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <AlertRuleDialog
+        rule={editing}
+        endpoints={endpoints}
+        onOpenChange={(open) => !open && setEditing(null)}
+        onSave={handleSave}
+      />
+    </Card>
+  );
+}
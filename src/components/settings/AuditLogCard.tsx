@@ -0,0 +1,212 @@
+import { Fragment, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChevronDown, ChevronRight, RefreshCw } from "lucide-react";
+import { format, subDays } from "date-fns";
+import * as settingsApi from "@/lib/settingsApi";
+import type { AuditAction, AuditEntityType, AuditEntry } from "@/lib/settingsApi";
+
+const entityLabels: Record<AuditEntityType, string> = {
+  server: "Server",
+  alert_thresholds: "Alert thresholds",
+  alert_rule: "Alert rule",
+  alert_state: "Alert",
+  notification_channel: "Notification channel",
+  agent_config: "Agent config",
+  dashboard: "Dashboard",
+  user: "User",
+  carbon_intensity: "Carbon intensity",
+  tariff: "Tariff",
+  facility: "Facility",
+};
+
+const actionColors: Record<AuditAction, "default" | "secondary" | "destructive" | "outline"> = {
+  create: "default",
+  update: "secondary",
+  delete: "destructive",
+  push: "outline",
+};
+
+const periods = [
+  { value: "1", label: "Last 24 hours" },
+  { value: "7", label: "Last 7 days" },
+  { value: "30", label: "Last 30 days" },
+  { value: "all", label: "All time" },
+];
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 120 ? `${text.slice(0, 120)}…` : text;
+}
+
+function ChangeList({ changes }: { changes: AuditEntry["changes"] }) {
+  return (
+    <div className="space-y-1 font-mono text-xs">
+      {Object.entries(changes).map(([field, { before, after }]) => (
+        <div key={field} className="grid grid-cols-[180px_1fr] gap-2">
+          <span className="text-muted-foreground truncate">{field}</span>
+          <span>
+            <span className="text-destructive line-through">{formatValue(before)}</span>
+            {" → "}
+            <span className="text-primary">{formatValue(after)}</span>
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function AuditLogCard() {
+  const [entityType, setEntityType] = useState<AuditEntityType | "all">("all");
+  const [action, setAction] = useState<AuditAction | "all">("all");
+  const [actor, setActor] = useState("");
+  const [period, setPeriod] = useState("7");
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+  const { data: entries = [], isError, isFetching, refetch } = useQuery({
+    queryKey: ["auditLog", entityType, action, actor.trim(), period],
+    queryFn: () =>
+      settingsApi.getAuditLog({
+        entity_type: entityType === "all" ? undefined : entityType,
+        action: action === "all" ? undefined : action,
+        actor: actor.trim() || undefined,
+        since: period === "all" ? undefined : subDays(new Date(), Number(period)).toISOString(),
+      }),
+  });
+
+  const toggle = (id: number) =>
+    setExpanded((current) => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  return (
+    <Card className="p-6">
+      <div className="space-y-4">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold mb-2">Audit Log</h3>
+            <p className="text-sm text-muted-foreground">
+              Every change to servers, rules, channels, dashboards and users, with who made it.
+            </p>
+          </div>
+          <Button variant="ghost" size="icon" onClick={() => refetch()} disabled={isFetching} title="Refresh">
+            <RefreshCw className={`h-4 w-4 ${isFetching ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Select value={entityType} onValueChange={(value) => setEntityType(value as AuditEntityType | "all")}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Everything</SelectItem>
+              {Object.entries(entityLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={action} onValueChange={(value) => setAction(value as AuditAction | "all")}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All actions</SelectItem>
+              <SelectItem value="create">Created</SelectItem>
+              <SelectItem value="update">Updated</SelectItem>
+              <SelectItem value="delete">Deleted</SelectItem>
+              <SelectItem value="push">Pushed</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={period} onValueChange={setPeriod}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {periods.map((p) => (
+                <SelectItem key={p.value} value={p.value}>
+                  {p.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            className="w-[180px]"
+            placeholder="Username"
+            value={actor}
+            onChange={(e) => setActor(e.target.value)}
+          />
+        </div>
+
+        {entries.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead>Time</TableHead>
+                <TableHead>User</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>What</TableHead>
+                <TableHead>Changes</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => {
+                const fields = Object.keys(entry.changes);
+                const open = expanded.has(entry.id);
+                return (
+                  <Fragment key={entry.id}>
+                    <TableRow className="cursor-pointer" onClick={() => toggle(entry.id)}>
+                      <TableCell>
+                        {open ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap text-muted-foreground">
+                        {format(new Date(entry.timestamp), "MMM d, HH:mm:ss")}
+                      </TableCell>
+                      <TableCell>{entry.actor}</TableCell>
+                      <TableCell>
+                        <Badge variant={actionColors[entry.action]}>{entry.action}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        {entry.entity_name || entry.entity_id}
+                        <p className="text-xs text-muted-foreground">
+                          {entityLabels[entry.entity_type] || entry.entity_type}
+                        </p>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {fields.slice(0, 3).join(", ")}
+                        {fields.length > 3 && ` +${fields.length - 3} more`}
+                      </TableCell>
+                    </TableRow>
+                    {open && (
+                      <TableRow className="hover:bg-transparent">
+                        <TableCell />
+                        <TableCell colSpan={5}>
+                          <ChangeList changes={entry.changes} />
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            {isError ? "Could not load the audit log from the settings server." : "No changes recorded."}
+          </p>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,318 @@
+import { useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { FileUp, Pencil, Plus, Trash2 } from "lucide-react";
+import { DEFAULT_SITE, parseIntensityProfileCsv, useCarbonIntensities } from "@/lib/carbon";
+import * as settingsApi from "@/lib/settingsApi";
+import type { CarbonIntensity, ServerEndpoint } from "@/lib/settingsApi";
+
+type IntensityMode = "static" | "profile";
+
+interface IntensityDraft {
+  site: string;
+  isNew: boolean;
+  mode: IntensityMode;
+  g_per_kwh: string;
+  profile: number[] | null;
+  timezone: string;
+}
+
+const siteLabel = (site: string) => (site === DEFAULT_SITE ? "Default" : site);
+
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+function toDraft(intensity?: CarbonIntensity, site = ""): IntensityDraft {
+  return {
+    site: intensity?.site ?? site,
+    isNew: !intensity,
+    mode: intensity?.profile ? "profile" : "static",
+    g_per_kwh: intensity ? String(intensity.g_per_kwh) : "",
+    profile: intensity?.profile ?? null,
+    timezone: intensity?.timezone ?? "",
+  };
+}
+
+function ProfileBars({ profile }: { profile: number[] }) {
+  const max = Math.max(...profile, 1);
+  return (
+    <div className="flex items-end gap-px h-10" title="gCO2e/kWh per hour, 00:00 to 23:00">
+      {profile.map((value, hour) => (
+        <div
+          key={hour}
+          className="flex-1 bg-green-500/60 rounded-sm"
+          style={{ height: `${Math.max((value / max) * 100, 4)}%` }}
+          title={`${String(hour).padStart(2, "0")}:00 ${value} gCO2e/kWh`}
+        />
+      ))}
+    </div>
+  );
+}
+
+interface CarbonIntensityCardProps {
+  endpoints: ServerEndpoint[];
+}
+
+export function CarbonIntensityCard({ endpoints }: CarbonIntensityCardProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [draft, setDraft] = useState<IntensityDraft | null>(null);
+  const { data: intensities = [], isError } = useCarbonIntensities();
+
+  const configuredSites = new Set(intensities.map((i) => i.site.toLowerCase()));
+  const unconfiguredLocations = [
+    ...new Set(endpoints.map((e) => e.location?.trim()).filter(Boolean)),
+  ].filter((location) => !configuredSites.has(location.toLowerCase()));
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["carbonIntensity"] });
+
+  const showError = (error: unknown) =>
+    toast({
+      title: "Error",
+      description: (error as Error).message,
+      variant: "destructive",
+    });
+
+  const handleImport = async (file: File) => {
+    try {
+      const profile = parseIntensityProfileCsv(await file.text());
+      setDraft((current) => current && { ...current, mode: "profile", profile });
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const profile = draft.mode === "profile" ? draft.profile : null;
+    try {
+      await settingsApi.saveCarbonIntensity({
+        site: draft.site.trim(),
+        // The profile average is kept as the static value so switching back starts from something sensible
+        g_per_kwh: profile ? Math.round(average(profile)) : Number(draft.g_per_kwh),
+        profile,
+        timezone: profile ? draft.timezone.trim() || null : null,
+      });
+      await refresh();
+      setDraft(null);
+      toast({
+        title: "Carbon Intensity Saved",
+        description: `${siteLabel(draft.site.trim())} updated`,
+      });
+    } catch (error) {
+      console.error("Failed to save carbon intensity:", error);
+      showError(error);
+    }
+  };
+
+  const handleDelete = async (intensity: CarbonIntensity) => {
+    try {
+      await settingsApi.deleteCarbonIntensity(intensity.site);
+      await refresh();
+      toast({
+        title: "Carbon Intensity Removed",
+        description: `Servers at ${intensity.site} now use the default intensity`,
+      });
+    } catch (error) {
+      console.error("Failed to delete carbon intensity:", error);
+      showError(error);
+    }
+  };
+
+  const canSave =
+    !!draft?.site.trim() &&
+    (draft.mode === "profile" ? !!draft.profile : draft.g_per_kwh !== "" && Number(draft.g_per_kwh) >= 0);
+
+  return (
+    <Card className="p-6">
+      <div className="space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold mb-2">Grid Carbon Intensity</h3>
+            <p className="text-sm text-muted-foreground">
+              Used to estimate CO2e from measured energy. A site matches the Location of a server; servers
+              without a matching site use the default.
+            </p>
+          </div>
+          <Button variant="outline" onClick={() => setDraft(toDraft())}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Site
+          </Button>
+        </div>
+
+        <div className="space-y-3">
+          {intensities.map((intensity) => (
+            <div
+              key={intensity.site}
+              className="flex items-center gap-4 p-4 bg-muted/30 rounded-lg border border-border"
+            >
+              <div className="w-48 space-y-1">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium">{siteLabel(intensity.site)}</p>
+                  {intensity.site === DEFAULT_SITE && <Badge variant="secondary">Fallback</Badge>}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {endpoints.filter((e) => e.location?.trim().toLowerCase() === intensity.site.toLowerCase()).length}{" "}
+                  servers
+                </p>
+              </div>
+              <div className="flex-1">
+                {intensity.profile ? (
+                  <div className="space-y-1">
+                    <ProfileBars profile={intensity.profile} />
+                    <p className="text-xs text-muted-foreground">
+                      {Math.min(...intensity.profile)}–{Math.max(...intensity.profile)} gCO2e/kWh by hour
+                      {intensity.timezone ? `, ${intensity.timezone}` : ", browser time zone"}
+                    </p>
+                  </div>
+                ) : (
+                  <p className="font-mono">{intensity.g_per_kwh} gCO2e/kWh</p>
+                )}
+              </div>
+              <Button variant="ghost" size="icon" title="Edit" onClick={() => setDraft(toDraft(intensity))}>
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => handleDelete(intensity)}
+                disabled={intensity.site === DEFAULT_SITE}
+                className="hover:bg-destructive/10 hover:text-destructive"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          {intensities.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              {isError ? "Could not load carbon intensity from the settings server." : "No sites configured."}
+            </p>
+          )}
+        </div>
+
+        {unconfiguredLocations.length > 0 && (
+          <>
+            <Separator />
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">Server locations using the default intensity</p>
+              <div className="flex flex-wrap gap-2">
+                {unconfiguredLocations.map((location) => (
+                  <Button key={location} variant="outline" size="sm" onClick={() => setDraft(toDraft(undefined, location))}>
+                    <Plus className="h-3 w-3 mr-1" />
+                    {location}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{draft?.isNew ? "Add Site" : `Edit ${siteLabel(draft?.site ?? "")}`}</DialogTitle>
+            <DialogDescription>
+              Use a fixed value, or import a CSV of hour and gCO2e/kWh rows (for example "07:00,320"). Hours
+              that are not listed keep the previous hour's value.
+            </DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              {draft.isNew && (
+                <div className="space-y-2">
+                  <Label htmlFor="carbon-site">Site</Label>
+                  <Input
+                    id="carbon-site"
+                    placeholder="Same as the servers' Location"
+                    value={draft.site}
+                    onChange={(e) => setDraft({ ...draft, site: e.target.value })}
+                  />
+                </div>
+              )}
+              <RadioGroup
+                value={draft.mode}
+                onValueChange={(mode) => setDraft({ ...draft, mode: mode as IntensityMode })}
+                className="flex gap-6"
+              >
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="static" id="carbon-static" />
+                  <Label htmlFor="carbon-static">Fixed value</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="profile" id="carbon-profile" />
+                  <Label htmlFor="carbon-profile">Time-of-day profile</Label>
+                </div>
+              </RadioGroup>
+              {draft.mode === "static" ? (
+                <div className="space-y-2">
+                  <Label htmlFor="carbon-value">gCO2e/kWh</Label>
+                  <Input
+                    id="carbon-value"
+                    type="number"
+                    min="0"
+                    value={draft.g_per_kwh}
+                    onChange={(e) => setDraft({ ...draft, g_per_kwh: e.target.value })}
+                  />
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {draft.profile ? (
+                    <ProfileBars profile={draft.profile} />
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No profile imported yet</p>
+                  )}
+                  <Button variant="outline" onClick={() => fileInput.current?.click()}>
+                    <FileUp className="h-4 w-4 mr-2" />
+                    Import CSV
+                  </Button>
+                  <div className="space-y-2">
+                    <Label htmlFor="carbon-timezone">Time Zone</Label>
+                    <Input
+                      id="carbon-timezone"
+                      placeholder="e.g. Europe/Berlin, empty for the browser's"
+                      value={draft.timezone}
+                      onChange={(e) => setDraft({ ...draft, timezone: e.target.value })}
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button onClick={handleSave} disabled={!canSave}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <input
+        ref={fileInput}
+        type="file"
+        accept="text/csv,.csv,.txt"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleImport(file);
+          e.target.value = "";
+        }}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,269 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Gauge, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { endpointFacet } from "@/lib/serverEndpoints";
+import { DEFAULT_FACILITY_SITE, useFacilities } from "@/lib/facility";
+import * as settingsApi from "@/lib/settingsApi";
+import type { ServerEndpoint, SiteFacility } from "@/lib/settingsApi";
+
+interface FacilityDraft {
+  site: string;
+  isNew: boolean;
+  pue: string;
+  meter_url: string;
+  meter_field: string;
+}
+
+const siteLabel = (site: string) => (site === DEFAULT_FACILITY_SITE ? "Default" : site);
+
+function toDraft(facility?: SiteFacility, site = ""): FacilityDraft {
+  return {
+    site: facility?.site ?? site,
+    isNew: !facility,
+    pue: facility ? String(facility.pue) : "1.5",
+    meter_url: facility?.meter_url ?? "",
+    meter_field: facility?.meter_field ?? "",
+  };
+}
+
+interface FacilitiesCardProps {
+  endpoints: ServerEndpoint[];
+}
+
+export function FacilitiesCard({ endpoints }: FacilitiesCardProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<FacilityDraft | null>(null);
+  const [readingSite, setReadingSite] = useState<string | null>(null);
+  const { data: facilities = [], isError } = useFacilities();
+  const configured = new Set(facilities.map((f) => f.site.toLowerCase()));
+  const unconfiguredLocations = endpointFacet(endpoints, "location").filter(
+    (location) => !configured.has(location.toLowerCase())
+  );
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["facilities"] });
+
+  const showError = (error: unknown) =>
+    toast({
+      title: "Error",
+      description: (error as Error).message,
+      variant: "destructive",
+    });
+
+  const handleSave = async () => {
+    if (!draft) return;
+    try {
+      await settingsApi.saveFacility({
+        site: draft.site.trim(),
+        pue: Number(draft.pue),
+        meter_url: draft.meter_url.trim() || null,
+        meter_field: draft.meter_field.trim() || null,
+      });
+      await Promise.all([refresh(), queryClient.invalidateQueries({ queryKey: ["facilityMeter"] })]);
+      setDraft(null);
+      toast({
+        title: "Facility Saved",
+        description: `${siteLabel(draft.site.trim())} updated`,
+      });
+    } catch (error) {
+      console.error("Failed to save facility:", error);
+      showError(error);
+    }
+  };
+
+  const handleDelete = async (facility: SiteFacility) => {
+    try {
+      await settingsApi.deleteFacility(facility.site);
+      await refresh();
+      toast({
+        title: "Facility Removed",
+        description: `${siteLabel(facility.site)} has no overhead any more`,
+      });
+    } catch (error) {
+      console.error("Failed to delete facility:", error);
+      showError(error);
+    }
+  };
+
+  const handleReadMeter = async (facility: SiteFacility) => {
+    setReadingSite(facility.site);
+    try {
+      const reading = await settingsApi.readFacilityMeter(facility.site);
+      toast({
+        title: "Meter Reading",
+        description: `${siteLabel(facility.site)} draws ${Math.round(reading.watts)}W`,
+      });
+    } catch (error) {
+      showError(error);
+    } finally {
+      setReadingSite(null);
+    }
+  };
+
+  const canSave = !!draft?.site.trim() && draft.pue !== "" && Number(draft.pue) >= 1;
+
+  return (
+    <Card className="p-6">
+      <div className="space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold mb-2">Facility Overhead</h3>
+            <p className="text-sm text-muted-foreground">
+              PUE per site (facility power divided by IT power) for cooling and distribution losses. A facility
+              meter shows the measured facility power next to it. Carbon and cost include the overhead when it is
+              switched on in the Power tab.
+            </p>
+          </div>
+          <Button variant="outline" onClick={() => setDraft(toDraft())}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Site
+          </Button>
+        </div>
+
+        <div className="space-y-3">
+          {facilities.map((facility) => (
+            <div
+              key={facility.site}
+              className="flex items-center gap-4 p-4 bg-muted/30 rounded-lg border border-border"
+            >
+              <div className="flex-1 space-y-1">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium">{siteLabel(facility.site)}</p>
+                  <Badge variant="secondary">PUE {facility.pue.toFixed(2)}</Badge>
+                  {facility.site === DEFAULT_FACILITY_SITE && <Badge variant="outline">Fallback</Badge>}
+                </div>
+                <p className="text-sm text-muted-foreground truncate">
+                  {facility.meter_url
+                    ? `Meter ${facility.meter_url}${facility.meter_field ? ` → ${facility.meter_field}` : ""}`
+                    : "No meter"}
+                </p>
+              </div>
+              {facility.meter_url && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleReadMeter(facility)}
+                  disabled={readingSite !== null}
+                >
+                  {readingSite === facility.site ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Gauge className="h-4 w-4 mr-2" />
+                  )}
+                  Read Meter
+                </Button>
+              )}
+              <Button variant="ghost" size="icon" title="Edit" onClick={() => setDraft(toDraft(facility))}>
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => handleDelete(facility)}
+                className="hover:bg-destructive/10 hover:text-destructive"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          {facilities.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              {isError ? "Could not load facilities from the settings server." : "No sites configured."}
+            </p>
+          )}
+        </div>
+
+        {unconfiguredLocations.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">Server locations without a PUE</p>
+            <div className="flex flex-wrap gap-2">
+              {unconfiguredLocations.map((location) => (
+                <Button key={location} variant="outline" size="sm" onClick={() => setDraft(toDraft(undefined, location))}>
+                  <Plus className="h-3 w-3 mr-1" />
+                  {location}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{draft?.isNew ? "Add Site" : `Edit ${siteLabel(draft?.site ?? "")}`}</DialogTitle>
+            <DialogDescription>
+              Use "{DEFAULT_FACILITY_SITE}" as the site to cover servers whose location has no settings of its own.
+            </DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              {draft.isNew && (
+                <div className="space-y-2">
+                  <Label htmlFor="facility-site">Site</Label>
+                  <Input
+                    id="facility-site"
+                    placeholder="Same as the servers' Location"
+                    value={draft.site}
+                    onChange={(e) => setDraft({ ...draft, site: e.target.value })}
+                  />
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="facility-pue">PUE</Label>
+                <Input
+                  id="facility-pue"
+                  type="number"
+                  min="1"
+                  step="0.05"
+                  value={draft.pue}
+                  onChange={(e) => setDraft({ ...draft, pue: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">1.0 means no overhead; typical data centers are 1.2–1.8</p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="facility-meter-url">Facility Meter URL (optional)</Label>
+                <Input
+                  id="facility-meter-url"
+                  placeholder="http://meter.local/api/power"
+                  value={draft.meter_url}
+                  onChange={(e) => setDraft({ ...draft, meter_url: e.target.value })}
+                />
+              </div>
+              {draft.meter_url.trim() && (
+                <div className="space-y-2">
+                  <Label htmlFor="facility-meter-field">Watts Field</Label>
+                  <Input
+                    id="facility-meter-field"
+                    placeholder="e.g. data.power, empty if the meter answers a bare number"
+                    value={draft.meter_field}
+                    onChange={(e) => setDraft({ ...draft, meter_field: e.target.value })}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button onClick={handleSave} disabled={!canSave}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
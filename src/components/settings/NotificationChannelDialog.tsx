@@ -0,0 +1,173 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  CHANNEL_TYPES,
+  DEFAULT_TEMPLATE,
+  NotificationChannelDraft,
+  TEMPLATE_PLACEHOLDERS,
+  missingChannelFields,
+  newChannel,
+} from "@/lib/notificationChannels";
+import type { NotificationChannelType, NotificationTemplate } from "@/lib/settingsApi";
+
+interface NotificationChannelDialogProps {
+  channel: NotificationChannelDraft | null;
+  onOpenChange: (open: boolean) => void;
+  onSave: (channel: NotificationChannelDraft) => void;
+}
+
+export function NotificationChannelDialog({ channel, onOpenChange, onSave }: NotificationChannelDialogProps) {
+  const [draft, setDraft] = useState<NotificationChannelDraft>(newChannel("slack"));
+  const typeInfo = CHANNEL_TYPES[draft.type];
+
+  useEffect(() => {
+    if (channel) setDraft(channel);
+  }, [channel]);
+
+  const updateConfig = (key: string, value: string) =>
+    setDraft((current) => ({ ...current, config: { ...current.config, [key]: value } }));
+
+  // Sends an empty value, which clears the stored secret on save
+  const removeSecret = (key: string) =>
+    setDraft((current) => ({
+      ...current,
+      config: { ...current.config, [key]: "" },
+      secrets: current.secrets?.filter((secret) => secret !== key),
+    }));
+
+  const updateTemplate = (changes: NotificationTemplate) =>
+    setDraft((current) => ({ ...current, template: { ...current.template, ...changes } }));
+
+  const canSave = !!draft.name.trim() && missingChannelFields(draft).length === 0;
+
+  const handleSave = () => {
+    const title = draft.template?.title?.trim();
+    const body = draft.template?.body?.trim();
+    onSave({
+      ...draft,
+      name: draft.name.trim(),
+      template: title || body ? { title, body } : null,
+    });
+  };
+
+  return (
+    <Dialog open={!!channel} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{channel?.id ? "Edit Channel" : "New Channel"}</DialogTitle>
+          <DialogDescription>{typeInfo.description}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {!channel?.id && (
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select
+                value={draft.type}
+                onValueChange={(value) => setDraft(newChannel(value as NotificationChannelType))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(CHANNEL_TYPES).map(([value, info]) => (
+                    <SelectItem key={value} value={value}>
+                      {info.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="channel-name">Name</Label>
+            <Input
+              id="channel-name"
+              placeholder="On-call Slack"
+              value={draft.name}
+              onChange={(e) => setDraft((current) => ({ ...current, name: e.target.value }))}
+            />
+          </div>
+
+          {typeInfo.fields.map((field) => {
+            const stored = field.secret && draft.secrets?.includes(field.key);
+            const unreadable = field.secret && draft.secrets_unreadable?.includes(field.key);
+            return (
+              <div key={field.key} className="space-y-2">
+                <Label htmlFor={`channel-${field.key}`}>
+                  {field.label}
+                  {field.required && " *"}
+                </Label>
+                <div className="flex gap-2">
+                  <Input
+                    id={`channel-${field.key}`}
+                    type={field.secret ? "password" : "text"}
+                    autoComplete="off"
+                    placeholder={
+                      stored
+                        ? "Saved. Type to replace"
+                        : unreadable
+                          ? "Cannot be decrypted. Enter again"
+                          : field.placeholder
+                    }
+                    value={draft.config[field.key] || ""}
+                    onChange={(e) => updateConfig(field.key, e.target.value)}
+                  />
+                  {stored && !field.required && (
+                    <Button variant="outline" onClick={() => removeSecret(field.key)}>
+                      Remove
+                    </Button>
+                  )}
+                </div>
+                {field.help && <p className="text-xs text-muted-foreground">{field.help}</p>}
+              </div>
+            );
+          })}
+
+          <Separator />
+
+          <div className="space-y-2">
+            <Label htmlFor="channel-title">Message Title</Label>
+            <Input
+              id="channel-title"
+              placeholder={DEFAULT_TEMPLATE.title}
+              value={draft.template?.title || ""}
+              onChange={(e) => updateTemplate({ title: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="channel-body">Message Body</Label>
+            <Textarea
+              id="channel-body"
+              rows={4}
+              placeholder={DEFAULT_TEMPLATE.body}
+              value={draft.template?.body || ""}
+              onChange={(e) => updateTemplate({ body: e.target.value })}
+            />
+            <p className="text-xs text-muted-foreground">
+              Leave empty for the default. Available: {TEMPLATE_PLACEHOLDERS.map((name) => `{{${name}}}`).join(", ")}
+            </p>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={!canSave}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,217 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Pencil, Plus, Send, ShieldAlert, Trash2 } from "lucide-react";
+import { NotificationChannelDialog } from "@/components/settings/NotificationChannelDialog";
+import { CHANNEL_TYPES, NotificationChannelDraft, newChannel } from "@/lib/notificationChannels";
+import * as settingsApi from "@/lib/settingsApi";
+import type { NotificationChannel } from "@/lib/settingsApi";
+
+export function NotificationChannelsCard() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<NotificationChannelDraft | null>(null);
+  const [testingId, setTestingId] = useState<string | null>(null);
+  const { data: channels = [], isError } = useQuery({
+    queryKey: ["notificationChannels"],
+    queryFn: settingsApi.getNotificationChannels,
+  });
+  const { data: secretsStatus } = useQuery({
+    queryKey: ["secretsStatus"],
+    queryFn: settingsApi.getSecretsStatus,
+  });
+
+  // Agents receive the first enabled email, Slack and Discord channel when config is pushed
+  const refresh = () =>
+    Promise.all([
+      queryClient.invalidateQueries({ queryKey: ["notificationChannels"] }),
+      queryClient.invalidateQueries({ queryKey: ["agentConfig"] }),
+      queryClient.invalidateQueries({ queryKey: ["secretsStatus"] }),
+    ]);
+
+  const handleSave = async ({
+    id,
+    secrets: _secrets,
+    secrets_unreadable: _unreadable,
+    ...channel
+  }: NotificationChannelDraft) => {
+    try {
+      if (id) await settingsApi.updateNotificationChannel(id, channel);
+      else await settingsApi.createNotificationChannel(channel);
+      await refresh();
+      setEditing(null);
+      toast({
+        title: "Channel Saved",
+        description: `${channel.name} receives the next alert`,
+      });
+    } catch (error) {
+      console.error("Failed to save channel:", error);
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleToggle = async (channel: NotificationChannel, enabled: boolean) => {
+    try {
+      await settingsApi.updateNotificationChannel(channel.id, { enabled });
+      await refresh();
+    } catch (error) {
+      console.error("Failed to update channel:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update notification channel",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (channel: NotificationChannel) => {
+    try {
+      await settingsApi.deleteNotificationChannel(channel.id);
+      await refresh();
+      toast({
+        title: "Channel Removed",
+        description: `${channel.name} removed`,
+      });
+    } catch (error) {
+      console.error("Failed to delete channel:", error);
+      toast({
+        title: "Error",
+        description: "Failed to remove notification channel from database",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleTest = async (channel: NotificationChannel) => {
+    setTestingId(channel.id);
+    try {
+      const delivery = await settingsApi.sendTestNotification(channel.id);
+      toast({
+        title: "Test Notification Sent",
+        description: `${channel.name} accepted the message for ${delivery.target}`,
+      });
+    } catch (error) {
+      console.error("Failed to send test notification:", error);
+      toast({
+        title: "Test Notification Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setTestingId(null);
+      await queryClient.invalidateQueries({ queryKey: ["notificationDeliveries"] });
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold mb-2">Notification Channels</h3>
+            <p className="text-sm text-muted-foreground">
+              The dashboard server sends rule alerts to every enabled channel. Push to Agents on the Alert
+              Thresholds tab gives agents the first email, Slack and Discord channel.
+            </p>
+          </div>
+          <Button onClick={() => setEditing(newChannel("slack"))}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Channel
+          </Button>
+        </div>
+
+        {secretsStatus && !secretsStatus.encrypted && (
+          <div className="flex items-start gap-2 text-sm text-destructive">
+            <ShieldAlert className="h-4 w-4 mt-0.5 shrink-0" />
+            <p>
+              SETTINGS_SECRET_KEY is not set on the settings server, so passwords and webhook URLs are stored
+              unencrypted{secretsStatus.plaintext > 0 && ` (${secretsStatus.plaintext} stored now)`}. Set it and restart
+              the server to encrypt them.
+            </p>
+          </div>
+        )}
+        {secretsStatus && secretsStatus.unreadable > 0 && (
+          <div className="flex items-start gap-2 text-sm text-destructive">
+            <ShieldAlert className="h-4 w-4 mt-0.5 shrink-0" />
+            <p>
+              {secretsStatus.unreadable} stored secrets cannot be decrypted with the current SETTINGS_SECRET_KEY.
+              Restore the key they were saved with, or enter them again below.
+            </p>
+          </div>
+        )}
+
+        <Separator />
+
+        <div className="space-y-3">
+          {channels.map((channel) => (
+            <div
+              key={channel.id}
+              className="flex items-center gap-3 p-4 bg-muted/30 rounded-lg border border-border"
+            >
+              <Switch checked={channel.enabled} onCheckedChange={(checked) => handleToggle(channel, checked)} />
+              <div className="flex-1 space-y-1">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium">{channel.name}</p>
+                  <Badge variant="outline">{CHANNEL_TYPES[channel.type]?.label || channel.type}</Badge>
+                  {channel.template && <Badge variant="secondary">Custom template</Badge>}
+                  {!!channel.secrets_unreadable?.length && (
+                    <Badge variant="destructive">Unreadable: {channel.secrets_unreadable.join(", ")}</Badge>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground">{CHANNEL_TYPES[channel.type]?.description}</p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleTest(channel)}
+                disabled={testingId !== null}
+              >
+                {testingId === channel.id ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Send className="h-4 w-4 mr-2" />
+                )}
+                Send Test
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => setEditing(channel)}>
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => handleDelete(channel)}
+                className="hover:bg-destructive/10 hover:text-destructive"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          {channels.length === 0 && (
+            <div className="text-center py-8 text-muted-foreground">
+              <p className="text-sm">
+                {isError
+                  ? "Could not load notification channels from the settings server."
+                  : "No notification channels configured."}
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <NotificationChannelDialog
+        channel={editing}
+        onOpenChange={(open) => !open && setEditing(null)}
+        onSave={handleSave}
+      />
+    </Card>
+  );
+}
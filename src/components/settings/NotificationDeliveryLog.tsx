@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { RefreshCw } from "lucide-react";
+import { format } from "date-fns";
+import { CHANNEL_TYPES } from "@/lib/notificationChannels";
+import * as settingsApi from "@/lib/settingsApi";
+import type { NotificationChannelType, NotificationDelivery } from "@/lib/settingsApi";
+
+export function NotificationDeliveryLog() {
+  const [channel, setChannel] = useState<NotificationChannelType | "all">("all");
+  const [status, setStatus] = useState<NotificationDelivery["status"] | "all">("all");
+  const { data: deliveries = [], isError, isFetching, refetch } = useQuery({
+    queryKey: ["notificationDeliveries", channel, status],
+    queryFn: () =>
+      settingsApi.getNotificationDeliveries({
+        channel: channel === "all" ? undefined : channel,
+        status: status === "all" ? undefined : status,
+      }),
+  });
+
+  return (
+    <Card className="p-6">
+      <div className="space-y-4">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold mb-2">Delivery Log</h3>
+            <p className="text-sm text-muted-foreground">
+              Notifications sent by the dashboard server for alert rules and test sends.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Select value={channel} onValueChange={(value) => setChannel(value as NotificationChannelType | "all")}>
+              <SelectTrigger className="w-[170px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All channels</SelectItem>
+                {Object.entries(CHANNEL_TYPES).map(([value, info]) => (
+                  <SelectItem key={value} value={value}>
+                    {info.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={status}
+              onValueChange={(value) => setStatus(value as NotificationDelivery["status"] | "all")}
+            >
+              <SelectTrigger className="w-[120px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All results</SelectItem>
+                <SelectItem value="sent">Sent</SelectItem>
+                <SelectItem value="failed">Failed</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="ghost" size="icon" onClick={() => refetch()} disabled={isFetching} title="Refresh">
+              <RefreshCw className={`h-4 w-4 ${isFetching ? "animate-spin" : ""}`} />
+            </Button>
+          </div>
+        </div>
+
+        {deliveries.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Time</TableHead>
+                <TableHead>Channel</TableHead>
+                <TableHead>Target</TableHead>
+                <TableHead>Subject</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deliveries.map((delivery) => (
+                <TableRow key={delivery.id}>
+                  <TableCell className="whitespace-nowrap text-muted-foreground">
+                    {format(new Date(delivery.timestamp), "MMM d, HH:mm:ss")}
+                  </TableCell>
+                  <TableCell>
+                    {delivery.channel_name || CHANNEL_TYPES[delivery.channel]?.label || delivery.channel}
+                    {delivery.channel_name && (
+                      <p className="text-xs text-muted-foreground">{CHANNEL_TYPES[delivery.channel]?.label}</p>
+                    )}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{delivery.target}</TableCell>
+                  <TableCell>
+                    {delivery.subject}
+                    {delivery.is_test && (
+                      <Badge variant="outline" className="ml-2">
+                        Test
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={delivery.status === "sent" ? "secondary" : "destructive"}>{delivery.status}</Badge>
+                    {delivery.error && <p className="text-xs text-destructive mt-1">{delivery.error}</p>}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            {isError ? "Could not load the delivery log from the settings server." : "No notifications sent yet."}
+          </p>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,125 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { ServerEndpoint } from "@/lib/settingsApi";
+
+interface ServerEndpointDialogProps {
+  endpoint: ServerEndpoint | null;
+  onOpenChange: (open: boolean) => void;
+  onSave: (endpoint: ServerEndpoint) => void;
+}
+
+export function ServerEndpointDialog({ endpoint, onOpenChange, onSave }: ServerEndpointDialogProps) {
+  const [name, setName] = useState("");
+  const [url, setUrl] = useState("");
+  const [tags, setTags] = useState("");
+  const [location, setLocation] = useState("");
+  const [rack, setRack] = useState("");
+  const [owner, setOwner] = useState("");
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    if (!endpoint) return;
+    setName(endpoint.name);
+    setUrl(endpoint.url);
+    setTags((endpoint.tags || []).join(", "));
+    setLocation(endpoint.location || "");
+    setRack(endpoint.rack || "");
+    setOwner(endpoint.owner || "");
+    setNotes(endpoint.notes || "");
+  }, [endpoint]);
+
+  const canSave = !!name.trim() && !!url.trim();
+
+  const handleSave = () => {
+    if (!endpoint || !canSave) return;
+    onSave({
+      ...endpoint,
+      name: name.trim(),
+      url: url.trim(),
+      tags: tags.split(",").map((tag) => tag.trim()).filter(Boolean),
+      location: location.trim(),
+      rack: rack.trim(),
+      owner: owner.trim(),
+      notes: notes.trim(),
+      // A new URL may point at a different agent, so the last connection test no longer applies
+      capabilities: url.trim() === endpoint.url ? endpoint.capabilities : null,
+    });
+  };
+
+  return (
+    <Dialog open={!!endpoint} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Edit Server</DialogTitle>
+          <DialogDescription>Connection details and metadata used for filtering the dashboard</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="edit-server-name">Server Name</Label>
+              <Input id="edit-server-name" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-server-url">API Endpoint URL</Label>
+              <Input id="edit-server-url" value={url} onChange={(e) => setUrl(e.target.value)} />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="edit-server-tags">Tags</Label>
+            <Input
+              id="edit-server-tags"
+              placeholder="gpu, production"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">Separate tags with commas</p>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="edit-server-location">Location</Label>
+              <Input
+                id="edit-server-location"
+                placeholder="Stockholm DC1"
+                value={location}
+                onChange={(e) => setLocation(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-server-rack">Rack</Label>
+              <Input id="edit-server-rack" placeholder="R12-U4" value={rack} onChange={(e) => setRack(e.target.value)} />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="edit-server-owner">Owner Team</Label>
+            <Input
+              id="edit-server-owner"
+              placeholder="Platform"
+              value={owner}
+              onChange={(e) => setOwner(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="edit-server-notes">Notes</Label>
+            <Textarea id="edit-server-notes" rows={3} value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={!canSave}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
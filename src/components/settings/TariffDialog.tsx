@@ -0,0 +1,315 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Plus, Trash2 } from "lucide-react";
+import { endpointFacet } from "@/lib/serverEndpoints";
+import { DEFAULT_RATES, NEW_TARIFF, TARIFF_TYPES, TariffDraft } from "@/lib/cost";
+import type { ServerEndpoint, Tariff, TariffType } from "@/lib/settingsApi";
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const isPrice = (value: number) => !Number.isNaN(value) && value >= 0;
+
+function ratesValid(draft: TariffDraft): boolean {
+  const rates = draft.rates;
+  if ("rate" in rates) return isPrice(rates.rate);
+  if ("tiers" in rates) {
+    return rates.tiers.every(
+      (tier, index) =>
+        isPrice(tier.rate) &&
+        (index === rates.tiers.length - 1 ||
+          (tier.up_to_kwh > 0 && (index === 0 || tier.up_to_kwh > rates.tiers[index - 1].up_to_kwh)))
+    );
+  }
+  return isPrice(rates.day_rate) && isPrice(rates.night_rate) && rates.night_start !== rates.night_end;
+}
+
+function HourSelect({ value, onChange }: { value: number; onChange: (hour: number) => void }) {
+  return (
+    <Select value={String(value)} onValueChange={(hour) => onChange(Number(hour))}>
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {HOURS.map((hour) => (
+          <SelectItem key={hour} value={String(hour)}>
+            {String(hour).padStart(2, "0")}:00
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+interface TariffDialogProps {
+  tariff: TariffDraft | null;
+  endpoints: ServerEndpoint[];
+  onOpenChange: (open: boolean) => void;
+  onSave: (tariff: TariffDraft) => void;
+}
+
+export function TariffDialog({ tariff, endpoints, onOpenChange, onSave }: TariffDialogProps) {
+  const [draft, setDraft] = useState<TariffDraft>(NEW_TARIFF);
+  const tags = endpointFacet(endpoints, "tags");
+  const locations = endpointFacet(endpoints, "location");
+  const rates = draft.rates;
+
+  useEffect(() => {
+    if (tariff) setDraft(tariff);
+  }, [tariff]);
+
+  const update = (changes: Partial<TariffDraft>) => setDraft((current) => ({ ...current, ...changes }));
+
+  const updateTier = (index: number, changes: { up_to_kwh?: number; rate?: number }) =>
+    "tiers" in rates &&
+    update({ rates: { tiers: rates.tiers.map((tier, i) => (i === index ? { ...tier, ...changes } : tier)) } });
+
+  const addTier = () => {
+    if (!("tiers" in rates)) return;
+    const limited = rates.tiers.slice(0, -1);
+    const last = rates.tiers[rates.tiers.length - 1];
+    const previousLimit = limited[limited.length - 1]?.up_to_kwh ?? 0;
+    update({ rates: { tiers: [...limited, { up_to_kwh: previousLimit + 100, rate: last.rate }, last] } });
+  };
+
+  const removeTier = (index: number) => {
+    if (!("tiers" in rates)) return;
+    const tiers = rates.tiers.filter((_, i) => i !== index);
+    // The last tier is always open-ended
+    tiers[tiers.length - 1] = { ...tiers[tiers.length - 1], up_to_kwh: null };
+    update({ rates: { tiers } });
+  };
+
+  const canSave =
+    !!draft.name.trim() &&
+    !!draft.currency.trim() &&
+    (draft.scope_type === "default" || !!draft.scope_value) &&
+    ratesValid(draft);
+
+  return (
+    <Dialog open={!!tariff} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{tariff?.id ? "Edit Tariff" : "New Tariff"}</DialogTitle>
+          <DialogDescription>Prices per kWh, applied to the energy measured by the agents</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-[1fr_100px] gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="tariff-name">Name</Label>
+              <Input
+                id="tariff-name"
+                placeholder="Office contract"
+                value={draft.name}
+                onChange={(e) => update({ name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tariff-currency">Currency</Label>
+              <Input
+                id="tariff-currency"
+                placeholder="EUR"
+                value={draft.currency}
+                onChange={(e) => update({ currency: e.target.value.toUpperCase() })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <Select
+              value={draft.type}
+              onValueChange={(value) => update({ type: value as TariffType, rates: DEFAULT_RATES[value as TariffType] })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TARIFF_TYPES.map((type) => (
+                  <SelectItem key={type.value} value={type.value}>
+                    {type.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {TARIFF_TYPES.find((type) => type.value === draft.type)?.description}
+            </p>
+          </div>
+
+          {"rate" in rates && (
+            <div className="space-y-2">
+              <Label htmlFor="tariff-rate">Price per kWh</Label>
+              <Input
+                id="tariff-rate"
+                type="number"
+                min="0"
+                step="0.01"
+                value={rates.rate}
+                onChange={(e) => update({ rates: { rate: parseFloat(e.target.value) } })}
+              />
+            </div>
+          )}
+
+          {"night_rate" in rates && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="tariff-day-rate">Day price per kWh</Label>
+                  <Input
+                    id="tariff-day-rate"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={rates.day_rate}
+                    onChange={(e) => update({ rates: { ...rates, day_rate: parseFloat(e.target.value) } })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="tariff-night-rate">Night price per kWh</Label>
+                  <Input
+                    id="tariff-night-rate"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={rates.night_rate}
+                    onChange={(e) => update({ rates: { ...rates, night_rate: parseFloat(e.target.value) } })}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Night starts</Label>
+                  <HourSelect value={rates.night_start} onChange={(hour) => update({ rates: { ...rates, night_start: hour } })} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Night ends</Label>
+                  <HourSelect value={rates.night_end} onChange={(hour) => update({ rates: { ...rates, night_end: hour } })} />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tariff-timezone">Time Zone</Label>
+                <Input
+                  id="tariff-timezone"
+                  placeholder="e.g. Europe/Berlin, empty for the browser's"
+                  value={draft.timezone || ""}
+                  onChange={(e) => update({ timezone: e.target.value || null })}
+                />
+              </div>
+            </div>
+          )}
+
+          {"tiers" in rates && (
+            <div className="space-y-2">
+              <Label>Tiers (kWh per server and calendar month)</Label>
+              {rates.tiers.map((tier, index) => {
+                const last = index === rates.tiers.length - 1;
+                const from = index === 0 ? 0 : rates.tiers[index - 1].up_to_kwh;
+                return (
+                  <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-center">
+                    {last ? (
+                      <span className="text-sm text-muted-foreground">Above {from} kWh</span>
+                    ) : (
+                      <div className="relative">
+                        <Input
+                          type="number"
+                          min="0"
+                          value={tier.up_to_kwh}
+                          onChange={(e) => updateTier(index, { up_to_kwh: parseFloat(e.target.value) })}
+                        />
+                        <span className="absolute right-3 top-2.5 text-sm text-muted-foreground">kWh</span>
+                      </div>
+                    )}
+                    <div className="relative">
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={tier.rate}
+                        onChange={(e) => updateTier(index, { rate: parseFloat(e.target.value) })}
+                      />
+                      <span className="absolute right-3 top-2.5 text-sm text-muted-foreground">/kWh</span>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeTier(index)}
+                      disabled={rates.tiers.length === 1}
+                      className="hover:bg-destructive/10 hover:text-destructive"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                );
+              })}
+              <Button variant="outline" size="sm" onClick={addTier}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Tier
+              </Button>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Applies To</Label>
+            <Select
+              value={draft.scope_type}
+              onValueChange={(value) => update({ scope_type: value as Tariff["scope_type"], scope_value: null })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="default">All other servers</SelectItem>
+                <SelectItem value="site" disabled={locations.length === 0}>
+                  Servers at a site
+                </SelectItem>
+                <SelectItem value="tag" disabled={tags.length === 0}>
+                  Servers with tag
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {draft.scope_type !== "default" && (
+            <div className="space-y-2">
+              <Label>{draft.scope_type === "site" ? "Site" : "Tag"}</Label>
+              <Select value={draft.scope_value || undefined} onValueChange={(value) => update({ scope_value: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder={draft.scope_type === "site" ? "Select a location" : "Select a tag"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {(draft.scope_type === "site" ? locations : tags).map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {value}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Tag tariffs replace site tariffs, which replace the tariff for all other servers
+              </p>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button
+            onClick={() => onSave({ ...draft, name: draft.name.trim(), currency: draft.currency.trim() })}
+            disabled={!canSave}
+          >
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { useToast } from "@/hooks/use-toast";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { TariffDialog } from "@/components/settings/TariffDialog";
+import {
+  NEW_TARIFF,
+  TARIFF_TYPES,
+  TariffDraft,
+  describeTariffRates,
+  describeTariffScope,
+  tariffForEndpoint,
+  useTariffs,
+} from "@/lib/cost";
+import * as settingsApi from "@/lib/settingsApi";
+import type { ServerEndpoint, Tariff } from "@/lib/settingsApi";
+
+interface TariffsCardProps {
+  endpoints: ServerEndpoint[];
+}
+
+export function TariffsCard({ endpoints }: TariffsCardProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<TariffDraft | null>(null);
+  const { data: tariffs = [], isError } = useTariffs();
+  const unpriced = endpoints.filter((endpoint) => !tariffForEndpoint(tariffs, endpoint));
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["tariffs"] });
+
+  const showError = (error: unknown) =>
+    toast({
+      title: "Error",
+      description: (error as Error).message,
+      variant: "destructive",
+    });
+
+  const handleSave = async ({ id, ...draft }: TariffDraft) => {
+    // Only day/night tariffs depend on the time of day
+    const tariff = { ...draft, timezone: draft.type === "day_night" ? draft.timezone?.trim() || null : null };
+    try {
+      if (id) await settingsApi.updateTariff(id, tariff);
+      else await settingsApi.createTariff(tariff);
+      await refresh();
+      setEditing(null);
+      toast({
+        title: "Tariff Saved",
+        description: `${tariff.name} saved`,
+      });
+    } catch (error) {
+      console.error("Failed to save tariff:", error);
+      showError(error);
+    }
+  };
+
+  const handleDelete = async (tariff: Tariff) => {
+    try {
+      await settingsApi.deleteTariff(tariff.id);
+      await refresh();
+      toast({
+        title: "Tariff Removed",
+        description: `${tariff.name} removed`,
+      });
+    } catch (error) {
+      console.error("Failed to delete tariff:", error);
+      showError(error);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold mb-2">Electricity Tariffs</h3>
+            <p className="text-sm text-muted-foreground">
+              Prices the energy measured by each agent. A server uses the tariff for one of its tags, else the one for
+              its site (Location), else the tariff for all other servers.
+            </p>
+          </div>
+          <Button onClick={() => setEditing(NEW_TARIFF)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Tariff
+          </Button>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-3">
+          {tariffs.map((tariff) => (
+            <div
+              key={tariff.id}
+              className="flex items-center gap-3 p-4 bg-muted/30 rounded-lg border border-border"
+            >
+              <div className="flex-1 space-y-1">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium">{tariff.name}</p>
+                  <Badge variant="secondary">{TARIFF_TYPES.find((type) => type.value === tariff.type)?.label}</Badge>
+                  <Badge variant="outline">{describeTariffScope(tariff)}</Badge>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {describeTariffRates(tariff)}
+                  {tariff.timezone && ` · ${tariff.timezone}`}
+                </p>
+              </div>
+              <Button variant="ghost" size="icon" onClick={() => setEditing(tariff)}>
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => handleDelete(tariff)}
+                className="hover:bg-destructive/10 hover:text-destructive"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          {tariffs.length === 0 && (
+            <div className="text-center py-8 text-muted-foreground">
+              <p className="text-sm">
+                {isError ? "Could not load tariffs from the settings server." : "No tariffs configured."}
+              </p>
+            </div>
+          )}
+          {tariffs.length > 0 && unpriced.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              No tariff applies to {unpriced.map((endpoint) => endpoint.name).join(", ")}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <TariffDialog
+        tariff={editing}
+        endpoints={endpoints}
+        onOpenChange={(open) => !open && setEditing(null)}
+        onSave={handleSave}
+      />
+    </Card>
+  );
+}
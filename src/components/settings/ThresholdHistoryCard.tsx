@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, RotateCcw } from "lucide-react";
+import * as settingsApi from "@/lib/settingsApi";
+import type { AlertThresholds, AlertThresholdVersion } from "@/lib/settingsApi";
+
+const thresholdFields: { key: keyof AlertThresholds; label: string; unit: string }[] = [
+  { key: "cpu", label: "CPU", unit: "%" },
+  { key: "ram", label: "RAM", unit: "%" },
+  { key: "gpu", label: "GPU", unit: "%" },
+  { key: "temperature", label: "Temperature", unit: "°C" },
+];
+
+const sameValues = (a: AlertThresholds, b: AlertThresholds) =>
+  thresholdFields.every(({ key }) => a[key] === b[key]);
+
+// What changed compared with the version before it; the first version lists all its values
+function describeChanges(version: AlertThresholdVersion, previous?: AlertThresholdVersion) {
+  return thresholdFields
+    .filter(({ key }) => !previous || previous[key] !== version[key])
+    .map(({ key, label, unit }) => ({
+      label,
+      before: previous ? `${previous[key]}${unit}` : null,
+      after: `${version[key]}${unit}`,
+    }));
+}
+
+interface ThresholdHistoryCardProps {
+  onRestore: (thresholds: AlertThresholds) => void;
+}
+
+export function ThresholdHistoryCard({ onRestore }: ThresholdHistoryCardProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [restoringId, setRestoringId] = useState<number | null>(null);
+  const { data: versions = [], isError } = useQuery({
+    queryKey: ["alertThresholdHistory"],
+    queryFn: settingsApi.getAlertThresholdHistory,
+  });
+  const current = versions[0];
+
+  const handleRestore = async (version: AlertThresholdVersion) => {
+    setRestoringId(version.id);
+    try {
+      const restored = await settingsApi.restoreAlertThresholds(version.id);
+      onRestore(restored);
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ["alertThresholdHistory"] }),
+        queryClient.invalidateQueries({ queryKey: ["agentConfig"] }),
+      ]);
+      toast({
+        title: "Thresholds Restored",
+        description: `Version ${version.id} is current again. Push to Agents to apply it.`,
+      });
+    } catch (error) {
+      console.error("Failed to restore thresholds:", error);
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold mb-2">Threshold History</h3>
+          <p className="text-sm text-muted-foreground">
+            Every saved version of the thresholds. Restoring saves the old values as a new version.
+          </p>
+        </div>
+
+        {versions.length > 0 ? (
+          <ol className="relative border-l border-border ml-2">
+            {versions.map((version, index) => {
+              const changes = describeChanges(version, versions[index + 1]);
+              return (
+                <li key={version.id} className="ml-6 pb-6 last:pb-0">
+                  <span
+                    className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background ${
+                      index === 0 ? "bg-primary" : "bg-muted-foreground"
+                    }`}
+                  />
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-medium">Version {version.id}</span>
+                        {index === 0 && <Badge>Current</Badge>}
+                        {version.restored_from && (
+                          <Badge variant="outline">Restored from version {version.restored_from}</Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {format(new Date(version.updated_at), "MMM d, yyyy HH:mm")} (
+                        {formatDistanceToNow(new Date(version.updated_at), { addSuffix: true })})
+                        {version.changed_by && ` by ${version.changed_by}`}
+                      </p>
+                      <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+                        {changes.length === 0 && <span className="text-muted-foreground">No changes</span>}
+                        {changes.map((change) => (
+                          <span key={change.label}>
+                            {change.label}{" "}
+                            {change.before && (
+                              <>
+                                <span className="text-muted-foreground line-through">{change.before}</span>
+                                {" → "}
+                              </>
+                            )}
+                            <span className="font-medium">{change.after}</span>
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                    {index > 0 && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRestore(version)}
+                        disabled={restoringId !== null || (current && sameValues(version, current))}
+                      >
+                        {restoringId === version.id ? (
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        ) : (
+                          <RotateCcw className="h-4 w-4 mr-2" />
+                        )}
+                        Restore
+                      </Button>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            {isError
+              ? "Could not load the threshold history from the settings server."
+              : "Thresholds have not been saved yet."}
+          </p>
+        )}
+      </div>
+    </Card>
+  );
+}
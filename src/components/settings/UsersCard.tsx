@@ -0,0 +1,244 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { KeyRound, Plus, Trash2 } from "lucide-react";
+import { AuthUser, USER_ROLES, UserRole, useSession } from "@/lib/auth";
+import * as settingsApi from "@/lib/settingsApi";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+function RoleSelect({ value, onChange }: { value: UserRole; onChange: (role: UserRole) => void }) {
+  return (
+    <Select value={value} onValueChange={(role) => onChange(role as UserRole)}>
+      <SelectTrigger className="w-[140px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {USER_ROLES.map((role) => (
+          <SelectItem key={role.value} value={role.value}>
+            {role.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export function UsersCard() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { user: currentUser } = useSession();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [role, setRole] = useState<UserRole>("viewer");
+  const [resetting, setResetting] = useState<AuthUser | null>(null);
+  const [newPassword, setNewPassword] = useState("");
+  const { data: users = [], isError } = useQuery({
+    queryKey: ["users"],
+    queryFn: settingsApi.getUsers,
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["users"] });
+
+  const showError = (error: unknown) =>
+    toast({
+      title: "Error",
+      description: (error as Error).message,
+      variant: "destructive",
+    });
+
+  const handleAdd = async () => {
+    try {
+      const user = await settingsApi.createUser({ username: username.trim(), password, role });
+      await refresh();
+      setUsername("");
+      setPassword("");
+      setRole("viewer");
+      toast({
+        title: "User Added",
+        description: `${user.username} can now sign in`,
+      });
+    } catch (error) {
+      console.error("Failed to add user:", error);
+      showError(error);
+    }
+  };
+
+  const handleRoleChange = async (user: AuthUser, role: UserRole) => {
+    try {
+      await settingsApi.updateUser(user.id, { role });
+      await refresh();
+    } catch (error) {
+      console.error("Failed to update user:", error);
+      showError(error);
+    }
+  };
+
+  const handleResetPassword = async () => {
+    if (!resetting) return;
+    try {
+      await settingsApi.updateUser(resetting.id, { password: newPassword });
+      toast({
+        title: "Password Changed",
+        description: `${resetting.username} was signed out everywhere`,
+      });
+      setResetting(null);
+    } catch (error) {
+      console.error("Failed to change password:", error);
+      showError(error);
+    }
+  };
+
+  const handleDelete = async (user: AuthUser) => {
+    try {
+      await settingsApi.deleteUser(user.id);
+      await refresh();
+      toast({
+        title: "User Removed",
+        description: `${user.username} removed`,
+      });
+    } catch (error) {
+      console.error("Failed to delete user:", error);
+      showError(error);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="space-y-6">
+        <div>
+          <h3 className="text-lg font-semibold mb-2">Users</h3>
+          <div className="text-sm text-muted-foreground space-y-1">
+            {USER_ROLES.map((r) => (
+              <p key={r.value}>
+                <span className="font-medium text-foreground">{r.label}:</span> {r.description}
+              </p>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-[1fr_1fr_auto_auto] md:items-end">
+          <div className="space-y-2">
+            <Label htmlFor="new-username">Username</Label>
+            <Input
+              id="new-username"
+              autoComplete="off"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="new-password">Password</Label>
+            <Input
+              id="new-password"
+              type="password"
+              autoComplete="new-password"
+              placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </div>
+          <RoleSelect value={role} onChange={setRole} />
+          <Button onClick={handleAdd} disabled={!username.trim() || password.length < MIN_PASSWORD_LENGTH}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add User
+          </Button>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-3">
+          {users.map((user) => (
+            <div
+              key={user.id}
+              className="flex items-center gap-3 p-4 bg-muted/30 rounded-lg border border-border"
+            >
+              <div className="flex-1 space-y-1">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium">{user.username}</p>
+                  {user.id === currentUser?.id && <Badge variant="secondary">You</Badge>}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {user.last_login_at
+                    ? `Last signed in ${formatDistanceToNow(new Date(user.last_login_at), { addSuffix: true })}`
+                    : "Never signed in"}
+                </p>
+              </div>
+              <RoleSelect value={user.role} onChange={(role) => handleRoleChange(user, role)} />
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Change password"
+                onClick={() => {
+                  setNewPassword("");
+                  setResetting(user);
+                }}
+              >
+                <KeyRound className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => handleDelete(user)}
+                disabled={user.id === currentUser?.id}
+                className="hover:bg-destructive/10 hover:text-destructive"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          {users.length === 0 && (
+            <div className="text-center py-8 text-muted-foreground">
+              <p className="text-sm">
+                {isError ? "Could not load users from the settings server." : "No users found."}
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <Dialog open={!!resetting} onOpenChange={(open) => !open && setResetting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Change Password</DialogTitle>
+            <DialogDescription>
+              {resetting?.username} is signed out of every session and signs in again with the new password.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="reset-password">New Password</Label>
+            <Input
+              id="reset-password"
+              type="password"
+              autoComplete="new-password"
+              placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button onClick={handleResetPassword} disabled={newPassword.length < MIN_PASSWORD_LENGTH}>
+              Change Password
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,53 @@
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Leaf } from "lucide-react";
+import { EnergySource, formatEnergy } from "@/lib/energy";
+import { formatCarbon, useCarbonEstimates } from "@/lib/carbon";
+
+interface CarbonWidgetProps {
+  sources: EnergySource[];
+  title?: string;
+}
+
+// Emissions over the last 24 hours for the servers the widget is bound to, always summed
+export function CarbonWidget({ sources, title = "Carbon Emissions" }: CarbonWidgetProps) {
+  const { servers, total, isLoading } = useCarbonEstimates(sources, "24h");
+  const ranked = servers
+    .filter((s) => s.estimate)
+    .sort((a, b) => b.estimate.grams - a.estimate.grams);
+
+  return (
+    <Card className="h-full flex flex-col">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="flex-1 pb-2 overflow-auto">
+        {!total ? (
+          <div className="h-full flex flex-col items-center justify-center gap-2 text-muted-foreground">
+            <Leaf className="h-5 w-5" />
+            <p className="text-sm">{isLoading ? "Loading emissions..." : "No energy data"}</p>
+            {!isLoading && <p className="text-xs">Needs agents that report energy</p>}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div>
+              <p className="text-3xl font-bold text-green-500">{formatCarbon(total.grams)}</p>
+              <p className="text-xs text-muted-foreground">
+                CO2e, last 24 hours · {formatEnergy(total.kwh)} at {total.intensity.toFixed(0)} g/kWh
+              </p>
+            </div>
+            {ranked.length > 1 && (
+              <div className="space-y-1">
+                {ranked.map((s) => (
+                  <div key={s.serverId} className="flex items-center justify-between text-sm">
+                    <span className="truncate">{s.name}</span>
+                    <span className="font-mono">{formatCarbon(s.estimate.grams)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
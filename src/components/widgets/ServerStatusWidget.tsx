@@ -6,22 +6,23 @@ interface Server {
   id: string;
   name: string;
   hostname: string;
-  status: "online" | "offline" | "throttle";
+  status: "online" | "offline" | "throttled";
   os: string;
 }
 
 interface ServerStatusWidgetProps {
   servers: Server[];
+  title?: string;
 }
 
-export function ServerStatusWidget({ servers }: ServerStatusWidgetProps) {
+export function ServerStatusWidget({ servers, title = "Server Status" }: ServerStatusWidgetProps) {
   const getStatusColor = (status: string) => {
     switch (status) {
       case "online":
         return "bg-chart-2 text-chart-2";
       case "offline":
         return "bg-destructive text-destructive-foreground";
-      case "throttle":
+      case "throttled":
         return "bg-chart-4 text-chart-4";
       default:
         return "bg-muted text-muted-foreground";
@@ -31,7 +32,7 @@ export function ServerStatusWidget({ servers }: ServerStatusWidgetProps) {
   return (
     <Card className="h-full flex flex-col">
       <CardHeader className="pb-3">
-        <CardTitle className="text-base">Server Status</CardTitle>
+        <CardTitle className="text-base">{title}</CardTitle>
       </CardHeader>
       <CardContent className="flex-1 overflow-auto pb-2">
         <div className="space-y-2">
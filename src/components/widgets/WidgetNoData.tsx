@@ -0,0 +1,11 @@
+import { Clock } from "lucide-react";
+
+export function WidgetNoData() {
+  return (
+    <div className="h-full flex flex-col items-center justify-center gap-2 text-muted-foreground">
+      <Clock className="h-5 w-5" />
+      <p className="text-sm">No data yet</p>
+      <p className="text-xs">Samples appear after the next poll</p>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+// Agent probe - checks that an endpoint answers and which optional features it serves
+import { endpointBaseUrl, type AgentMetricsPayload } from '@/lib/metricsClient';
+import type { ServerEndpoint } from '@/lib/settingsApi';
+
+const PROBE_TIMEOUT = 5000;
+
+export type AgentFeature = 'history' | 'predictions' | 'alerts' | 'energy' | 'efficiency';
+
+export const AGENT_FEATURES: { value: AgentFeature; label: string }[] = [
+  { value: 'history', label: 'History' },
+  { value: 'predictions', label: 'Predictions' },
+  { value: 'alerts', label: 'Alerts' },
+  { value: 'energy', label: 'Energy' },
+  { value: 'efficiency', label: 'Efficiency' },
+];
+
+export interface AgentCapabilities {
+  reachable: boolean;
+  checkedAt: string;
+  latencyMs?: number;
+  agentVersion?: string;
+  os?: string;
+  gpu?: string;
+  features: Record<AgentFeature, boolean>;
+  error?: string;
+}
+
+interface AgentHealthPayload {
+  version?: string;
+  capabilities?: string[];
+}
+
+async function timedFetch(url: string): Promise<{ response: Response; latencyMs: number }> {
+  const started = performance.now();
+  const response = await fetch(url, { signal: AbortSignal.timeout(PROBE_TIMEOUT) });
+  return { response, latencyMs: Math.round(performance.now() - started) };
+}
+
+async function answers(url: string): Promise<boolean> {
+  try {
+    const { response } = await timedFetch(url);
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+// Calls /health and /metrics, then asks for each optional endpoint. Agents that list their
+// capabilities in /health are trusted; older agents are probed one endpoint at a time.
+export async function probeAgent(endpoint: Pick<ServerEndpoint, 'url'>): Promise<AgentCapabilities> {
+  const base = endpointBaseUrl(endpoint);
+  const checkedAt = new Date().toISOString();
+  const none = { history: false, predictions: false, alerts: false, energy: false, efficiency: false };
+
+  let health: AgentHealthPayload = {};
+  let latencyMs: number;
+  try {
+    const result = await timedFetch(`${base}/health`);
+    if (!result.response.ok) throw new Error(`/health returned HTTP ${result.response.status}`);
+    health = await result.response.json();
+    latencyMs = result.latencyMs;
+  } catch (error) {
+    return { reachable: false, checkedAt, features: none, error: (error as Error).message };
+  }
+
+  let server: AgentMetricsPayload | undefined;
+  try {
+    const { response } = await timedFetch(`${base}/metrics`);
+    if (!response.ok) throw new Error(`/metrics returned HTTP ${response.status}`);
+    const data = await response.json();
+    server = Array.isArray(data.servers) ? data.servers[0] : data;
+  } catch (error) {
+    return {
+      reachable: false,
+      checkedAt,
+      latencyMs,
+      agentVersion: health.version,
+      features: none,
+      error: (error as Error).message,
+    };
+  }
+
+  const gpu = server?.metrics?.gpu || server?.gpu;
+  const capabilities = health.capabilities;
+  const serverId = server?.id ? encodeURIComponent(server.id) : '';
+  const features = capabilities
+    ? {
+        history: capabilities.includes('history'),
+        predictions: capabilities.includes('predictions'),
+        alerts: capabilities.includes('alerts'),
+        energy: capabilities.includes('energy'),
+        efficiency: capabilities.includes('efficiency'),
+      }
+    : {
+        history: !!serverId && (await answers(`${base}/history/${serverId}?period=5m&maxPoints=1`)),
+        predictions: !!serverId && (await answers(`${base}/predictions/${serverId}`)),
+        alerts: await answers(`${base}/alerts?limit=1`),
+        energy: !!serverId && (await answers(`${base}/energy/${serverId}?period=1h`)),
+        efficiency: !!serverId && (await answers(`${base}/efficiency/${serverId}?period=1h`)),
+      };
+
+  return {
+    reachable: true,
+    checkedAt,
+    latencyMs,
+    agentVersion: health.version,
+    os: server?.os,
+    gpu: gpu ? (gpu.memory ? `${gpu.memory} GB` : 'Detected') : undefined,
+    features,
+  };
+}
+
+// Endpoints that were never probed, or whose agent did not answer the last probe, are assumed
+// to support everything; an agent that is down says nothing about what it serves
+export function supportsFeature(endpoint: ServerEndpoint | undefined, feature: AgentFeature): boolean {
+  const capabilities = endpoint?.capabilities;
+  if (!capabilities?.reachable) return true;
+  return capabilities.features[feature] ?? true;
+}
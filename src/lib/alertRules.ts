@@ -0,0 +1,52 @@
+// Alert rules - metrics, defaults and descriptions for rules evaluated by the settings server
+import type { AlertRule, RuleMetric, RuleSeverity, ServerEndpoint } from '@/lib/settingsApi';
+
+export const RULE_METRICS: { value: RuleMetric; label: string; unit: string }[] = [
+  { value: 'cpu', label: 'CPU usage', unit: '%' },
+  { value: 'ram', label: 'RAM usage', unit: '%' },
+  { value: 'gpu', label: 'GPU usage', unit: '%' },
+  { value: 'cpu_temp', label: 'CPU temperature', unit: '°C' },
+  { value: 'gpu_temp', label: 'GPU temperature', unit: '°C' },
+  { value: 'power', label: 'Power draw', unit: 'W' },
+];
+
+export const RULE_SEVERITIES: { value: RuleSeverity; label: string }[] = [
+  { value: 'info', label: 'Info' },
+  { value: 'warning', label: 'Warning' },
+  { value: 'error', label: 'Error' },
+];
+
+export type AlertRuleDraft = Omit<AlertRule, 'id' | 'created_at' | 'updated_at'> & { id?: string };
+
+export const NEW_RULE: AlertRuleDraft = {
+  name: '',
+  metric: 'cpu',
+  operator: '>',
+  threshold: 90,
+  duration_seconds: 300,
+  hysteresis: 5,
+  severity: 'warning',
+  scope_type: 'global',
+  scope_value: null,
+  enabled: true,
+};
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds} s`;
+  return `${Math.round(seconds / 6) / 10} min`;
+}
+
+// One-line summary such as "CPU usage > 90% for 5 min"
+export function describeRule(rule: AlertRule): string {
+  const metric = RULE_METRICS.find((m) => m.value === rule.metric);
+  const held = rule.duration_seconds > 0 ? ` for ${formatDuration(rule.duration_seconds)}` : '';
+  return `${metric?.label || rule.metric} ${rule.operator} ${rule.threshold}${metric?.unit || ''}${held}`;
+}
+
+export function describeRuleScope(rule: AlertRule, endpoints: ServerEndpoint[]): string {
+  if (rule.scope_type === 'server') {
+    return endpoints.find((e) => e.id === rule.scope_value)?.name || 'Unknown server';
+  }
+  if (rule.scope_type === 'tag') return `Tag: ${rule.scope_value}`;
+  return 'All servers';
+}
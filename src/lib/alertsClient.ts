@@ -0,0 +1,136 @@
+// Alerts client - collects alert history from every configured agent
+import { useQuery } from '@tanstack/react-query';
+import { endpointBaseUrl } from '@/lib/metricsClient';
+import { supportsFeature } from '@/lib/agentProbe';
+import * as settingsApi from '@/lib/settingsApi';
+import type { ServerEndpoint } from '@/lib/settingsApi';
+
+export const ALERTS_POLL_INTERVAL = 30000;
+const ALERTS_LIMIT = 500;
+
+export interface AgentAlert {
+  id: string;
+  timestamp: string;
+  serverId: string;
+  serverName: string;
+  subject: string;
+  message: string;
+  alertType: string;
+  severity: string;
+  // Endpoint the alert was read from, or the endpoint a rule alert is about
+  endpointId: string;
+  // Rule that raised the alert, for alerts from the rule engine
+  ruleId?: string;
+}
+
+// Raw `/alerts` entry. The agent serves snake_case columns; camelCase is accepted too.
+interface AgentAlertPayload {
+  id: string;
+  timestamp: string;
+  server_id?: string;
+  serverId?: string;
+  server_name?: string;
+  serverName?: string;
+  subject?: string;
+  message?: string;
+  alert_type?: string;
+  alertType?: string;
+  severity?: string;
+  // Set on alerts raised by the settings server's rule engine
+  endpoint_id?: string;
+  rule_id?: string;
+}
+
+// Where alerts were read from: an agent endpoint, or the settings server's rule engine
+export interface AlertSourceStatus {
+  id: string;
+  name: string;
+  ok: boolean;
+  count: number;
+  error?: string;
+}
+
+export interface AlertsResult {
+  alerts: AgentAlert[];
+  sources: AlertSourceStatus[];
+}
+
+function normalizeAlert(data: AgentAlertPayload, endpoint: Pick<ServerEndpoint, 'id' | 'name'>): AgentAlert {
+  return {
+    id: data.id,
+    timestamp: data.timestamp,
+    serverId: data.server_id || data.serverId || endpoint.id,
+    serverName: data.server_name || data.serverName || endpoint.name,
+    subject: data.subject || '',
+    message: data.message || '',
+    alertType: data.alert_type || data.alertType || 'unknown',
+    severity: data.severity || 'info',
+    endpointId: data.endpoint_id || endpoint.id,
+    ruleId: data.rule_id,
+  };
+}
+
+const RULE_ENGINE_SOURCE = { id: 'rules', name: 'Alert rules', url: '' };
+
+async function fetchRuleAlerts(): Promise<AgentAlert[]> {
+  const data = await settingsApi.getRuleAlerts(ALERTS_LIMIT);
+  return data.alerts.map((alert) => normalizeAlert(alert, RULE_ENGINE_SOURCE));
+}
+
+export async function fetchEndpointAlerts(endpoint: ServerEndpoint): Promise<AgentAlert[]> {
+  const response = await fetch(`${endpointBaseUrl(endpoint)}/alerts?limit=${ALERTS_LIMIT}`);
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  const data = await response.json();
+  return (data.alerts || []).map((alert: AgentAlertPayload) => normalizeAlert(alert, endpoint));
+}
+
+// Asks every endpoint that serves alerts, plus the rule engine. One unreachable agent does
+// not hide the others; its failure is reported in `sources` instead. Alerts seen through
+// several endpoints (the same agent configured twice) are kept once, newest first.
+export async function fetchAllAlerts(endpoints: ServerEndpoint[]): Promise<AlertsResult> {
+  const targets = endpoints.filter((endpoint) => supportsFeature(endpoint, 'alerts'));
+  const results = await Promise.allSettled([...targets.map(fetchEndpointAlerts), fetchRuleAlerts()]);
+  const sourceInfo = [...targets, RULE_ENGINE_SOURCE];
+
+  const byId = new Map<string, AgentAlert>();
+  const sources = results.map((result, index): AlertSourceStatus => {
+    const { id, name } = sourceInfo[index];
+    if (result.status === 'rejected') {
+      console.error(`Failed to fetch alerts from ${name}:`, result.reason);
+      return { id, name, ok: false, count: 0, error: (result.reason as Error).message };
+    }
+    result.value.forEach((alert) => {
+      if (!byId.has(alert.id)) byId.set(alert.id, alert);
+    });
+    return { id, name, ok: true, count: result.value.length };
+  });
+
+  const alerts = [...byId.values()].sort(
+    (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime(),
+  );
+  return { alerts, sources };
+}
+
+export function useAlerts(endpoints: ServerEndpoint[]) {
+  return useQuery({
+    queryKey: ['alerts', endpoints.map((e) => `${e.id}:${e.url}`)],
+    queryFn: () => fetchAllAlerts(endpoints),
+    enabled: endpoints.length > 0,
+    refetchInterval: ALERTS_POLL_INTERVAL,
+    placeholderData: (previous) => previous,
+  });
+}
+
+export const alertStatesQueryKey = ['alertStates'] as const;
+
+// Lifecycle state per alert id; alerts without a stored state are open
+export function useAlertStates() {
+  return useQuery({
+    queryKey: alertStatesQueryKey,
+    queryFn: async () => {
+      const states = await settingsApi.getAlertStates();
+      return new Map(states.map((state) => [state.alert_id, state]));
+    },
+    refetchInterval: ALERTS_POLL_INTERVAL,
+  });
+}
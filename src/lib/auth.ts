@@ -0,0 +1,98 @@
+// Auth client - session cookie login against the settings server
+import { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+
+const AUTH_BASE = '/api/auth';
+
+export type UserRole = 'viewer' | 'operator' | 'admin';
+
+// Each role can do everything the roles before it can
+export const USER_ROLES: { value: UserRole; label: string; description: string }[] = [
+  { value: 'viewer', label: 'Viewer', description: 'Sees dashboards and alerts' },
+  { value: 'operator', label: 'Operator', description: 'Also acknowledges alerts and edits custom dashboards' },
+  { value: 'admin', label: 'Admin', description: 'Also changes settings and manages users' },
+];
+
+export interface AuthUser {
+  id: string;
+  username: string;
+  role: UserRole;
+  created_at?: string;
+  updated_at?: string;
+  last_login_at?: string | null;
+}
+
+export interface Session {
+  user: AuthUser | null;
+  // True until the first admin account exists
+  setup_required: boolean;
+}
+
+const SESSION_EXPIRED_EVENT = 'monitor:session-expired';
+
+export const sessionQueryKey = ['session'] as const;
+
+export function hasRole(user: AuthUser | null | undefined, role: UserRole): boolean {
+  if (!user) return false;
+  const rank = USER_ROLES.map((r) => r.value);
+  return rank.indexOf(user.role) >= rank.indexOf(role);
+}
+
+// fetch for the settings API: a 401 means the session ended, so the app goes back to the login page
+export async function apiFetch(input: string, init?: RequestInit): Promise<Response> {
+  const response = await fetch(input, init);
+  if (response.status === 401) window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT));
+  return response;
+}
+
+async function postAuth<T>(path: string, body?: unknown): Promise<T> {
+  const response = await fetch(`${AUTH_BASE}/${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || `Request failed (HTTP ${response.status})`);
+  return data;
+}
+
+export async function getSession(): Promise<Session> {
+  const response = await fetch(`${AUTH_BASE}/session`);
+  if (!response.ok) throw new Error('Failed to fetch session');
+  return response.json();
+}
+
+export function login(username: string, password: string): Promise<AuthUser> {
+  return postAuth('login', { username, password });
+}
+
+export function setupAdmin(username: string, password: string): Promise<AuthUser> {
+  return postAuth('setup', { username, password });
+}
+
+export async function logout(): Promise<void> {
+  await postAuth('logout');
+}
+
+export function useSession() {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const expire = () => queryClient.invalidateQueries({ queryKey: sessionQueryKey });
+    window.addEventListener(SESSION_EXPIRED_EVENT, expire);
+    return () => window.removeEventListener(SESSION_EXPIRED_EVENT, expire);
+  }, [queryClient]);
+
+  const query = useQuery({
+    queryKey: sessionQueryKey,
+    queryFn: getSession,
+    staleTime: 60000,
+  });
+
+  return {
+    user: query.data?.user ?? null,
+    setupRequired: query.data?.setup_required ?? false,
+    isLoading: query.isLoading,
+    isError: query.isError,
+  };
+}
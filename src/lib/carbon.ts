@@ -0,0 +1,164 @@
+// Carbon estimation - measured kWh from the agents times the grid carbon intensity of each server's site
+import { useQueries, useQuery } from '@tanstack/react-query';
+import { EnergyReport, EnergySource, fetchEnergyReport, hourOfDay } from '@/lib/energy';
+import { useOverheadFactor, withOverhead } from '@/lib/facility';
+import * as settingsApi from '@/lib/settingsApi';
+import type { CarbonIntensity } from '@/lib/settingsApi';
+
+export const DEFAULT_SITE = 'default';
+
+export type CarbonPeriod = '24h' | '7d' | '30d';
+
+export const CARBON_PERIODS: { value: CarbonPeriod; label: string }[] = [
+  { value: '24h', label: 'Last 24 hours' },
+  { value: '7d', label: 'Last 7 days' },
+  { value: '30d', label: 'Last 30 days' },
+];
+
+export interface CarbonEstimate {
+  grams: number;
+  kwh: number;
+  // Average intensity weighted by energy, gCO2e/kWh
+  intensity: number;
+  covered_hours: number;
+  elapsed_hours: number;
+}
+
+export function formatCarbon(grams: number): string {
+  if (grams < 1000) return `${grams.toFixed(0)} g`;
+  if (grams < 1000000) return `${(grams / 1000).toFixed(grams < 100000 ? 2 : 0)} kg`;
+  return `${(grams / 1000000).toFixed(2)} t`;
+}
+
+// "7", "07" or "07:00"; profiles are hourly so minutes must be zero
+function parseHour(text: string): number | null {
+  const match = text.match(/^(\d{1,2})(?::(\d{2}))?$/);
+  if (!match || (match[2] && Number(match[2]) !== 0)) return null;
+  const hour = Number(match[1]);
+  return hour <= 23 ? hour : null;
+}
+
+// Reads "hour,gCO2e/kWh" rows (comma, semicolon or tab separated, optional header, # comments).
+// Hours that are not listed keep the value of the previous listed hour, wrapping around midnight.
+export function parseIntensityProfileCsv(text: string): number[] {
+  const values = new Map<number, number>();
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) return;
+    const columns = line.split(/[,;\t]/).map((column) => column.trim());
+    const lineNumber = index + 1;
+    const hour = parseHour(columns[0]);
+
+    if (hour === null) {
+      // A header is only allowed before the first data row
+      if (values.size === 0 && isNaN(Number(columns[0]))) return;
+      throw new Error(`Line ${lineNumber}: "${columns[0]}" is not an hour between 0 and 23`);
+    }
+    const value = Number(columns[1]);
+    if (columns[1] === undefined || columns[1] === '' || isNaN(value) || value < 0) {
+      throw new Error(`Line ${lineNumber}: "${columns[1] ?? ''}" is not a gCO2e/kWh value`);
+    }
+    if (values.has(hour)) throw new Error(`Line ${lineNumber}: hour ${hour} is listed twice`);
+    values.set(hour, value);
+  });
+
+  if (values.size === 0) throw new Error('The file has no hour and intensity rows');
+
+  const hours = [...values.keys()].sort((a, b) => a - b);
+  return Array.from({ length: 24 }, (_, hour) => {
+    const from = [...hours].reverse().find((h) => h <= hour) ?? hours[hours.length - 1];
+    return values.get(from);
+  });
+}
+
+// The intensity whose site matches the server's location, falling back to the default site
+export function intensityForSite(intensities: CarbonIntensity[], site?: string): CarbonIntensity | undefined {
+  const name = site?.trim().toLowerCase();
+  return (
+    (name && intensities.find((i) => i.site.toLowerCase() === name)) ||
+    intensities.find((i) => i.site === DEFAULT_SITE)
+  );
+}
+
+export function intensityAt(intensity: CarbonIntensity, time: number): number {
+  if (!intensity.profile) return intensity.g_per_kwh;
+  return intensity.profile[hourOfDay(time, intensity.timezone)];
+}
+
+// Each bucket is weighted by the intensity at its midpoint, so profiles need hourly buckets
+export function estimateCarbon(report: EnergyReport, intensity: CarbonIntensity): CarbonEstimate {
+  const grams = report.buckets.reduce(
+    (sum, bucket) => sum + bucket.kwh.total * intensityAt(intensity, (bucket.start + bucket.end) / 2),
+    0,
+  );
+  const kwh = report.totals.kwh.total;
+  return {
+    grams,
+    kwh,
+    intensity: kwh > 0 ? grams / kwh : intensityAt(intensity, Date.now()),
+    covered_hours: report.totals.covered_hours,
+    elapsed_hours: report.totals.elapsed_hours,
+  };
+}
+
+export function sumCarbon(estimates: CarbonEstimate[]): CarbonEstimate | null {
+  if (estimates.length === 0) return null;
+  const grams = estimates.reduce((sum, e) => sum + e.grams, 0);
+  const kwh = estimates.reduce((sum, e) => sum + e.kwh, 0);
+  return {
+    grams,
+    kwh,
+    intensity: kwh > 0 ? grams / kwh : estimates.reduce((sum, e) => sum + e.intensity, 0) / estimates.length,
+    covered_hours: estimates.reduce((sum, e) => sum + e.covered_hours, 0),
+    elapsed_hours: estimates.reduce((sum, e) => sum + e.elapsed_hours, 0),
+  };
+}
+
+export function useCarbonIntensities() {
+  return useQuery({
+    queryKey: ['carbonIntensity'],
+    queryFn: settingsApi.getCarbonIntensities,
+  });
+}
+
+export interface ServerCarbon extends EnergySource {
+  site: string;
+  // Facility overhead applied to the measured energy, 1 when overhead is not included
+  pue: number;
+  estimate?: CarbonEstimate;
+  isError: boolean;
+}
+
+// Estimates for each source with an endpoint, plus their sum. Sources without an endpoint are skipped.
+export function useCarbonEstimates(sources: EnergySource[], period: CarbonPeriod) {
+  const { data: intensities = [], isLoading: intensitiesLoading } = useCarbonIntensities();
+  const { pueFor } = useOverheadFactor();
+  const measured = sources.filter((source) => source.endpoint);
+  const reports = useQueries({
+    queries: measured.map((source) => ({
+      queryKey: ['energy', source.endpoint.id, source.serverId, period, 'hour'],
+      queryFn: () => fetchEnergyReport(source.endpoint, source.serverId, period, 'hour'),
+      refetchInterval: 5 * 60 * 1000,
+    })),
+  });
+
+  const servers: ServerCarbon[] = measured.map((source, index) => {
+    const intensity = intensityForSite(intensities, source.endpoint.location);
+    const report = reports[index]?.data;
+    const pue = pueFor(source.endpoint);
+    return {
+      ...source,
+      site: intensity?.site || DEFAULT_SITE,
+      pue,
+      estimate: report && intensity ? estimateCarbon(withOverhead(report, pue), intensity) : undefined,
+      isError: !!reports[index]?.isError,
+    };
+  });
+
+  return {
+    servers,
+    total: sumCarbon(servers.filter((s) => s.estimate).map((s) => s.estimate)),
+    isLoading: intensitiesLoading || reports.some((report) => report.isLoading),
+  };
+}
@@ -0,0 +1,254 @@
+// Electricity cost - measured hourly kWh priced with the tariff that applies to each server
+import { useQueries, useQuery } from '@tanstack/react-query';
+import { addMonths, startOfDay, startOfMonth } from 'date-fns';
+import { EnergyBucketSummary, EnergyReport, EnergySource, fetchEnergyReport, hourOfDay } from '@/lib/energy';
+import { useOverheadFactor, withOverhead } from '@/lib/facility';
+import * as settingsApi from '@/lib/settingsApi';
+import type { ServerEndpoint, Tariff, TariffRates, TariffType } from '@/lib/settingsApi';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const TARIFF_TYPES: { value: TariffType; label: string; description: string }[] = [
+  { value: 'flat', label: 'Flat rate', description: 'One price for every kWh' },
+  { value: 'day_night', label: 'Day/night', description: 'A cheaper price during night hours' },
+  {
+    value: 'tiered',
+    label: 'Tiered',
+    description: 'Price per kWh rises with the monthly consumption of all its servers',
+  },
+];
+
+export const DEFAULT_RATES: Record<TariffType, TariffRates> = {
+  flat: { rate: 0.3 },
+  day_night: { day_rate: 0.35, night_rate: 0.2, night_start: 22, night_end: 6 },
+  tiered: {
+    tiers: [
+      { up_to_kwh: 100, rate: 0.25 },
+      { up_to_kwh: null, rate: 0.35 },
+    ],
+  },
+};
+
+export type TariffDraft = Omit<Tariff, 'id' | 'created_at' | 'updated_at'> & { id?: string };
+
+export const NEW_TARIFF: TariffDraft = {
+  name: '',
+  currency: 'EUR',
+  type: 'flat',
+  rates: DEFAULT_RATES.flat,
+  timezone: null,
+  scope_type: 'default',
+  scope_value: null,
+};
+
+export interface CostSummary {
+  currency: string;
+  today: number;
+  month: number;
+  // Month-to-date cost extended to the whole month at the measured rate; null before anything was measured
+  projection: number | null;
+  kwh_today: number;
+  kwh_month: number;
+}
+
+export function formatCost(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+  } catch {
+    // Not an ISO 4217 code, e.g. a symbol typed in by hand
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
+export function describeTariffRates(tariff: Tariff): string {
+  const price = (rate: number) => `${formatCost(rate, tariff.currency)}/kWh`;
+  const rates = tariff.rates;
+  if ('rate' in rates) return price(rates.rate);
+  if ('tiers' in rates) {
+    return rates.tiers
+      .map((tier) => `${price(tier.rate)}${tier.up_to_kwh !== null ? ` to ${tier.up_to_kwh} kWh` : ' above'}`)
+      .join(', ');
+  }
+  const hour = (h: number) => `${String(h).padStart(2, '0')}:00`;
+  return `${price(rates.day_rate)} day, ${price(rates.night_rate)} night ${hour(rates.night_start)}–${hour(rates.night_end)}`;
+}
+
+export function describeTariffScope(tariff: Tariff): string {
+  if (tariff.scope_type === 'site') return `Site: ${tariff.scope_value}`;
+  if (tariff.scope_type === 'tag') return `Tag: ${tariff.scope_value}`;
+  return 'All other servers';
+}
+
+// A tariff for one of the server's tags wins over one for its site, which wins over the default
+export function tariffForEndpoint(tariffs: Tariff[], endpoint?: ServerEndpoint): Tariff | undefined {
+  const tags = endpoint?.tags || [];
+  const site = endpoint?.location?.trim().toLowerCase();
+  return (
+    tariffs.find((t) => t.scope_type === 'tag' && tags.includes(t.scope_value)) ||
+    (site && tariffs.find((t) => t.scope_type === 'site' && t.scope_value?.trim().toLowerCase() === site)) ||
+    tariffs.find((t) => t.scope_type === 'default')
+  );
+}
+
+function isNight(rates: Extract<TariffRates, { night_start: number }>, hour: number): boolean {
+  return rates.night_start < rates.night_end
+    ? hour >= rates.night_start && hour < rates.night_end
+    : hour >= rates.night_start || hour < rates.night_end;
+}
+
+// Price of `kwh` used after `usedKwh` have already been used this month
+function tieredCost(tiers: { up_to_kwh: number | null; rate: number }[], usedKwh: number, kwh: number): number {
+  let lower = 0;
+  return tiers.reduce((cost, tier) => {
+    const upper = tier.up_to_kwh ?? Infinity;
+    const inTier = Math.max(0, Math.min(upper, usedKwh + kwh) - Math.max(lower, usedKwh));
+    lower = upper;
+    return cost + inTier * tier.rate;
+  }, 0);
+}
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+// Cost of each bucket of each server, in order; buckets must be hourly and start at the beginning of the
+// month for tiers. A tiered tariff describes one meter shared by every server it covers, so each hour is
+// priced on the servers' combined energy and the cost of that hour split by their share of it.
+function priceBuckets(bucketsPerServer: EnergyBucketSummary[][], tariff: Tariff): number[][] {
+  const rates = tariff.rates;
+  if ('tiers' in rates) {
+    const hourly = new Map<number, number>();
+    bucketsPerServer
+      .flat()
+      .forEach((bucket) => hourly.set(bucket.start, (hourly.get(bucket.start) ?? 0) + bucket.kwh.total));
+    const pricePerKwh = new Map<number, number>();
+    let usedKwh = 0;
+    [...hourly.keys()]
+      .sort((a, b) => a - b)
+      .forEach((start) => {
+        const kwh = hourly.get(start);
+        pricePerKwh.set(start, kwh > 0 ? tieredCost(rates.tiers, usedKwh, kwh) / kwh : 0);
+        usedKwh += kwh;
+      });
+    return bucketsPerServer.map((buckets) =>
+      buckets.map((bucket) => bucket.kwh.total * pricePerKwh.get(bucket.start))
+    );
+  }
+  return bucketsPerServer.map((buckets) =>
+    buckets.map((bucket) => {
+      const kwh = bucket.kwh.total;
+      if ('rate' in rates) return kwh * rates.rate;
+      const hour = hourOfDay((bucket.start + bucket.end) / 2, tariff.timezone);
+      return kwh * (isNight(rates, hour) ? rates.night_rate : rates.day_rate);
+    })
+  );
+}
+
+// Month-to-date cost of each report, all priced with the same tariff
+export function summarizeCosts(reports: EnergyReport[], tariff: Tariff, now = new Date()): CostSummary[] {
+  const monthStart = startOfMonth(now).getTime();
+  const todayStart = startOfDay(now).getTime();
+  const monthHours = (addMonths(startOfMonth(now), 1).getTime() - monthStart) / HOUR_MS;
+  const isToday = (bucket: EnergyBucketSummary) => bucket.start >= todayStart;
+  const bucketsPerServer = reports.map((report) => report.buckets.filter((bucket) => bucket.start >= monthStart));
+  const costs = priceBuckets(bucketsPerServer, tariff);
+
+  const kwhMonth = bucketsPerServer.map((buckets) => sum(buckets.map((bucket) => bucket.kwh.total)));
+  // Extends each server's month to date to the whole month; null before anything was measured
+  const scales = bucketsPerServer.map((buckets) => {
+    const coveredHours = sum(buckets.map((bucket) => bucket.covered_hours));
+    return coveredHours > 0 ? monthHours / coveredHours : null;
+  });
+  // Tiers make cost grow faster than energy, so project the combined energy and price that instead
+  const projectedKwh = sum(kwhMonth.map((kwh, index) => kwh * (scales[index] ?? 0)));
+  const projectedPricePerKwh =
+    'tiers' in tariff.rates && projectedKwh > 0 ? tieredCost(tariff.rates.tiers, 0, projectedKwh) / projectedKwh : 0;
+
+  return bucketsPerServer.map((buckets, index) => {
+    const month = sum(costs[index]);
+    const scale = scales[index];
+    let projection: number | null = null;
+    if (scale !== null) {
+      projection = 'tiers' in tariff.rates ? kwhMonth[index] * scale * projectedPricePerKwh : month * scale;
+    }
+    return {
+      currency: tariff.currency,
+      today: sum(costs[index].filter((_, bucket) => isToday(buckets[bucket]))),
+      month,
+      projection,
+      kwh_today: sum(buckets.filter(isToday).map((bucket) => bucket.kwh.total)),
+      kwh_month: kwhMonth[index],
+    };
+  });
+}
+
+export function useTariffs() {
+  return useQuery({
+    queryKey: ['tariffs'],
+    queryFn: settingsApi.getTariffs,
+  });
+}
+
+export interface ServerCost extends EnergySource {
+  tariff?: Tariff;
+  // Facility overhead applied to the measured energy, 1 when overhead is not included
+  pue: number;
+  cost?: CostSummary;
+  isError: boolean;
+}
+
+export type CostTotals = Record<string, { today: number; month: number; projection: number }>;
+
+// Month-to-date costs for each source with an endpoint, and fleet totals per currency. Pass every server
+// priced with the same tiered tariff, even to show one of them: the tiers apply to their combined energy.
+export function useElectricityCosts(sources: EnergySource[]) {
+  const { data: tariffs = [], isLoading: tariffsLoading } = useTariffs();
+  const { pueFor } = useOverheadFactor();
+  const now = new Date();
+  // The whole month so far in hourly buckets, so day/night hours and tiers can be priced
+  const period = `${Math.max(1, Math.ceil((now.getTime() - startOfMonth(now).getTime()) / HOUR_MS))}h`;
+  const measured = sources.filter((source) => source.endpoint);
+  const reports = useQueries({
+    queries: measured.map((source) => ({
+      queryKey: ['energy', source.endpoint.id, source.serverId, period, 'hour'],
+      queryFn: () => fetchEnergyReport(source.endpoint, source.serverId, period, 'hour'),
+      refetchInterval: 5 * 60 * 1000,
+    })),
+  });
+
+  const servers: ServerCost[] = measured.map((source, index) => ({
+    ...source,
+    tariff: tariffForEndpoint(tariffs, source.endpoint),
+    pue: pueFor(source.endpoint),
+    isError: !!reports[index]?.isError,
+  }));
+  // Servers sharing a tariff are priced together. A tiered tariff waits until every report has loaded
+  // or failed, since each server's cost depends on the others' energy.
+  tariffs.forEach((tariff) => {
+    const priced = servers
+      .map((server, index) => ({ server, query: reports[index] }))
+      .filter(({ server, query }) => server.tariff === tariff && query?.data);
+    if (priced.length === 0) return;
+    const loading = servers.some((server, index) => server.tariff === tariff && reports[index]?.isLoading);
+    if ('tiers' in tariff.rates && loading) return;
+    const costs = summarizeCosts(
+      priced.map(({ server, query }) => withOverhead(query.data, server.pue)),
+      tariff,
+      now
+    );
+    priced.forEach(({ server }, index) => (server.cost = costs[index]));
+  });
+
+  const totals: CostTotals = {};
+  servers.forEach(({ cost }) => {
+    if (!cost) return;
+    const total = (totals[cost.currency] ??= { today: 0, month: 0, projection: 0 });
+    total.today += cost.today;
+    total.month += cost.month;
+    total.projection += cost.projection ?? cost.month;
+  });
+
+  return {
+    servers,
+    totals,
+    isLoading: tariffsLoading || reports.some((report) => report.isLoading),
+  };
+}
@@ -0,0 +1,52 @@
+// Custom dashboard - widget configuration and data source resolution
+import type { AggregateMode } from '@/lib/metricsAggregate';
+import type { ServerMetrics } from '@/lib/metricsClient';
+import type { ServerEndpoint } from '@/lib/settingsApi';
+
+// Where a widget reads its data from. Servers are referenced by endpoint id so a
+// binding survives the agent being offline.
+export type WidgetDataSource =
+  | { type: 'server'; endpointId: string }
+  | { type: 'servers'; endpointIds: string[]; aggregate: AggregateMode }
+  | { type: 'fleet'; aggregate: AggregateMode };
+
+export interface WidgetConfig {
+  i: string;
+  type: string;
+  title: string;
+  source?: WidgetDataSource;
+}
+
+export const DEFAULT_SOURCE: WidgetDataSource = { type: 'fleet', aggregate: 'avg' };
+
+export function widgetSource(widget: WidgetConfig): WidgetDataSource {
+  return widget.source || DEFAULT_SOURCE;
+}
+
+export function sourceAggregate(source: WidgetDataSource): AggregateMode {
+  return source.type === 'server' ? 'avg' : source.aggregate;
+}
+
+export function serversForSource(source: WidgetDataSource, servers: ServerMetrics[]): ServerMetrics[] {
+  switch (source.type) {
+    case 'server':
+      return servers.filter((s) => s.endpointId === source.endpointId);
+    case 'servers':
+      return servers.filter((s) => source.endpointIds.includes(s.endpointId));
+    default:
+      return servers;
+  }
+}
+
+export function describeSource(source: WidgetDataSource, endpoints: ServerEndpoint[]): string {
+  const endpointName = (id: string) => endpoints.find((e) => e.id === id)?.name || 'Unknown server';
+
+  switch (source.type) {
+    case 'server':
+      return endpointName(source.endpointId);
+    case 'servers':
+      return `${source.endpointIds.length} servers · ${source.aggregate}`;
+    default:
+      return `Fleet · ${source.aggregate}`;
+  }
+}
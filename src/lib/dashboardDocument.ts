@@ -0,0 +1,185 @@
+// Dashboard documents - versioned JSON format for exporting, importing and presets
+import { z } from 'zod';
+import type { Layout } from 'react-grid-layout';
+import type { WidgetConfig, WidgetDataSource } from '@/lib/customDashboard';
+import type { SavedDashboard, ServerEndpoint } from '@/lib/settingsApi';
+
+export const DASHBOARD_FORMAT = 'eco-stats-dashboard';
+export const DASHBOARD_FORMAT_VERSION = 2;
+
+const aggregateSchema = z.enum(['avg', 'min', 'max', 'sum']);
+
+const sourceSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('server'), endpointId: z.string() }),
+  z.object({ type: z.literal('servers'), endpointIds: z.array(z.string()).min(1), aggregate: aggregateSchema }),
+  z.object({ type: z.literal('fleet'), aggregate: aggregateSchema }),
+]);
+
+const widgetSchema = z.object({
+  i: z.string().min(1),
+  type: z.string().min(1),
+  title: z.string(),
+  source: sourceSchema.optional(),
+});
+
+const layoutItemSchema = z
+  .object({
+    i: z.string(),
+    x: z.number(),
+    y: z.number(),
+    w: z.number(),
+    h: z.number(),
+  })
+  .passthrough();
+
+const layoutsSchema = z.record(z.array(layoutItemSchema));
+
+// Servers referenced by widget sources, so bindings can be matched up on another deployment
+const serverRefSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  url: z.string(),
+});
+
+const documentSchema = z.object({
+  format: z.literal(DASHBOARD_FORMAT),
+  version: z.literal(DASHBOARD_FORMAT_VERSION),
+  name: z.string().min(1),
+  widgets: z.array(widgetSchema),
+  layouts: layoutsSchema,
+  servers: z.array(serverRefSchema).default([]),
+});
+
+export type DashboardDocument = z.infer<typeof documentSchema>;
+
+// Version 1 is the shape the custom dashboard used before documents were versioned:
+// `{ widgets, layout }` with no data sources and no format marker.
+const documentV1Schema = z.object({
+  version: z.literal(1).optional(),
+  name: z.string().optional(),
+  widgets: z.array(widgetSchema.omit({ source: true })),
+  layout: layoutsSchema,
+});
+
+const migrations: Record<number, (doc: unknown) => unknown> = {
+  1: (doc) => {
+    const v1 = documentV1Schema.parse(doc);
+    return {
+      format: DASHBOARD_FORMAT,
+      version: 2,
+      name: v1.name || 'Imported Dashboard',
+      widgets: v1.widgets,
+      layouts: v1.layout,
+      servers: [],
+    };
+  },
+};
+
+function describeIssues(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 3)
+    .map((issue) => `${issue.path.join('.') || 'document'}: ${issue.message}`)
+    .join('; ');
+}
+
+function documentVersion(doc: unknown): number {
+  if (typeof doc !== 'object' || doc === null) return NaN;
+  const { version } = doc as { version?: unknown };
+  return typeof version === 'number' ? version : 1;
+}
+
+// Validates a parsed JSON value and migrates older versions to the current one
+export function parseDashboardDocument(json: unknown): DashboardDocument {
+  let doc = json;
+  let version = documentVersion(doc);
+  if (Number.isNaN(version)) throw new Error('Not a dashboard document');
+  if (version > DASHBOARD_FORMAT_VERSION) {
+    throw new Error(
+      `Document version ${version} is newer than this dashboard supports (${DASHBOARD_FORMAT_VERSION})`,
+    );
+  }
+
+  try {
+    while (version < DASHBOARD_FORMAT_VERSION) {
+      const migrate = migrations[version];
+      if (!migrate) throw new Error(`Unsupported document version ${version}`);
+      doc = migrate(doc);
+      version = documentVersion(doc);
+    }
+    return documentSchema.parse(doc);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new Error(`Invalid dashboard document: ${describeIssues(error)}`);
+    }
+    throw error;
+  }
+}
+
+function sourceEndpointIds(source: WidgetDataSource | undefined): string[] {
+  if (!source) return [];
+  if (source.type === 'server') return [source.endpointId];
+  if (source.type === 'servers') return source.endpointIds;
+  return [];
+}
+
+export function toDashboardDocument(
+  dashboard: Pick<SavedDashboard, 'name' | 'widgets' | 'layouts'>,
+  endpoints: ServerEndpoint[],
+): DashboardDocument {
+  const referenced = new Set(dashboard.widgets.flatMap((w) => sourceEndpointIds(w.source)));
+
+  return {
+    format: DASHBOARD_FORMAT,
+    version: DASHBOARD_FORMAT_VERSION,
+    name: dashboard.name,
+    widgets: dashboard.widgets,
+    layouts: dashboard.layouts,
+    servers: endpoints
+      .filter((e) => referenced.has(e.id))
+      .map(({ id, name, url }) => ({ id, name, url })),
+  };
+}
+
+// Rebinds widget sources to this deployment's endpoints, matching by URL and then by name.
+// Widgets whose servers cannot be found fall back to the fleet.
+export function fromDashboardDocument(
+  doc: DashboardDocument,
+  endpoints: ServerEndpoint[],
+): { widgets: WidgetConfig[]; layouts: { [breakpoint: string]: Layout[] }; unmatched: number } {
+  let unmatched = 0;
+  const resolve = (id: string): string | undefined => {
+    if (endpoints.some((e) => e.id === id)) return id;
+    const ref = doc.servers.find((s) => s.id === id);
+    if (!ref) return undefined;
+    return (endpoints.find((e) => e.url === ref.url) || endpoints.find((e) => e.name === ref.name))?.id;
+  };
+
+  const widgets = (doc.widgets as WidgetConfig[]).map((widget): WidgetConfig => {
+    const source = widget.source;
+    if (!source || source.type === 'fleet') return widget;
+
+    if (source.type === 'server') {
+      const endpointId = resolve(source.endpointId);
+      if (endpointId) return { ...widget, source: { ...source, endpointId } };
+      unmatched++;
+      return { ...widget, source: { type: 'fleet', aggregate: 'avg' } };
+    }
+
+    const endpointIds = source.endpointIds.map(resolve).filter((id): id is string => !!id);
+    if (endpointIds.length > 0) return { ...widget, source: { ...source, endpointIds } };
+    unmatched++;
+    return { ...widget, source: { type: 'fleet', aggregate: source.aggregate } };
+  });
+
+  return { widgets, layouts: doc.layouts as { [breakpoint: string]: Layout[] }, unmatched };
+}
+
+export function downloadDashboardDocument(doc: DashboardDocument) {
+  const blob = new Blob([JSON.stringify(doc, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${doc.name.toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'dashboard'}.dashboard.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,141 @@
+// Efficiency - power relative to the work done, and the energy servers spend idle
+import { useSyncExternalStore } from 'react';
+import { useQueries, useQuery } from '@tanstack/react-query';
+import { endpointBaseUrl, type ServerMetrics } from '@/lib/metricsClient';
+import type { EnergySource } from '@/lib/energy';
+import type { ServerEndpoint } from '@/lib/settingsApi';
+
+export interface IdleSummary {
+  hours: number;
+  kwh: number;
+  // Fraction of the measured time, and of the measured energy, spent under the idle threshold
+  time_share: number;
+  energy_share: number;
+  avg_power_w: number | null;
+}
+
+export interface EfficiencyReport {
+  serverId: string;
+  period: string;
+  from: number;
+  to: number;
+  idle_threshold: number;
+  cores: number | null;
+  measured_hours: number;
+  kwh: number;
+  avg_power_w: number | null;
+  avg_cpu: number | null;
+  watts_per_cpu_percent: number | null;
+  watts_per_core: number | null;
+  idle: IdleSummary;
+  busy_avg_power_w: number | null;
+}
+
+// Agents keep raw samples for 7 days, so longer periods would only cover the same data
+export type EfficiencyPeriod = '24h' | '7d';
+
+export const EFFICIENCY_PERIODS: { value: EfficiencyPeriod; label: string }[] = [
+  { value: '24h', label: 'Last 24 hours' },
+  { value: '7d', label: 'Last 7 days' },
+];
+
+export const IDLE_THRESHOLD_OPTIONS = [2, 5, 10, 15, 20];
+
+const IDLE_THRESHOLD_KEY = 'idleCpuThreshold';
+const DEFAULT_IDLE_THRESHOLD = 10;
+const listeners = new Set<() => void>();
+let idleThreshold = Number(localStorage.getItem(IDLE_THRESHOLD_KEY)) || DEFAULT_IDLE_THRESHOLD;
+
+// CPU usage (%) under which a server counts as idle
+export function setIdleThreshold(threshold: number) {
+  idleThreshold = threshold;
+  localStorage.setItem(IDLE_THRESHOLD_KEY, String(threshold));
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function useIdleThreshold(): number {
+  return useSyncExternalStore(subscribe, () => idleThreshold);
+}
+
+export type WasteCandidate = 'power_down' | 'consolidate';
+
+// Servers idle nearly all the time could be switched off; mostly idle ones could share a host
+export function wasteCandidate(idle: IdleSummary): WasteCandidate | undefined {
+  if (idle.time_share >= 0.9) return 'power_down';
+  if (idle.time_share >= 0.5) return 'consolidate';
+  return undefined;
+}
+
+// Instantaneous figures from the latest metrics, for servers whose agent has no /efficiency
+export function liveEfficiency(server: ServerMetrics) {
+  const { cpu, power } = server.metrics;
+  return {
+    wattsPerCpuPercent: cpu.usage > 0 ? power.total / cpu.usage : null,
+    wattsPerCore: cpu.cores > 0 ? power.total / cpu.cores : null,
+  };
+}
+
+export async function fetchEfficiency(
+  endpoint: Pick<ServerEndpoint, 'url'>,
+  serverId: string,
+  period: EfficiencyPeriod,
+  threshold: number,
+): Promise<EfficiencyReport> {
+  const params = new URLSearchParams({ period, idle_threshold: String(threshold) });
+  const response = await fetch(`${endpointBaseUrl(endpoint)}/efficiency/${encodeURIComponent(serverId)}?${params}`);
+  if (!response.ok) throw new Error(`Failed to fetch efficiency: HTTP ${response.status}`);
+  return response.json();
+}
+
+export function useEfficiency(endpoint: ServerEndpoint | undefined, serverId: string, period: EfficiencyPeriod) {
+  const threshold = useIdleThreshold();
+  return useQuery({
+    queryKey: ['efficiency', endpoint?.id, serverId, period, threshold],
+    queryFn: () => fetchEfficiency(endpoint, serverId, period, threshold),
+    enabled: !!endpoint,
+    refetchInterval: 5 * 60 * 1000,
+  });
+}
+
+export interface ServerEfficiency extends EnergySource {
+  report?: EfficiencyReport;
+  candidate?: WasteCandidate;
+  isError: boolean;
+}
+
+// Reports for each source with an endpoint, ranked by the energy spent idle. Sources without an endpoint are skipped.
+export function useIdleWaste(sources: EnergySource[], period: EfficiencyPeriod) {
+  const threshold = useIdleThreshold();
+  const measured = sources.filter((source) => source.endpoint);
+  const reports = useQueries({
+    queries: measured.map((source) => ({
+      queryKey: ['efficiency', source.endpoint.id, source.serverId, period, threshold],
+      queryFn: () => fetchEfficiency(source.endpoint, source.serverId, period, threshold),
+      refetchInterval: 5 * 60 * 1000,
+    })),
+  });
+
+  const servers: ServerEfficiency[] = measured
+    .map((source, index) => {
+      const report = reports[index]?.data;
+      return {
+        ...source,
+        report,
+        candidate: report && report.measured_hours > 0 ? wasteCandidate(report.idle) : undefined,
+        isError: !!reports[index]?.isError,
+      };
+    })
+    .sort((a, b) => (b.report?.idle.kwh ?? -1) - (a.report?.idle.kwh ?? -1));
+
+  return {
+    servers,
+    idleKwh: servers.reduce((sum, s) => sum + (s.report?.idle.kwh ?? 0), 0),
+    totalKwh: servers.reduce((sum, s) => sum + (s.report?.kwh ?? 0), 0),
+    isLoading: reports.some((report) => report.isLoading),
+  };
+}
@@ -0,0 +1,112 @@
+// Energy accounting - kWh integrated by the agent from its stored power samples
+import { useQuery } from '@tanstack/react-query';
+import { endpointBaseUrl } from '@/lib/metricsClient';
+import type { ServerEndpoint } from '@/lib/settingsApi';
+
+export type EnergyComponent = 'total' | 'cpu' | 'gpu' | 'ram' | 'storage' | 'other';
+
+export type EnergyBucket = 'hour' | 'day' | 'week' | 'month';
+
+export interface EnergySummary {
+  kwh: Record<EnergyComponent, number>;
+  // Hours with samples close enough together to integrate, out of the hours that have passed
+  covered_hours: number;
+  elapsed_hours: number;
+  coverage: number;
+}
+
+export interface EnergyBucketSummary extends EnergySummary {
+  start: number;
+  end: number;
+}
+
+// Time between two samples further apart than the agent's max gap; `ongoing` when no sample arrived since
+export interface EnergyGap {
+  start: number;
+  end: number;
+  ongoing?: boolean;
+}
+
+export interface EnergyReport {
+  serverId: string;
+  period: string;
+  bucket: EnergyBucket;
+  from: number;
+  to: number;
+  max_gap_seconds: number;
+  totals: EnergySummary;
+  buckets: EnergyBucketSummary[];
+  gaps: EnergyGap[];
+}
+
+export type EnergyPeriod = '24h' | '7d' | '30d' | '84d' | '365d';
+
+export const ENERGY_PERIODS: { value: EnergyPeriod; label: string; bucket: EnergyBucket }[] = [
+  { value: '24h', label: 'Last 24 hours', bucket: 'hour' },
+  { value: '7d', label: 'Last 7 days', bucket: 'day' },
+  { value: '30d', label: 'Last 30 days', bucket: 'day' },
+  { value: '84d', label: 'Last 12 weeks', bucket: 'week' },
+  { value: '365d', label: 'Last 12 months', bucket: 'month' },
+];
+
+// Same colors as the power-by-component chart
+export const ENERGY_COMPONENTS: { key: Exclude<EnergyComponent, 'total'>; label: string; color: string }[] = [
+  { key: 'cpu', label: 'CPU', color: 'hsl(var(--chart-1))' },
+  { key: 'gpu', label: 'GPU', color: 'hsl(var(--chart-5))' },
+  { key: 'ram', label: 'RAM', color: 'hsl(var(--chart-2))' },
+  { key: 'storage', label: 'Storage', color: 'hsl(var(--chart-3))' },
+  { key: 'other', label: 'Other', color: 'hsl(var(--chart-4))' },
+];
+
+export function formatEnergy(kwh: number): string {
+  if (kwh < 1) return `${(kwh * 1000).toFixed(0)} Wh`;
+  return `${kwh.toFixed(kwh < 100 ? 2 : 0)} kWh`;
+}
+
+export function formatHours(hours: number): string {
+  if (hours < 1) return `${Math.round(hours * 60)} min`;
+  if (hours < 48) return `${hours.toFixed(1)} h`;
+  return `${(hours / 24).toFixed(1)} days`;
+}
+
+// A server whose energy is read from its agent; servers without an endpoint have no energy data
+export interface EnergySource {
+  serverId: string;
+  name: string;
+  endpoint?: ServerEndpoint;
+}
+
+// Hour of day (0-23) in an IANA time zone, or in the browser's when none is given
+export function hourOfDay(time: number, timezone?: string | null): number {
+  if (!timezone) return new Date(time).getHours();
+  const hour = new Intl.DateTimeFormat('en-US', { timeZone: timezone, hour: 'numeric', hourCycle: 'h23' })
+    .formatToParts(new Date(time))
+    .find((part) => part.type === 'hour');
+  return Number(hour?.value ?? 0) % 24;
+}
+
+export function defaultBucket(period: string): EnergyBucket {
+  return ENERGY_PERIODS.find((p) => p.value === period)?.bucket || 'day';
+}
+
+// period is anything the agent accepts, e.g. '7d' or '36h'
+export async function fetchEnergyReport(
+  endpoint: Pick<ServerEndpoint, 'url'>,
+  serverId: string,
+  period: string,
+  bucket: EnergyBucket = defaultBucket(period),
+): Promise<EnergyReport> {
+  const params = new URLSearchParams({ period, bucket });
+  const response = await fetch(`${endpointBaseUrl(endpoint)}/energy/${encodeURIComponent(serverId)}?${params}`);
+  if (!response.ok) throw new Error(`Failed to fetch energy: HTTP ${response.status}`);
+  return response.json();
+}
+
+export function useEnergyReport(endpoint: ServerEndpoint | undefined, serverId: string, period: EnergyPeriod) {
+  return useQuery({
+    queryKey: ['energy', endpoint?.id, serverId, period, defaultBucket(period)],
+    queryFn: () => fetchEnergyReport(endpoint, serverId, period),
+    enabled: !!endpoint,
+    refetchInterval: 5 * 60 * 1000,
+  });
+}
@@ -0,0 +1,79 @@
+// Facility overhead - cooling and distribution losses on top of the IT power the agents report
+import { useSyncExternalStore } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { EnergyReport } from '@/lib/energy';
+import * as settingsApi from '@/lib/settingsApi';
+import type { ServerEndpoint, SiteFacility } from '@/lib/settingsApi';
+
+export const DEFAULT_FACILITY_SITE = 'default';
+
+const OVERHEAD_KEY = 'includeFacilityOverhead';
+const listeners = new Set<() => void>();
+let includeOverhead = localStorage.getItem(OVERHEAD_KEY) === 'true';
+
+// Whether carbon and cost figures use facility energy (IT energy x PUE) instead of IT energy
+export function setIncludeOverhead(include: boolean) {
+  includeOverhead = include;
+  localStorage.setItem(OVERHEAD_KEY, String(include));
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function useIncludeOverhead(): boolean {
+  return useSyncExternalStore(subscribe, () => includeOverhead);
+}
+
+export function useFacilities() {
+  return useQuery({
+    queryKey: ['facilities'],
+    queryFn: settingsApi.getFacilities,
+  });
+}
+
+// Facility settings for the server's location, or the 'default' site when that is configured
+export function facilityForEndpoint(facilities: SiteFacility[], endpoint?: ServerEndpoint): SiteFacility | undefined {
+  const site = endpoint?.location?.trim().toLowerCase();
+  return (
+    (site && facilities.find((f) => f.site.toLowerCase() === site)) ||
+    facilities.find((f) => f.site === DEFAULT_FACILITY_SITE)
+  );
+}
+
+// Servers at a site without facility settings have no known overhead
+export function pueForEndpoint(facilities: SiteFacility[], endpoint?: ServerEndpoint): number {
+  return facilityForEndpoint(facilities, endpoint)?.pue ?? 1;
+}
+
+// The PUE carbon and cost figures should apply to a server, 1 unless overhead is included
+export function useOverheadFactor() {
+  const include = useIncludeOverhead();
+  const { data: facilities = [] } = useFacilities();
+  return {
+    include,
+    pueFor: (endpoint?: ServerEndpoint) => (include ? pueForEndpoint(facilities, endpoint) : 1),
+  };
+}
+
+// Scales every kWh figure in a report by the PUE
+export function withOverhead(report: EnergyReport, pue: number): EnergyReport {
+  if (pue === 1) return report;
+  const scale = <T extends { kwh: EnergyReport['totals']['kwh'] }>(summary: T): T => ({
+    ...summary,
+    kwh: Object.fromEntries(Object.entries(summary.kwh).map(([key, kwh]) => [key, kwh * pue])) as T['kwh'],
+  });
+  return { ...report, totals: scale(report.totals), buckets: report.buckets.map(scale) };
+}
+
+export function useFacilityMeter(facility?: SiteFacility) {
+  return useQuery({
+    queryKey: ['facilityMeter', facility?.site],
+    queryFn: () => settingsApi.readFacilityMeter(facility.site),
+    enabled: !!facility?.meter_url,
+    refetchInterval: 30 * 1000,
+    retry: false,
+  });
+}
@@ -0,0 +1,65 @@
+// Metrics aggregation - combines several servers' buffered samples into one series
+import { METRICS_POLL_INTERVAL, MetricsSample } from '@/lib/metricsClient';
+
+type SampleField = Exclude<keyof MetricsSample, 'time'>;
+
+const SAMPLE_FIELDS: SampleField[] = [
+  'cpu', 'ram', 'gpu', 'cpuTemp', 'ramTemp', 'gpuTemp',
+  'power', 'powerCpu', 'powerGpu', 'powerRam', 'powerStorage', 'powerOther',
+  'networkIn', 'networkOut',
+];
+
+export type AggregateMode = 'avg' | 'min' | 'max' | 'sum';
+
+export const AGGREGATE_MODES: { value: AggregateMode; label: string }[] = [
+  { value: 'avg', label: 'Average' },
+  { value: 'min', label: 'Minimum' },
+  { value: 'max', label: 'Maximum' },
+  { value: 'sum', label: 'Sum' },
+];
+
+const reducers: Record<AggregateMode, (values: number[]) => number> = {
+  avg: (values) => values.reduce((sum, v) => sum + v, 0) / values.length,
+  min: (values) => Math.min(...values),
+  max: (values) => Math.max(...values),
+  sum: (values) => values.reduce((sum, v) => sum + v, 0),
+};
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// Samples are grouped into poll-sized time buckets so servers polled in the same cycle,
+// or back-filled from history with slightly different timestamps, line up. Fields a
+// server does not report (e.g. gpu) are aggregated over the servers that do.
+export function aggregateSamples(
+  seriesList: MetricsSample[][],
+  mode: AggregateMode = 'avg',
+  bucketMs = METRICS_POLL_INTERVAL,
+): MetricsSample[] {
+  if (seriesList.length === 1) return seriesList[0];
+
+  const buckets = new Map<number, MetricsSample[]>();
+
+  seriesList.forEach((series) => {
+    const seen = new Map<number, MetricsSample>();
+    // Keep only the latest sample per server within a bucket
+    series.forEach((sample) => seen.set(Math.floor(sample.time / bucketMs), sample));
+    seen.forEach((sample, bucket) => {
+      const group = buckets.get(bucket) || [];
+      group.push(sample);
+      buckets.set(bucket, group);
+    });
+  });
+
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([bucket, group]) => {
+      const result = { time: bucket * bucketMs } as MetricsSample;
+      SAMPLE_FIELDS.forEach((field) => {
+        const values = group.map((s) => s[field]).filter((v): v is number => typeof v === 'number');
+        if (values.length > 0) {
+          result[field] = round(reducers[mode](values));
+        }
+      });
+      return result;
+    });
+}
@@ -0,0 +1,91 @@
+// Metrics buffer - rolling in-browser time series per server, fed by every metrics poll
+import { useSyncExternalStore } from 'react';
+import type { MetricsSample } from '@/lib/metricsClient';
+
+const RETENTION_KEY = 'metricsRetentionMinutes';
+export const DEFAULT_RETENTION_MINUTES = 30;
+export const RETENTION_OPTIONS = [5, 15, 30, 60];
+
+const EMPTY: MetricsSample[] = [];
+
+const buffers = new Map<string, MetricsSample[]>();
+const seeded = new Set<string>();
+const listeners = new Set<() => void>();
+let snapshot: ReadonlyMap<string, MetricsSample[]> = new Map();
+
+let retentionMinutes = Number(localStorage.getItem(RETENTION_KEY)) || DEFAULT_RETENTION_MINUTES;
+
+function notify() {
+  snapshot = new Map(buffers);
+  listeners.forEach((listener) => listener());
+}
+
+// Drops samples that fell out of the retention window. Always returns a new array
+// so subscribers see a changed snapshot.
+function trim(samples: MetricsSample[], now = Date.now()): MetricsSample[] {
+  const cutoff = now - retentionMinutes * 60 * 1000;
+  const first = samples.findIndex((s) => s.time >= cutoff);
+  return first === -1 ? [] : samples.slice(first);
+}
+
+export function getRetentionMinutes(): number {
+  return retentionMinutes;
+}
+
+export function setRetentionMinutes(minutes: number) {
+  const grew = minutes > retentionMinutes;
+  retentionMinutes = minutes;
+  localStorage.setItem(RETENTION_KEY, String(minutes));
+
+  // A longer window needs older history than the first seed fetched
+  if (grew) seeded.clear();
+  buffers.forEach((samples, serverId) => buffers.set(serverId, trim(samples)));
+  notify();
+}
+
+export function recordSample(serverId: string, sample: MetricsSample) {
+  const samples = buffers.get(serverId) || EMPTY;
+  const last = samples[samples.length - 1];
+  if (last && last.time >= sample.time) return;
+
+  buffers.set(serverId, trim([...samples, sample], sample.time));
+  notify();
+}
+
+// Merges history fetched from the agent in front of the polled samples, skipping overlaps
+export function seedSamples(serverId: string, history: MetricsSample[]) {
+  const samples = buffers.get(serverId) || EMPTY;
+  const firstPolled = samples.length > 0 ? samples[0].time : Infinity;
+  const older = history.filter((s) => s.time < firstPolled);
+  if (older.length === 0) return;
+
+  buffers.set(serverId, trim([...older, ...samples]));
+  notify();
+}
+
+// Returns true the first time it is called for a server within the current retention window
+export function claimSeed(serverId: string): boolean {
+  if (seeded.has(serverId)) return false;
+  seeded.add(serverId);
+  return true;
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function useBufferedSamples(serverId: string | undefined): MetricsSample[] {
+  return useSyncExternalStore(subscribe, () => (serverId && buffers.get(serverId)) || EMPTY);
+}
+
+// Buffers of every server seen so far, keyed by server id
+export function useAllBufferedSamples(): ReadonlyMap<string, MetricsSample[]> {
+  return useSyncExternalStore(subscribe, () => snapshot);
+}
+
+export function useRetentionMinutes(): number {
+  return useSyncExternalStore(subscribe, getRetentionMinutes);
+}
@@ -0,0 +1,273 @@
+// Metrics client - polls every configured monitoring agent and normalizes its payload
+import { useQuery } from '@tanstack/react-query';
+import type { ServerEndpoint } from '@/lib/settingsApi';
+import { claimSeed, getRetentionMinutes, recordSample, seedSamples } from '@/lib/metricsBuffer';
+
+export const METRICS_POLL_INTERVAL = 5000;
+
+export interface ServerMetrics {
+  id: string;
+  endpointId: string;
+  name: string;
+  hostname: string;
+  os: string;
+  status: 'online' | 'offline' | 'throttled';
+  uptime: number;
+  lastSeen: Date;
+  metrics: {
+    cpu: { usage: number; temp: number; cores: number };
+    ram: { used: number; total: number; temp?: number };
+    gpu?: { usage: number; temp: number; memory: number };
+    power: {
+      total: number;
+      cpu: number;
+      gpu?: number;
+      ram: number;
+      storage: number;
+      other: number;
+    };
+    network: { in: number; out: number };
+  };
+}
+
+// Remove trailing slash from URL to prevent double slashes
+export function endpointBaseUrl(endpoint: Pick<ServerEndpoint, 'url'>): string {
+  return endpoint.url.replace(/\/+$/, '');
+}
+
+function endpointHostname(endpoint: ServerEndpoint): string {
+  try {
+    return new URL(endpoint.url).hostname;
+  } catch {
+    return endpoint.name;
+  }
+}
+
+export function ramUsagePercent(server: ServerMetrics): number {
+  const { used, total } = server.metrics.ram;
+  return total > 0 ? (used / total) * 100 : 0;
+}
+
+interface AgentMetricFields {
+  cpu?: { usage?: number; temp?: number; cores?: number };
+  ram?: { used?: number; total?: number; temp?: number };
+  memory?: { used?: number; total?: number };
+  gpu?: { usage?: number; temp?: number; memory?: number };
+  temperature?: { cpu?: number; ram?: number; gpu?: number };
+  power?: Partial<ServerMetrics['metrics']['power']>;
+  network?: { in?: number; out?: number; download_speed?: number; upload_speed?: number };
+}
+
+// Raw `/metrics` entry as served by the agent. Accepts both the nested
+// `{ metrics: { cpu, ram, ... } }` shape and the older flat `{ cpu, memory, ... }` one.
+export interface AgentMetricsPayload extends AgentMetricFields {
+  id?: string;
+  hostname?: string;
+  os?: string;
+  status?: string;
+  uptime?: number;
+  lastSeen?: string;
+  metrics?: AgentMetricFields;
+}
+
+export function normalizeServerMetrics(data: AgentMetricsPayload, endpoint: ServerEndpoint): ServerMetrics {
+  const m = data.metrics || data;
+  const serverName = endpointHostname(endpoint);
+
+  return {
+    id: data.id || endpoint.id,
+    endpointId: endpoint.id,
+    name: serverName,
+    hostname: data.hostname || serverName,
+    os: data.os || 'Unknown',
+    status: (data.status || 'online') as ServerMetrics['status'],
+    uptime: data.uptime || 0,
+    lastSeen: new Date(data.lastSeen || Date.now()),
+    metrics: {
+      cpu: {
+        usage: m.cpu?.usage || 0,
+        temp: m.temperature?.cpu || m.cpu?.temp || 0,
+        cores: m.cpu?.cores || 0,
+      },
+      ram: {
+        used: m.ram?.used || m.memory?.used || 0,
+        total: m.ram?.total || m.memory?.total || 0,
+        temp: m.temperature?.ram || m.ram?.temp || undefined,
+      },
+      gpu: m.gpu ? {
+        usage: m.gpu.usage || 0,
+        temp: m.temperature?.gpu || m.gpu.temp || 0,
+        memory: m.gpu.memory || 0,
+      } : undefined,
+      power: {
+        total: m.power?.total || 0,
+        cpu: m.power?.cpu || 0,
+        gpu: m.power?.gpu,
+        ram: m.power?.ram || 0,
+        storage: m.power?.storage || 0,
+        other: m.power?.other || 0,
+      },
+      network: {
+        in: m.network?.in || m.network?.download_speed || 0,
+        out: m.network?.out || m.network?.upload_speed || 0,
+      },
+    },
+  };
+}
+
+export function offlineServer(endpoint: ServerEndpoint): ServerMetrics {
+  const serverName = endpointHostname(endpoint);
+
+  return {
+    id: endpoint.id,
+    endpointId: endpoint.id,
+    name: serverName,
+    hostname: serverName,
+    os: 'Unknown',
+    status: 'offline',
+    uptime: 0,
+    lastSeen: new Date(),
+    metrics: {
+      cpu: { usage: 0, temp: 0, cores: 0 },
+      ram: { used: 0, total: 0 },
+      power: { total: 0, cpu: 0, ram: 0, storage: 0, other: 0 },
+      network: { in: 0, out: 0 },
+    },
+  };
+}
+
+export async function fetchEndpointMetrics(endpoint: ServerEndpoint): Promise<ServerMetrics[]> {
+  try {
+    const response = await fetch(`${endpointBaseUrl(endpoint)}/metrics`);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const data = await response.json();
+
+    // The agent wraps its payload in `{ servers: [...] }`; aggregators may return several
+    const entries = Array.isArray(data.servers) ? data.servers : [data];
+    if (entries.length === 0) return [offlineServer(endpoint)];
+    return entries.map((entry: AgentMetricsPayload) => normalizeServerMetrics(entry, endpoint));
+  } catch (error) {
+    console.error(`Failed to fetch from ${endpoint.name}:`, error);
+    return [offlineServer(endpoint)];
+  }
+}
+
+export async function fetchAllMetrics(endpoints: ServerEndpoint[]): Promise<ServerMetrics[]> {
+  const results = await Promise.all(endpoints.map(fetchEndpointMetrics));
+  return results.flat();
+}
+
+// Flat, chart-friendly snapshot of one server at one point in time
+export interface MetricsSample {
+  time: number;
+  cpu: number;
+  ram: number;
+  gpu?: number;
+  cpuTemp: number;
+  ramTemp?: number;
+  gpuTemp?: number;
+  power: number;
+  powerCpu: number;
+  powerGpu?: number;
+  powerRam: number;
+  powerStorage: number;
+  powerOther: number;
+  networkIn: number;
+  networkOut: number;
+}
+
+export function toMetricsSample(server: ServerMetrics, time: number): MetricsSample {
+  const { cpu, gpu, power, network } = server.metrics;
+
+  return {
+    time,
+    cpu: cpu.usage,
+    ram: ramUsagePercent(server),
+    gpu: gpu?.usage,
+    cpuTemp: cpu.temp,
+    ramTemp: server.metrics.ram.temp,
+    gpuTemp: gpu?.temp,
+    power: power.total,
+    powerCpu: power.cpu,
+    powerGpu: power.gpu,
+    powerRam: power.ram,
+    powerStorage: power.storage,
+    powerOther: power.other,
+    networkIn: network.in,
+    networkOut: network.out,
+  };
+}
+
+export type HistoryPeriod = '1h' | '6h' | '24h' | '7d';
+
+export const HISTORY_PERIODS: { value: HistoryPeriod; label: string }[] = [
+  { value: '1h', label: 'Last hour' },
+  { value: '6h', label: 'Last 6 hours' },
+  { value: '24h', label: 'Last 24 hours' },
+  { value: '7d', label: 'Last 7 days' },
+];
+
+// Upper bound on points per history request; the agent averages samples into buckets beyond that
+export const HISTORY_MAX_POINTS = 720;
+
+export async function fetchServerHistory(
+  endpoint: ServerEndpoint,
+  serverId: string,
+  period: HistoryPeriod | `${number}m`,
+): Promise<MetricsSample[]> {
+  const params = new URLSearchParams({ period, maxPoints: String(HISTORY_MAX_POINTS) });
+  const response = await fetch(
+    `${endpointBaseUrl(endpoint)}/history/${encodeURIComponent(serverId)}?${params}`,
+  );
+  if (!response.ok) throw new Error(`Failed to fetch history: HTTP ${response.status}`);
+  const data = await response.json();
+
+  return (data.data || []).map((entry: AgentMetricsPayload & { timestamp: number }) =>
+    toMetricsSample(normalizeServerMetrics(entry, endpoint), entry.timestamp),
+  );
+}
+
+export function useServerHistory(endpoint: ServerEndpoint | undefined, serverId: string, period: HistoryPeriod) {
+  return useQuery({
+    queryKey: ['history', endpoint?.id, serverId, period],
+    queryFn: () => fetchServerHistory(endpoint, serverId, period),
+    enabled: !!endpoint,
+    refetchInterval: 60000,
+  });
+}
+
+export function metricsQueryKey(endpoints: ServerEndpoint[]) {
+  return ['metrics', endpoints.map((e) => `${e.id}:${e.url}`)] as const;
+}
+
+// Feeds a poll into the rolling buffer and back-fills servers seen for the first time
+function recordMetrics(servers: ServerMetrics[], endpoints: ServerEndpoint[]) {
+  const now = Date.now();
+
+  servers.forEach((server) => {
+    if (server.status === 'offline') return;
+    recordSample(server.id, toMetricsSample(server, now));
+
+    const endpoint = endpoints.find((e) => e.id === server.endpointId);
+    if (endpoint && claimSeed(server.id)) {
+      fetchServerHistory(endpoint, server.id, `${getRetentionMinutes()}m`)
+        .then((history) => seedSamples(server.id, history))
+        .catch((error) => console.error(`Failed to seed history for ${server.name}:`, error));
+    }
+  });
+}
+
+// Every page that calls this with the same endpoint list shares one cache entry and one polling cycle
+export function useServerMetrics(endpoints: ServerEndpoint[]) {
+  return useQuery({
+    queryKey: metricsQueryKey(endpoints),
+    queryFn: async () => {
+      const servers = await fetchAllMetrics(endpoints);
+      recordMetrics(servers, endpoints);
+      return servers;
+    },
+    enabled: endpoints.length > 0,
+    refetchInterval: METRICS_POLL_INTERVAL,
+    placeholderData: (previous) => previous,
+  });
+}
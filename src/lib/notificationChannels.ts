@@ -0,0 +1,133 @@
+// Notification channel types and the config fields each one needs
+import type { NotificationChannel, NotificationChannelType } from '@/lib/settingsApi';
+
+export interface ChannelField {
+  key: string;
+  label: string;
+  placeholder?: string;
+  help?: string;
+  required?: boolean;
+  // Write-only: encrypted by the server and never sent back, only listed in `secrets` when set
+  secret?: boolean;
+}
+
+export interface ChannelTypeInfo {
+  label: string;
+  description: string;
+  fields: ChannelField[];
+}
+
+export const CHANNEL_TYPES: Record<NotificationChannelType, ChannelTypeInfo> = {
+  email: {
+    label: 'Email (SMTP)',
+    description: 'Sends through your SMTP server',
+    fields: [
+      { key: 'smtp_host', label: 'SMTP Host', placeholder: 'smtp.gmail.com', required: true },
+      { key: 'smtp_port', label: 'SMTP Port', placeholder: '587' },
+      { key: 'smtp_user', label: 'SMTP Username', placeholder: 'your-email@gmail.com' },
+      { key: 'smtp_pass', label: 'SMTP Password', secret: true },
+      { key: 'smtp_from', label: 'From Address', placeholder: 'Defaults to the username' },
+      { key: 'to', label: 'Alert Email Address', placeholder: 'admin@yourcompany.com', required: true },
+    ],
+  },
+  slack: {
+    label: 'Slack',
+    description: 'Incoming webhook in your Slack workspace',
+    fields: [
+      {
+        key: 'webhook_url',
+        label: 'Webhook URL',
+        placeholder: 'https://hooks.slack.com/services/YOUR/WEBHOOK/URL',
+        required: true,
+        secret: true,
+      },
+    ],
+  },
+  discord: {
+    label: 'Discord',
+    description: 'Webhook in your Discord channel settings',
+    fields: [
+      {
+        key: 'webhook_url',
+        label: 'Webhook URL',
+        placeholder: 'https://discord.com/api/webhooks/YOUR/WEBHOOK/URL',
+        required: true,
+        secret: true,
+      },
+    ],
+  },
+  teams: {
+    label: 'Microsoft Teams',
+    description: 'Incoming webhook connector or workflow in a Teams channel',
+    fields: [
+      {
+        key: 'webhook_url',
+        label: 'Webhook URL',
+        placeholder: 'https://yourcompany.webhook.office.com/webhookb2/...',
+        required: true,
+        secret: true,
+      },
+    ],
+  },
+  webhook: {
+    label: 'Webhook',
+    description: 'POSTs the alert as JSON to any URL',
+    fields: [
+      { key: 'url', label: 'URL', placeholder: 'https://example.com/hooks/alerts', required: true },
+      {
+        key: 'secret',
+        label: 'Signing Secret',
+        help: 'Adds X-Timestamp and X-Signature: sha256=HMAC-SHA256(secret, "<timestamp>.<body>")',
+        secret: true,
+      },
+    ],
+  },
+  ntfy: {
+    label: 'ntfy',
+    description: 'Push notifications through ntfy.sh or your own ntfy server',
+    fields: [
+      { key: 'server_url', label: 'Server URL', placeholder: 'https://ntfy.sh' },
+      { key: 'topic', label: 'Topic', placeholder: 'server-alerts', required: true },
+      { key: 'token', label: 'Access Token', help: 'Only for protected topics', secret: true },
+      { key: 'priority', label: 'Priority', placeholder: 'high for errors, default otherwise' },
+    ],
+  },
+  gotify: {
+    label: 'Gotify',
+    description: 'Messages to a Gotify server application',
+    fields: [
+      { key: 'server_url', label: 'Server URL', placeholder: 'https://gotify.example.com', required: true },
+      { key: 'app_token', label: 'Application Token', required: true, secret: true },
+      { key: 'priority', label: 'Priority', placeholder: '8 for errors, 5 otherwise' },
+    ],
+  },
+  incident: {
+    label: 'Incident (Events API)',
+    description: 'Opens and resolves incidents in PagerDuty or any Events API v2 compatible service',
+    fields: [
+      { key: 'routing_key', label: 'Routing Key', required: true, secret: true },
+      { key: 'events_url', label: 'Events URL', placeholder: 'https://events.pagerduty.com/v2/enqueue' },
+    ],
+  },
+};
+
+// Fields of the alert event that templates can use as {{name}}
+export const TEMPLATE_PLACEHOLDERS = ['subject', 'message', 'severity', 'server', 'time', 'status', 'alert_id'];
+
+export const DEFAULT_TEMPLATE = {
+  title: '{{subject}}',
+  body: '{{message}}\nServer: {{server}}\nSeverity: {{severity}}\nTime: {{time}}',
+};
+
+export type NotificationChannelDraft = Omit<NotificationChannel, 'id' | 'created_at' | 'updated_at'> & { id?: string };
+
+export function newChannel(type: NotificationChannelType): NotificationChannelDraft {
+  return { name: CHANNEL_TYPES[type].label, type, config: {}, template: null, enabled: true };
+}
+
+// Required fields without a value, counting secrets the server already has as filled in
+export function missingChannelFields(channel: NotificationChannelDraft): ChannelField[] {
+  return CHANNEL_TYPES[channel.type].fields.filter(
+    (field) => field.required && !channel.config[field.key]?.trim() && !channel.secrets?.includes(field.key),
+  );
+}
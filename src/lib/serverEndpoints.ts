@@ -0,0 +1,102 @@
+// Server endpoints - the settings database is the source of truth, localStorage is an offline cache
+import { useQuery } from '@tanstack/react-query';
+import * as settingsApi from '@/lib/settingsApi';
+import type { ServerEndpoint } from '@/lib/settingsApi';
+
+const CACHE_KEY = 'serverEndpoints';
+// Set once this browser has reconciled its cache with the database
+const SYNCED_KEY = 'serverEndpointsSyncedAt';
+
+export const serverEndpointsQueryKey = ['serverEndpoints'] as const;
+
+export function readCachedEndpoints(): ServerEndpoint[] | undefined {
+  const saved = localStorage.getItem(CACHE_KEY);
+  if (!saved) return undefined;
+  try {
+    return JSON.parse(saved);
+  } catch {
+    return undefined;
+  }
+}
+
+function writeCachedEndpoints(endpoints: ServerEndpoint[]) {
+  localStorage.setItem(CACHE_KEY, JSON.stringify(endpoints));
+  localStorage.setItem(SYNCED_KEY, new Date().toISOString());
+}
+
+// Loads endpoints from the database and refreshes the cache. The database always wins:
+// after the first sync, endpoints that only exist in the cache were deleted elsewhere and
+// are dropped. Before that, the cache may hold endpoints saved when they only lived in
+// this browser, so those are uploaded once (matched by id or URL to avoid duplicates). Only admins
+// may add endpoints; for other users, and for any upload that fails, the endpoint is skipped so the
+// sync still completes instead of leaving the browser on its cached list.
+export async function syncServerEndpoints(): Promise<ServerEndpoint[]> {
+  const remote = await settingsApi.getServerEndpoints();
+  const cached = readCachedEndpoints();
+
+  if (cached && !localStorage.getItem(SYNCED_KEY)) {
+    const missing = cached.filter((local) => !remote.some((e) => e.id === local.id || e.url === local.url));
+    for (const endpoint of missing) {
+      try {
+        remote.push(await settingsApi.addServerEndpoint(endpoint));
+      } catch (error) {
+        console.warn(`Could not upload cached server endpoint ${endpoint.name}:`, error);
+      }
+    }
+  }
+
+  writeCachedEndpoints(remote);
+  return remote;
+}
+
+// Starts from the cached list so pages render immediately; when the settings server is
+// unreachable the cached list stays in place and `isOffline` is set.
+export function useServerEndpoints() {
+  const query = useQuery({
+    queryKey: serverEndpointsQueryKey,
+    queryFn: syncServerEndpoints,
+    initialData: readCachedEndpoints,
+    initialDataUpdatedAt: 0,
+    retry: 1,
+  });
+
+  return {
+    endpoints: query.data || [],
+    isLoading: query.isLoading,
+    isOffline: query.isError,
+    refetch: query.refetch,
+  };
+}
+
+// Narrows the fleet by endpoint metadata; empty fields match everything
+export interface EndpointFilter {
+  search: string;
+  tag: string;
+  location: string;
+  owner: string;
+}
+
+export const EMPTY_ENDPOINT_FILTER: EndpointFilter = { search: '', tag: '', location: '', owner: '' };
+
+// `extra` adds values searched alongside the endpoint, e.g. the hostname reported by the agent
+export function matchesEndpointFilter(
+  endpoint: ServerEndpoint | undefined,
+  filter: EndpointFilter,
+  extra: string[] = [],
+): boolean {
+  if (filter.tag && !endpoint?.tags?.includes(filter.tag)) return false;
+  if (filter.location && endpoint?.location !== filter.location) return false;
+  if (filter.owner && endpoint?.owner !== filter.owner) return false;
+  if (filter.search) {
+    const search = filter.search.toLowerCase();
+    const haystack = [endpoint?.name, endpoint?.url, endpoint?.rack, endpoint?.notes, ...(endpoint?.tags || []), ...extra];
+    if (!haystack.some((value) => value?.toLowerCase().includes(search))) return false;
+  }
+  return true;
+}
+
+// Distinct non-empty values of a metadata field across endpoints, for filter options
+export function endpointFacet(endpoints: ServerEndpoint[], field: 'tags' | 'location' | 'owner'): string[] {
+  const values = endpoints.flatMap((e) => (field === 'tags' ? e.tags || [] : [e[field]]));
+  return [...new Set(values.filter((value): value is string => !!value))].sort();
+}
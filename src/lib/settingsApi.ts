@@ -1,10 +1,23 @@
 // Settings API - talks to the frontend server's SQLite database
+import type { Layout } from 'react-grid-layout';
+import type { WidgetConfig } from '@/lib/customDashboard';
+import type { AgentCapabilities } from '@/lib/agentProbe';
+import { apiFetch } from '@/lib/auth';
+import type { AuthUser, UserRole } from '@/lib/auth';
+
 const API_BASE = '/api/settings';
 
 export interface ServerEndpoint {
   id: string;
   name: string;
   url: string;
+  tags?: string[];
+  location?: string;
+  rack?: string;
+  owner?: string;
+  notes?: string;
+  // Result of the last connection test, absent until the endpoint has been tested
+  capabilities?: AgentCapabilities | null;
   created_at?: string;
 }
 
@@ -15,25 +28,108 @@ export interface AlertThresholds {
   temperature: number;
 }
 
-export interface NotificationSettings {
-  smtp_host?: string;
-  smtp_port?: string;
-  smtp_user?: string;
-  smtp_pass?: string;
-  smtp_from?: string;
-  alert_email?: string;
-  slack_webhook?: string;
-  discord_webhook?: string;
+export type NotificationChannelType =
+  | 'email'
+  | 'slack'
+  | 'discord'
+  | 'teams'
+  | 'webhook'
+  | 'ntfy'
+  | 'gotify'
+  | 'incident';
+
+// Title and body with {{placeholders}}; empty fields use the server's default template
+export interface NotificationTemplate {
+  title?: string;
+  body?: string;
+}
+
+export interface NotificationChannel {
+  id: string;
+  name: string;
+  type: NotificationChannelType;
+  // Fields depend on the type, see CHANNEL_TYPES in notificationChannels.ts. Secret fields are
+  // write-only: they can be sent when saving but are never returned.
+  config: Record<string, string>;
+  // Secret fields that have a stored value
+  secrets?: string[];
+  // Stored secret fields that cannot be decrypted with the server's key and must be entered again
+  secrets_unreadable?: string[];
+  template: NotificationTemplate | null;
+  enabled: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface SavedDashboard {
+  id: string;
+  name: string;
+  widgets: WidgetConfig[];
+  layouts: { [breakpoint: string]: Layout[] };
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type AlertStatus = 'open' | 'acknowledged' | 'resolved';
+
+export interface AlertState {
+  alert_id: string;
+  status: AlertStatus;
+  acknowledged_by?: string | null;
+  acknowledged_at?: string | null;
+  resolved_by?: string | null;
+  resolved_at?: string | null;
+  comment?: string | null;
+  updated_at?: string;
+  // Username of whoever is working on the alert, independent of its status
+  assigned_to?: string | null;
+  assigned_at?: string | null;
+}
+
+export type RuleMetric = 'cpu' | 'ram' | 'gpu' | 'cpu_temp' | 'gpu_temp' | 'power';
+export type RuleSeverity = 'info' | 'warning' | 'error';
+
+// Threshold rule evaluated by the settings server. `scope_value` is an endpoint id for
+// server scope and a tag for tag scope.
+export interface AlertRule {
+  id: string;
+  name: string;
+  metric: RuleMetric;
+  operator: '>' | '<';
+  threshold: number;
+  duration_seconds: number;
+  hysteresis: number;
+  severity: RuleSeverity;
+  scope_type: 'global' | 'server' | 'tag';
+  scope_value?: string | null;
+  enabled: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Alert raised by the rule engine, in the same snake_case shape as an agent's GET /alerts
+export interface RuleAlertRecord {
+  id: string;
+  timestamp: string;
+  server_id: string;
+  server_name: string;
+  subject: string;
+  message: string;
+  alert_type: string;
+  severity: RuleSeverity;
+  rule_id: string;
+  endpoint_id: string;
+  resolved_at: string | null;
 }
 
 export async function getServerEndpoints(): Promise<ServerEndpoint[]> {
-  const response = await fetch(`${API_BASE}/servers`);
+  const response = await apiFetch(`${API_BASE}/servers`);
   if (!response.ok) throw new Error('Failed to fetch server endpoints');
   return response.json();
 }
 
 export async function addServerEndpoint(endpoint: ServerEndpoint): Promise<ServerEndpoint> {
-  const response = await fetch(`${API_BASE}/servers`, {
+  const response = await apiFetch(`${API_BASE}/servers`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify(endpoint),
@@ -42,21 +138,34 @@ export async function addServerEndpoint(endpoint: ServerEndpoint): Promise<Serve
   return response.json();
 }
 
+export async function updateServerEndpoint(
+  id: string,
+  changes: Partial<Omit<ServerEndpoint, 'id' | 'created_at'>>,
+): Promise<ServerEndpoint> {
+  const response = await apiFetch(`${API_BASE}/servers/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(changes),
+  });
+  if (!response.ok) throw new Error('Failed to update server endpoint');
+  return response.json();
+}
+
 export async function deleteServerEndpoint(id: string): Promise<void> {
-  const response = await fetch(`${API_BASE}/servers/${id}`, {
+  const response = await apiFetch(`${API_BASE}/servers/${id}`, {
     method: 'DELETE',
   });
   if (!response.ok) throw new Error('Failed to delete server endpoint');
 }
 
 export async function getAlertThresholds(): Promise<AlertThresholds> {
-  const response = await fetch(`${API_BASE}/alerts`);
+  const response = await apiFetch(`${API_BASE}/alerts`);
   if (!response.ok) throw new Error('Failed to fetch alert thresholds');
   return response.json();
 }
 
 export async function saveAlertThresholds(thresholds: AlertThresholds): Promise<void> {
-  const response = await fetch(`${API_BASE}/alerts`, {
+  const response = await apiFetch(`${API_BASE}/alerts`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify(thresholds),
@@ -64,17 +173,500 @@ export async function saveAlertThresholds(thresholds: AlertThresholds): Promise<
   if (!response.ok) throw new Error('Failed to save alert thresholds');
 }
 
-export async function getNotificationSettings(): Promise<NotificationSettings> {
-  const response = await fetch(`${API_BASE}/notifications`);
-  if (!response.ok) throw new Error('Failed to fetch notification settings');
+// One saved version of the thresholds; the newest is the one in effect
+export interface AlertThresholdVersion extends AlertThresholds {
+  id: number;
+  updated_at: string;
+  changed_by: string | null;
+  restored_from: number | null;
+}
+
+export async function getAlertThresholdHistory(): Promise<AlertThresholdVersion[]> {
+  const response = await apiFetch(`${API_BASE}/alerts/history`);
+  if (!response.ok) throw new Error('Failed to fetch alert threshold history');
+  return response.json();
+}
+
+// Saves the values of an older version as the new current version
+export async function restoreAlertThresholds(id: number): Promise<AlertThresholdVersion> {
+  const response = await apiFetch(`${API_BASE}/alerts/history/${id}/restore`, {
+    method: 'POST',
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || 'Failed to restore alert thresholds');
+  return data;
+}
+
+export async function getNotificationChannels(): Promise<NotificationChannel[]> {
+  const response = await apiFetch(`${API_BASE}/notification-channels`);
+  if (!response.ok) throw new Error('Failed to fetch notification channels');
+  return response.json();
+}
+
+// Whether the server encrypts secrets at rest, and how many stored secrets are plaintext or unreadable
+export interface SecretsStatus {
+  encrypted: boolean;
+  plaintext: number;
+  unreadable: number;
+}
+
+export async function getSecretsStatus(): Promise<SecretsStatus> {
+  const response = await apiFetch(`${API_BASE}/secrets-status`);
+  if (!response.ok) throw new Error('Failed to fetch secrets status');
+  return response.json();
+}
+
+export async function createNotificationChannel(
+  channel: Omit<NotificationChannel, 'id' | 'secrets' | 'secrets_unreadable' | 'created_at' | 'updated_at'>,
+): Promise<NotificationChannel> {
+  const response = await apiFetch(`${API_BASE}/notification-channels`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(channel),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || 'Failed to add notification channel');
+  return data;
+}
+
+// Secret fields left out of `changes.config` keep their stored value; an empty string clears them
+export async function updateNotificationChannel(
+  id: string,
+  changes: Partial<
+    Omit<NotificationChannel, 'id' | 'type' | 'secrets' | 'secrets_unreadable' | 'created_at' | 'updated_at'>
+  >,
+): Promise<NotificationChannel> {
+  const response = await apiFetch(`${API_BASE}/notification-channels/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(changes),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || 'Failed to update notification channel');
+  return data;
+}
+
+export async function deleteNotificationChannel(id: string): Promise<void> {
+  const response = await apiFetch(`${API_BASE}/notification-channels/${id}`, {
+    method: 'DELETE',
+  });
+  if (!response.ok) throw new Error('Failed to delete notification channel');
+}
+
+export async function getDashboards(): Promise<SavedDashboard[]> {
+  const response = await apiFetch(`${API_BASE}/dashboards`);
+  if (!response.ok) throw new Error('Failed to fetch dashboards');
+  return response.json();
+}
+
+export async function getDashboard(id: string): Promise<SavedDashboard> {
+  const response = await apiFetch(`${API_BASE}/dashboards/${id}`);
+  if (!response.ok) throw new Error('Failed to fetch dashboard');
+  return response.json();
+}
+
+export async function createDashboard(dashboard: SavedDashboard): Promise<SavedDashboard> {
+  const response = await apiFetch(`${API_BASE}/dashboards`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(dashboard),
+  });
+  if (!response.ok) throw new Error('Failed to create dashboard');
+  return response.json();
+}
+
+export async function updateDashboard(
+  id: string,
+  changes: Partial<Pick<SavedDashboard, 'name' | 'widgets' | 'layouts'>>,
+): Promise<SavedDashboard> {
+  const response = await apiFetch(`${API_BASE}/dashboards/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(changes),
+  });
+  if (!response.ok) throw new Error('Failed to update dashboard');
+  return response.json();
+}
+
+export async function deleteDashboard(id: string): Promise<void> {
+  const response = await apiFetch(`${API_BASE}/dashboards/${id}`, {
+    method: 'DELETE',
+  });
+  if (!response.ok) throw new Error('Failed to delete dashboard');
+}
+
+export async function getAlertStates(): Promise<AlertState[]> {
+  const response = await apiFetch(`${API_BASE}/alert-states`);
+  if (!response.ok) throw new Error('Failed to fetch alert states');
+  return response.json();
+}
+
+// Recorded as done by the logged in user. `assigned_to: null` removes the assignment.
+export async function updateAlertState(
+  alertId: string,
+  change: { status?: AlertStatus; comment?: string; assigned_to?: string | null },
+): Promise<AlertState> {
+  const response = await apiFetch(`${API_BASE}/alert-states/${encodeURIComponent(alertId)}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(change),
+  });
+  if (!response.ok) throw new Error('Failed to update alert state');
+  return response.json();
+}
+
+// Usernames alerts can be assigned to: operators and admins
+export async function getAlertAssignees(): Promise<string[]> {
+  const response = await apiFetch(`${API_BASE}/alert-assignees`);
+  if (!response.ok) throw new Error('Failed to fetch alert assignees');
+  return response.json();
+}
+
+export async function getAlertRules(): Promise<AlertRule[]> {
+  const response = await apiFetch(`${API_BASE}/rules`);
+  if (!response.ok) throw new Error('Failed to fetch alert rules');
+  return response.json();
+}
+
+export async function createAlertRule(rule: Omit<AlertRule, 'id' | 'created_at' | 'updated_at'>): Promise<AlertRule> {
+  const response = await apiFetch(`${API_BASE}/rules`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(rule),
+  });
+  if (!response.ok) throw new Error('Failed to add alert rule');
+  return response.json();
+}
+
+export async function updateAlertRule(
+  id: string,
+  changes: Partial<Omit<AlertRule, 'id' | 'created_at' | 'updated_at'>>,
+): Promise<AlertRule> {
+  const response = await apiFetch(`${API_BASE}/rules/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(changes),
+  });
+  if (!response.ok) throw new Error('Failed to update alert rule');
+  return response.json();
+}
+
+export async function deleteAlertRule(id: string): Promise<void> {
+  const response = await apiFetch(`${API_BASE}/rules/${id}`, {
+    method: 'DELETE',
+  });
+  if (!response.ok) throw new Error('Failed to delete alert rule');
+}
+
+export async function getRuleAlerts(limit = 100): Promise<{ alerts: RuleAlertRecord[]; total: number }> {
+  const response = await apiFetch(`${API_BASE}/rule-alerts?limit=${limit}`);
+  if (!response.ok) throw new Error('Failed to fetch rule alerts');
+  return response.json();
+}
+
+export interface AgentConfigResult {
+  endpoint_id: string;
+  name: string;
+  ok: boolean;
+  version?: string | null;
+  updated_at?: string | null;
+  remote_config?: boolean;
+  error?: string;
+}
+
+export interface AgentConfigChannel {
+  id: string;
+  name: string;
+  type: NotificationChannelType;
+}
+
+// Why a notification channel is not sent to the agents
+export type AgentChannelSkipReason = 'disabled' | 'duplicate' | 'unsupported';
+
+// `version` is the config the dashboard would push now; each agent reports the one it runs
+export interface AgentConfigStatus {
+  version: string;
+  token_configured: boolean;
+  channels: {
+    distributed: AgentConfigChannel[];
+    skipped: (AgentConfigChannel & { reason: AgentChannelSkipReason })[];
+  };
+  agents: AgentConfigResult[];
+}
+
+export async function getAgentConfigStatus(): Promise<AgentConfigStatus> {
+  const response = await apiFetch(`${API_BASE}/agent-config`);
+  if (!response.ok) throw new Error('Failed to fetch agent config status');
+  return response.json();
+}
+
+export async function pushAgentConfig(): Promise<AgentConfigStatus> {
+  const response = await apiFetch(`${API_BASE}/agent-config/push`, { method: 'POST' });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || 'Failed to push config to agents');
+  return data;
+}
+
+// One send attempt; `target` is the recipient address or webhook host, never the full webhook URL
+export interface NotificationDelivery {
+  id: string;
+  timestamp: string;
+  channel: NotificationChannelType;
+  target: string;
+  status: 'sent' | 'failed';
+  error: string | null;
+  subject: string;
+  is_test: boolean;
+  // Absent on deliveries logged before channels were configurable
+  channel_id?: string | null;
+  channel_name?: string | null;
+}
+
+// Sends through the saved channel; rejects with the channel's error when the send fails
+export async function sendTestNotification(channelId: string): Promise<NotificationDelivery> {
+  const response = await apiFetch(`${API_BASE}/notification-channels/${channelId}/test`, {
+    method: 'POST',
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || 'Failed to send test notification');
+  return data;
+}
+
+export async function getNotificationDeliveries(
+  filter: { channel?: NotificationChannelType; status?: NotificationDelivery['status']; limit?: number } = {},
+): Promise<NotificationDelivery[]> {
+  const params = new URLSearchParams();
+  if (filter.channel) params.set('channel', filter.channel);
+  if (filter.status) params.set('status', filter.status);
+  params.set('limit', String(filter.limit ?? 100));
+  const response = await apiFetch(`${API_BASE}/notification-deliveries?${params}`);
+  if (!response.ok) throw new Error('Failed to fetch notification deliveries');
+  return response.json();
+}
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'push';
+
+export type AuditEntityType =
+  | 'server'
+  | 'alert_thresholds'
+  | 'alert_rule'
+  | 'alert_state'
+  | 'notification_channel'
+  | 'agent_config'
+  | 'dashboard'
+  | 'user'
+  | 'carbon_intensity'
+  | 'tariff'
+  | 'facility';
+
+export interface AuditEntry {
+  id: number;
+  timestamp: string;
+  actor: string;
+  action: AuditAction;
+  entity_type: AuditEntityType;
+  entity_id: string | null;
+  entity_name: string | null;
+  // Nested settings are keyed like "config.url"; secrets only appear as "(secret)" or "(new secret)"
+  changes: Record<string, { before: unknown; after: unknown }>;
+}
+
+export async function getAuditLog(
+  filter: {
+    actor?: string;
+    action?: AuditAction;
+    entity_type?: AuditEntityType;
+    entity_id?: string;
+    since?: string;
+    limit?: number;
+  } = {},
+): Promise<AuditEntry[]> {
+  const params = new URLSearchParams();
+  Object.entries(filter).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  });
+  const response = await apiFetch(`${API_BASE}/audit-log?${params}`);
+  if (!response.ok) throw new Error('Failed to fetch audit log');
+  return response.json();
+}
+
+export async function getUsers(): Promise<AuthUser[]> {
+  const response = await apiFetch(`${API_BASE}/users`);
+  if (!response.ok) throw new Error('Failed to fetch users');
   return response.json();
 }
 
-export async function saveNotificationSettings(settings: NotificationSettings): Promise<void> {
-  const response = await fetch(`${API_BASE}/notifications`, {
+export async function createUser(user: { username: string; password: string; role: UserRole }): Promise<AuthUser> {
+  const response = await apiFetch(`${API_BASE}/users`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(settings),
+    body: JSON.stringify(user),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || 'Failed to add user');
+  return data;
+}
+
+// A new password ends all of the user's sessions
+export async function updateUser(id: string, changes: { role?: UserRole; password?: string }): Promise<AuthUser> {
+  const response = await apiFetch(`${API_BASE}/users/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(changes),
   });
-  if (!response.ok) throw new Error('Failed to save notification settings');
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || 'Failed to update user');
+  return data;
+}
+
+export async function deleteUser(id: string): Promise<void> {
+  const response = await apiFetch(`${API_BASE}/users/${id}`, {
+    method: 'DELETE',
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || 'Failed to delete user');
+}
+
+// Grid carbon intensity for servers whose location matches `site`; the 'default' site covers the rest
+export interface CarbonIntensity {
+  site: string;
+  g_per_kwh: number;
+  // 24 hourly gCO2e/kWh values (hour 0 first) in `timezone`; replaces g_per_kwh when set
+  profile: number[] | null;
+  timezone: string | null;
+  updated_at?: string;
+}
+
+export async function getCarbonIntensities(): Promise<CarbonIntensity[]> {
+  const response = await apiFetch(`${API_BASE}/carbon-intensity`);
+  if (!response.ok) throw new Error('Failed to fetch carbon intensity');
+  return response.json();
+}
+
+export async function saveCarbonIntensity(intensity: CarbonIntensity): Promise<CarbonIntensity> {
+  const response = await apiFetch(`${API_BASE}/carbon-intensity/${encodeURIComponent(intensity.site)}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(intensity),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || 'Failed to save carbon intensity');
+  return data;
+}
+
+export async function deleteCarbonIntensity(site: string): Promise<void> {
+  const response = await apiFetch(`${API_BASE}/carbon-intensity/${encodeURIComponent(site)}`, {
+    method: 'DELETE',
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || 'Failed to delete carbon intensity');
+}
+
+export type TariffType = 'flat' | 'day_night' | 'tiered';
+
+// Prices per kWh. Night runs from night_start up to night_end (hours, may wrap midnight).
+// Tiers apply to a server's kWh in the calendar month; the last tier has no upper limit.
+export type TariffRates =
+  | { rate: number }
+  | { day_rate: number; night_rate: number; night_start: number; night_end: number }
+  | { tiers: { up_to_kwh: number | null; rate: number }[] };
+
+// A tag tariff wins over a site tariff, which wins over the default one
+export interface Tariff {
+  id: string;
+  name: string;
+  currency: string;
+  type: TariffType;
+  rates: TariffRates;
+  // Time zone for day/night hours; the browser's when empty
+  timezone?: string | null;
+  scope_type: 'default' | 'site' | 'tag';
+  scope_value?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export async function getTariffs(): Promise<Tariff[]> {
+  const response = await apiFetch(`${API_BASE}/tariffs`);
+  if (!response.ok) throw new Error('Failed to fetch tariffs');
+  return response.json();
+}
+
+export async function createTariff(tariff: Omit<Tariff, 'id'>): Promise<Tariff> {
+  const response = await apiFetch(`${API_BASE}/tariffs`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(tariff),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || 'Failed to add tariff');
+  return data;
+}
+
+export async function updateTariff(id: string, tariff: Omit<Tariff, 'id'>): Promise<Tariff> {
+  const response = await apiFetch(`${API_BASE}/tariffs/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(tariff),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || 'Failed to update tariff');
+  return data;
+}
+
+export async function deleteTariff(id: string): Promise<void> {
+  const response = await apiFetch(`${API_BASE}/tariffs/${id}`, {
+    method: 'DELETE',
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || 'Failed to delete tariff');
+}
+
+// Facility overhead for servers whose location matches `site`; a 'default' site covers the rest when set
+export interface SiteFacility {
+  site: string;
+  // Facility power divided by IT power, 1 or more
+  pue: number;
+  // Polled by the settings server; answers JSON with the watts at meter_field, or a bare number
+  meter_url: string | null;
+  meter_field: string | null;
+  updated_at?: string;
+}
+
+export interface FacilityMeterReading {
+  site: string;
+  watts: number;
+  read_at: string;
+}
+
+export async function getFacilities(): Promise<SiteFacility[]> {
+  const response = await apiFetch(`${API_BASE}/facilities`);
+  if (!response.ok) throw new Error('Failed to fetch facilities');
+  return response.json();
+}
+
+export async function saveFacility(facility: SiteFacility): Promise<SiteFacility> {
+  const response = await apiFetch(`${API_BASE}/facilities/${encodeURIComponent(facility.site)}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(facility),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || 'Failed to save facility');
+  return data;
+}
+
+export async function deleteFacility(site: string): Promise<void> {
+  const response = await apiFetch(`${API_BASE}/facilities/${encodeURIComponent(site)}`, {
+    method: 'DELETE',
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || 'Failed to delete facility');
+}
+
+export async function readFacilityMeter(site: string): Promise<FacilityMeterReading> {
+  const response = await apiFetch(`${API_BASE}/facilities/${encodeURIComponent(site)}/meter`);
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || 'Failed to read facility meter');
+  return data;
 }
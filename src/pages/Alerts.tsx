@@ -1,56 +1,52 @@
-import { useEffect, useState } from "react";
+import { useMemo, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { AlertTriangle, Bell, Filter, Search } from "lucide-react";
+import { AlertTriangle, Bell, Check, CheckCircle2, Filter, RotateCcw, Search, UserPlus, XCircle } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
+import { useServerEndpoints } from "@/lib/serverEndpoints";
+import { hasRole, useSession } from "@/lib/auth";
+import { alertStatesQueryKey, useAlertStates, useAlerts } from "@/lib/alertsClient";
+import * as settingsApi from "@/lib/settingsApi";
+import type { AlertStatus } from "@/lib/settingsApi";
+import { AlertAction, AlertActionDialog } from "@/components/alerts/AlertActionDialog";
+import { useToast } from "@/hooks/use-toast";
 
-interface Alert {
-  id: string;
-  timestamp: string;
-  serverId: string;
-  serverName: string;
-  subject: string;
-  message: string;
-  alertType: string;
-  severity: string;
-}
+const statusColors: Record<AlertStatus, "destructive" | "default" | "secondary"> = {
+  open: "destructive",
+  acknowledged: "default",
+  resolved: "secondary",
+};
 
 export default function Alerts() {
-  const [alerts, setAlerts] = useState<Alert[]>([]);
-  const [filteredAlerts, setFilteredAlerts] = useState<Alert[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
   const [severityFilter, setSeverityFilter] = useState<string>("all");
   const [typeFilter, setTypeFilter] = useState<string>("all");
-  const [loading, setLoading] = useState(true);
-  const apiEndpoint = localStorage.getItem("apiEndpoint") || "";
+  const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [assigneeFilter, setAssigneeFilter] = useState<string>("all");
+  const [pendingAction, setPendingAction] = useState<AlertAction | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { user } = useSession();
+  const canAct = hasRole(user, "operator");
+  const { data: states } = useAlertStates();
+  const { data: assignees = [] } = useQuery({
+    queryKey: ["alertAssignees"],
+    queryFn: settingsApi.getAlertAssignees,
+    enabled: canAct,
+  });
+  const { endpoints, isLoading: endpointsLoading } = useServerEndpoints();
+  const { data, isLoading } = useAlerts(endpoints);
+  const alerts = useMemo(() => data?.alerts || [], [data]);
+  const sources = data?.sources || [];
+  const loading = endpointsLoading || isLoading;
 
-  useEffect(() => {
-    if (!apiEndpoint) {
-      setLoading(false);
-      return;
-    }
+  const statusOf = (alertId: string): AlertStatus => states?.get(alertId)?.status || "open";
 
-    const fetchAlerts = async () => {
-      try {
-        const response = await fetch(`${apiEndpoint}/alerts?limit=500`);
-        const data = await response.json();
-        setAlerts(data.alerts || []);
-        setFilteredAlerts(data.alerts || []);
-      } catch (error) {
-        console.error("Failed to fetch alerts:", error);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchAlerts();
-    const interval = setInterval(fetchAlerts, 30000); // Refresh every 30 seconds
-    return () => clearInterval(interval);
-  }, [apiEndpoint]);
-
-  useEffect(() => {
+  const filteredAlerts = useMemo(() => {
     let filtered = alerts;
 
     if (searchQuery) {
@@ -70,10 +66,52 @@ export default function Alerts() {
       filtered = filtered.filter((alert) => alert.alertType === typeFilter);
     }
 
-    setFilteredAlerts(filtered);
-  }, [searchQuery, severityFilter, typeFilter, alerts]);
+    if (statusFilter !== "all") {
+      filtered = filtered.filter((alert) => (states?.get(alert.id)?.status || "open") === statusFilter);
+    }
+
+    if (assigneeFilter !== "all") {
+      const wanted = assigneeFilter === "me" ? user?.username : assigneeFilter === "none" ? null : assigneeFilter;
+      filtered = filtered.filter((alert) => (states?.get(alert.id)?.assigned_to || null) === wanted);
+    }
+
+    return filtered;
+  }, [searchQuery, severityFilter, typeFilter, statusFilter, assigneeFilter, alerts, states, user]);
+
+  const unacknowledgedCount = alerts.filter((alert) => statusOf(alert.id) === "open").length;
+
+  const handleAction = async ({ alert, kind }: AlertAction, comment: string, assignee?: string | null) => {
+    try {
+      const state = await settingsApi.updateAlertState(
+        alert.id,
+        kind !== "assign"
+          ? { status: kind, comment }
+          : comment
+            ? { assigned_to: assignee, comment }
+            : { assigned_to: assignee }
+      );
+      queryClient.setQueryData<Map<string, settingsApi.AlertState>>(alertStatesQueryKey, (previous) =>
+        new Map(previous).set(alert.id, state)
+      );
+      setPendingAction(null);
+    } catch (error) {
+      console.error("Failed to update alert:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update alert state in database",
+        variant: "destructive",
+      });
+    }
+  };
 
   const uniqueTypes = Array.from(new Set(alerts.map((a) => a.alertType)));
+  // Assignees in the filter include users who were assigned alerts but can no longer be
+  const filterAssignees = Array.from(
+    new Set([
+      ...assignees,
+      ...Array.from(states?.values() || [], (state) => state.assigned_to).filter((name): name is string => !!name),
+    ])
+  ).sort();
 
   const getSeverityColor = (severity: string) => {
     switch (severity) {
@@ -86,7 +124,7 @@ export default function Alerts() {
     }
   };
 
-  if (!apiEndpoint) {
+  if (!endpointsLoading && endpoints.length === 0) {
     return (
       <div className="min-h-screen bg-background p-6">
         <div className="max-w-7xl mx-auto">
@@ -96,7 +134,7 @@ export default function Alerts() {
           </div>
           <Card className="p-6">
             <p className="text-muted-foreground">
-              Configure your API endpoint in settings to view alert history
+              Configure server endpoints in settings to view alert history
             </p>
           </Card>
         </div>
@@ -112,6 +150,7 @@ export default function Alerts() {
             <h1 className="text-4xl font-bold tracking-tight">Alert History</h1>
             <p className="text-muted-foreground mt-1">
               {filteredAlerts.length} {filteredAlerts.length === 1 ? "alert" : "alerts"}
+              {unacknowledgedCount > 0 && ` · ${unacknowledgedCount} unacknowledged`}
             </p>
           </div>
           <div className="flex items-center gap-2">
@@ -119,6 +158,22 @@ export default function Alerts() {
           </div>
         </div>
 
+        {sources.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {sources.map((source) => (
+              <Badge
+                key={source.id}
+                variant={source.ok ? "outline" : "destructive"}
+                className="gap-1"
+                title={source.ok ? `${source.count} alerts` : `Unreachable: ${source.error}`}
+              >
+                {source.ok ? <CheckCircle2 className="h-3 w-3" /> : <XCircle className="h-3 w-3" />}
+                {source.name}
+              </Badge>
+            ))}
+          </div>
+        )}
+
         <Card className="p-4">
           <div className="flex flex-col sm:flex-row gap-4">
             <div className="flex-1 relative">
@@ -131,6 +186,32 @@ export default function Alerts() {
               />
             </div>
             <div className="flex gap-2">
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue placeholder="Status" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Status</SelectItem>
+                  <SelectItem value="open">Unacknowledged</SelectItem>
+                  <SelectItem value="acknowledged">Acknowledged</SelectItem>
+                  <SelectItem value="resolved">Resolved</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={assigneeFilter} onValueChange={setAssigneeFilter}>
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue placeholder="Assignee" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Assignees</SelectItem>
+                  <SelectItem value="me">Assigned to Me</SelectItem>
+                  <SelectItem value="none">Unassigned</SelectItem>
+                  {filterAssignees.map((username) => (
+                    <SelectItem key={username} value={username}>
+                      {username}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <Select value={severityFilter} onValueChange={setSeverityFilter}>
                 <SelectTrigger className="w-[140px]">
                   <Filter className="h-4 w-4 mr-2" />
@@ -178,49 +259,119 @@ export default function Alerts() {
           </Card>
         ) : (
           <div className="space-y-3">
-            {filteredAlerts.map((alert) => (
-              <Card key={alert.id} className="p-5">
-                <div className="flex items-start gap-4">
-                  <div className="flex-shrink-0 mt-1">
-                    <div
-                      className={`w-10 h-10 rounded-full flex items-center justify-center ${
-                        alert.severity === "error"
-                          ? "bg-destructive/20"
-                          : "bg-warning/20"
-                      }`}
-                    >
-                      <AlertTriangle
-                        className={`h-5 w-5 ${
+            {filteredAlerts.map((alert) => {
+              const state = states?.get(alert.id);
+              const status = state?.status || "open";
+              return (
+                <Card key={alert.id} className="p-5">
+                  <div className="flex items-start gap-4">
+                    <div className="flex-shrink-0 mt-1">
+                      <div
+                        className={`w-10 h-10 rounded-full flex items-center justify-center ${
                           alert.severity === "error"
-                            ? "text-destructive"
-                            : "text-warning"
+                            ? "bg-destructive/20"
+                            : "bg-warning/20"
                         }`}
-                      />
+                      >
+                        <AlertTriangle
+                          className={`h-5 w-5 ${
+                            alert.severity === "error"
+                              ? "text-destructive"
+                              : "text-warning"
+                          }`}
+                        />
+                      </div>
                     </div>
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-start justify-between gap-3 mb-2">
-                      <div className="flex items-center gap-2 flex-wrap">
-                        <Badge variant={getSeverityColor(alert.severity)} className="uppercase">
-                          {alert.severity}
-                        </Badge>
-                        <Badge variant="outline">{alert.alertType.replace("_", " ")}</Badge>
-                        <span className="text-sm font-medium">{alert.serverName}</span>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-start justify-between gap-3 mb-2">
+                        <div className="flex items-center gap-2 flex-wrap">
+                          <Badge variant={getSeverityColor(alert.severity)} className="uppercase">
+                            {alert.severity}
+                          </Badge>
+                          <Badge variant="outline">{alert.alertType.replace("_", " ")}</Badge>
+                          <span className="text-sm font-medium">{alert.serverName}</span>
+                          <Badge variant={statusColors[status]} className="capitalize">
+                            {status === "open" ? "unacknowledged" : status}
+                          </Badge>
+                          {state?.assigned_to && <Badge variant="outline">Assigned to {state.assigned_to}</Badge>}
+                        </div>
+                        <span className="text-xs text-muted-foreground whitespace-nowrap">
+                          {formatDistanceToNow(new Date(alert.timestamp), { addSuffix: true })}
+                        </span>
                       </div>
-                      <span className="text-xs text-muted-foreground whitespace-nowrap">
-                        {formatDistanceToNow(new Date(alert.timestamp), { addSuffix: true })}
-                      </span>
+                      <h3 className="font-semibold mb-1">{alert.subject}</h3>
+                      <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+                        {alert.message}
+                      </p>
+                      {state && (status !== "open" || state.assigned_at) && (
+                        <div className="mt-3 text-xs text-muted-foreground space-y-1">
+                          {state.assigned_to && state.assigned_at && (
+                            <p>
+                              Assigned to {state.assigned_to}{" "}
+                              {formatDistanceToNow(new Date(state.assigned_at), { addSuffix: true })}
+                            </p>
+                          )}
+                          {state.acknowledged_by && state.acknowledged_at && (
+                            <p>
+                              Acknowledged by {state.acknowledged_by}{" "}
+                              {formatDistanceToNow(new Date(state.acknowledged_at), { addSuffix: true })}
+                            </p>
+                          )}
+                          {state.resolved_by && state.resolved_at && (
+                            <p>
+                              Resolved by {state.resolved_by}{" "}
+                              {formatDistanceToNow(new Date(state.resolved_at), { addSuffix: true })}
+                            </p>
+                          )}
+                          {state.comment && <p className="italic">"{state.comment}"</p>}
+                        </div>
+                      )}
+                      {canAct && (
+                        <div className="mt-3 flex gap-2">
+                          {status === "open" && (
+                            <Button size="sm" variant="outline" onClick={() => setPendingAction({ alert, kind: "acknowledged" })}>
+                              <Check className="h-4 w-4 mr-1" />
+                              Acknowledge
+                            </Button>
+                          )}
+                          {status !== "resolved" && (
+                            <Button size="sm" variant="outline" onClick={() => setPendingAction({ alert, kind: "resolved" })}>
+                              <CheckCircle2 className="h-4 w-4 mr-1" />
+                              Resolve
+                            </Button>
+                          )}
+                          {status !== "resolved" && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setPendingAction({ alert, kind: "assign", assignedTo: state?.assigned_to })}
+                            >
+                              <UserPlus className="h-4 w-4 mr-1" />
+                              {state?.assigned_to ? "Reassign" : "Assign"}
+                            </Button>
+                          )}
+                          {status !== "open" && (
+                            <Button size="sm" variant="ghost" onClick={() => setPendingAction({ alert, kind: "open" })}>
+                              <RotateCcw className="h-4 w-4 mr-1" />
+                              Reopen
+                            </Button>
+                          )}
+                        </div>
+                      )}
                     </div>
-                    <h3 className="font-semibold mb-1">{alert.subject}</h3>
-                    <p className="text-sm text-muted-foreground whitespace-pre-wrap">
-                      {alert.message}
-                    </p>
                   </div>
-                </div>
-              </Card>
-            ))}
+                </Card>
+              );
+            })}
           </div>
         )}
+
+        <AlertActionDialog
+          action={pendingAction}
+          assignees={assignees}
+          onOpenChange={(open) => !open && setPendingAction(null)}
+          onConfirm={handleAction}
+        />
       </div>
     </div>
   );
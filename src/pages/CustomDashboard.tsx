@@ -1,4 +1,6 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { Responsive, WidthProvider, Layout } from "react-grid-layout";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -10,25 +12,35 @@ import { PowerWidget } from "@/components/widgets/PowerWidget";
 import { ServerStatusWidget } from "@/components/widgets/ServerStatusWidget";
 import { TemperatureWidget } from "@/components/widgets/TemperatureWidget";
 import { NetworkWidget } from "@/components/widgets/NetworkWidget";
-import { Plus, Layout as LayoutIcon, Zap, Cpu, Grid3x3 } from "lucide-react";
+import { CarbonWidget } from "@/components/widgets/CarbonWidget";
+import { WidgetSettingsSheet } from "@/components/dashboard/WidgetSettingsSheet";
+import { DashboardSwitcher } from "@/components/dashboard/DashboardSwitcher";
+import { Plus, Layout as LayoutIcon, Zap, Cpu, Grid3x3, Settings2, LucideIcon } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useServerMetrics } from "@/lib/metricsClient";
+import { useAllBufferedSamples } from "@/lib/metricsBuffer";
+import { aggregateSamples } from "@/lib/metricsAggregate";
+import { WidgetConfig, describeSource, serversForSource, sourceAggregate, widgetSource } from "@/lib/customDashboard";
+import {
+  DASHBOARD_FORMAT,
+  DASHBOARD_FORMAT_VERSION,
+  DashboardDocument,
+  downloadDashboardDocument,
+  fromDashboardDocument,
+  parseDashboardDocument,
+  toDashboardDocument,
+} from "@/lib/dashboardDocument";
+import * as settingsApi from "@/lib/settingsApi";
+import type { SavedDashboard } from "@/lib/settingsApi";
+import { useServerEndpoints } from "@/lib/serverEndpoints";
+import { supportsFeature } from "@/lib/agentProbe";
+import { hasRole, useSession } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
 import "react-grid-layout/css/styles.css";
 import "react-resizable/css/styles.css";
 
 const ResponsiveGridLayout = WidthProvider(Responsive);
 
-interface WidgetConfig {
-  i: string;
-  type: string;
-  title: string;
-}
-
-interface ServerEndpoint {
-  id: string;
-  name: string;
-  url: string;
-}
-
 const availableWidgets = [
   { type: "cpu", title: "CPU Usage", icon: "📊" },
   { type: "ram", title: "RAM Usage", icon: "💾" },
@@ -37,154 +49,177 @@ const availableWidgets = [
   { type: "temperature", title: "Temperature", icon: "🌡️" },
   { type: "status", title: "Server Status", icon: "🖥️" },
   { type: "network", title: "Network Traffic", icon: "🌐" },
+  { type: "carbon", title: "Carbon Emissions", icon: "🌱" },
 ];
 
-const dashboardPresets = {
+// Built-in presets use the same document format as exported dashboards
+const dashboardPresets: Record<string, { icon: LucideIcon; document: DashboardDocument }> = {
   cpuFocused: {
-    name: "CPU Focused",
     icon: Cpu,
-    widgets: [
-      { i: "cpu-preset", type: "cpu", title: "CPU Usage" },
-      { i: "temperature-preset", type: "temperature", title: "Temperature" },
-      { i: "ram-preset", type: "ram", title: "RAM Usage" },
-    ],
-    layout: {
-      lg: [
-        { i: "cpu-preset", x: 0, y: 0, w: 6, h: 4 },
-        { i: "temperature-preset", x: 6, y: 0, w: 6, h: 4 },
-        { i: "ram-preset", x: 0, y: 4, w: 12, h: 4 },
+    document: {
+      format: DASHBOARD_FORMAT,
+      version: DASHBOARD_FORMAT_VERSION,
+      name: "CPU Focused",
+      widgets: [
+        { i: "cpu-preset", type: "cpu", title: "CPU Usage" },
+        { i: "temperature-preset", type: "temperature", title: "Temperature" },
+        { i: "ram-preset", type: "ram", title: "RAM Usage" },
       ],
+      layouts: {
+        lg: [
+          { i: "cpu-preset", x: 0, y: 0, w: 6, h: 4 },
+          { i: "temperature-preset", x: 6, y: 0, w: 6, h: 4 },
+          { i: "ram-preset", x: 0, y: 4, w: 12, h: 4 },
+        ],
+      },
+      servers: [],
     },
   },
   powerMonitoring: {
-    name: "Power Monitoring",
     icon: Zap,
-    widgets: [
-      { i: "power-preset", type: "power", title: "Power Consumption" },
-      { i: "gpu-preset", type: "gpu", title: "GPU Usage" },
-      { i: "temperature-preset-2", type: "temperature", title: "Temperature" },
-    ],
-    layout: {
-      lg: [
-        { i: "power-preset", x: 0, y: 0, w: 12, h: 4 },
-        { i: "gpu-preset", x: 0, y: 4, w: 6, h: 4 },
-        { i: "temperature-preset-2", x: 6, y: 4, w: 6, h: 4 },
+    document: {
+      format: DASHBOARD_FORMAT,
+      version: DASHBOARD_FORMAT_VERSION,
+      name: "Power Monitoring",
+      widgets: [
+        { i: "power-preset", type: "power", title: "Power Consumption", source: { type: "fleet", aggregate: "sum" } },
+        { i: "gpu-preset", type: "gpu", title: "GPU Usage" },
+        { i: "temperature-preset-2", type: "temperature", title: "Temperature", source: { type: "fleet", aggregate: "max" } },
       ],
+      layouts: {
+        lg: [
+          { i: "power-preset", x: 0, y: 0, w: 12, h: 4 },
+          { i: "gpu-preset", x: 0, y: 4, w: 6, h: 4 },
+          { i: "temperature-preset-2", x: 6, y: 4, w: 6, h: 4 },
+        ],
+      },
+      servers: [],
     },
   },
   fullOverview: {
-    name: "Full Overview",
     icon: Grid3x3,
-    widgets: [
-      { i: "status-preset", type: "status", title: "Server Status" },
-      { i: "cpu-preset-2", type: "cpu", title: "CPU Usage" },
-      { i: "ram-preset-2", type: "ram", title: "RAM Usage" },
-      { i: "gpu-preset-2", type: "gpu", title: "GPU Usage" },
-      { i: "power-preset-2", type: "power", title: "Power Consumption" },
-      { i: "temperature-preset-3", type: "temperature", title: "Temperature" },
-      { i: "network-preset", type: "network", title: "Network Traffic" },
-    ],
-    layout: {
-      lg: [
-        { i: "status-preset", x: 0, y: 0, w: 12, h: 3 },
-        { i: "cpu-preset-2", x: 0, y: 3, w: 4, h: 4 },
-        { i: "ram-preset-2", x: 4, y: 3, w: 4, h: 4 },
-        { i: "gpu-preset-2", x: 8, y: 3, w: 4, h: 4 },
-        { i: "power-preset-2", x: 0, y: 7, w: 6, h: 4 },
-        { i: "temperature-preset-3", x: 6, y: 7, w: 3, h: 4 },
-        { i: "network-preset", x: 9, y: 7, w: 3, h: 4 },
+    document: {
+      format: DASHBOARD_FORMAT,
+      version: DASHBOARD_FORMAT_VERSION,
+      name: "Full Overview",
+      widgets: [
+        { i: "status-preset", type: "status", title: "Server Status" },
+        { i: "cpu-preset-2", type: "cpu", title: "CPU Usage" },
+        { i: "ram-preset-2", type: "ram", title: "RAM Usage" },
+        { i: "gpu-preset-2", type: "gpu", title: "GPU Usage" },
+        { i: "power-preset-2", type: "power", title: "Power Consumption" },
+        { i: "temperature-preset-3", type: "temperature", title: "Temperature" },
+        { i: "network-preset", type: "network", title: "Network Traffic" },
       ],
+      layouts: {
+        lg: [
+          { i: "status-preset", x: 0, y: 0, w: 12, h: 3 },
+          { i: "cpu-preset-2", x: 0, y: 3, w: 4, h: 4 },
+          { i: "ram-preset-2", x: 4, y: 3, w: 4, h: 4 },
+          { i: "gpu-preset-2", x: 8, y: 3, w: 4, h: 4 },
+          { i: "power-preset-2", x: 0, y: 7, w: 6, h: 4 },
+          { i: "temperature-preset-3", x: 6, y: 7, w: 3, h: 4 },
+          { i: "network-preset", x: 9, y: 7, w: 3, h: 4 },
+        ],
+      },
+      servers: [],
     },
   },
 };
 
+type Layouts = { [key: string]: Layout[] };
+
+const LAYOUT_SAVE_DELAY = 1000;
+
 export default function CustomDashboard() {
+  const { dashboardId } = useParams();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
   const [widgets, setWidgets] = useState<WidgetConfig[]>([]);
-  const [layouts, setLayouts] = useState<{ [key: string]: Layout[] }>({});
-  const [serverData, setServerData] = useState<any[]>([]);
-  const [endpoints, setEndpoints] = useState<ServerEndpoint[]>([]);
+  const [layouts, setLayouts] = useState<Layouts>({});
+  const [loadedId, setLoadedId] = useState<string | null>(null);
+  const { endpoints, isLoading: endpointsLoading } = useServerEndpoints();
+  const { data: serverData = [] } = useServerMetrics(endpoints);
+  const bufferedSamples = useAllBufferedSamples();
   const [selectedPreset, setSelectedPreset] = useState<string>("");
+  const [editingWidget, setEditingWidget] = useState<WidgetConfig | null>(null);
+  const layoutSaveTimer = useRef<ReturnType<typeof setTimeout>>();
+  const migrating = useRef(false);
+  const { user } = useSession();
+  const canEdit = hasRole(user, "operator");
 
+  const { data: dashboards = [], isLoading, isError } = useQuery({
+    queryKey: ["dashboards"],
+    queryFn: settingsApi.getDashboards,
+  });
+  const current = dashboards.find((d) => d.id === dashboardId);
+
+  // /custom opens the first dashboard; on first use, the layout that used to live
+  // in localStorage becomes the first server-side dashboard
   useEffect(() => {
+    if (isLoading || isError || dashboardId) return;
+
+    if (dashboards.length > 0) {
+      navigate(`/custom/${dashboards[0].id}`, { replace: true });
+      return;
+    }
+
+    if (migrating.current || !canEdit) return;
+    migrating.current = true;
     const savedWidgets = localStorage.getItem("dashboardWidgets");
     const savedLayouts = localStorage.getItem("dashboardLayouts");
-    const savedEndpoints = localStorage.getItem("serverEndpoints");
-
-    if (savedWidgets) setWidgets(JSON.parse(savedWidgets));
-    if (savedLayouts) setLayouts(JSON.parse(savedLayouts));
-    if (savedEndpoints) setEndpoints(JSON.parse(savedEndpoints));
-  }, []);
+    settingsApi
+      .createDashboard({
+        id: `dash-${Date.now()}`,
+        name: "My Dashboard",
+        widgets: savedWidgets ? JSON.parse(savedWidgets) : [],
+        layouts: savedLayouts ? JSON.parse(savedLayouts) : {},
+      })
+      .then((created) => {
+        migrating.current = false;
+        localStorage.removeItem("dashboardWidgets");
+        localStorage.removeItem("dashboardLayouts");
+        queryClient.setQueryData<SavedDashboard[]>(["dashboards"], [created]);
+        navigate(`/custom/${created.id}`, { replace: true });
+      })
+      .catch((error) => {
+        console.error("Failed to create dashboard:", error);
+        migrating.current = false;
+      });
+  }, [isLoading, isError, dashboardId, dashboards, navigate, queryClient, canEdit]);
 
+  // Only reset local state when switching dashboards, not when the list is refetched
   useEffect(() => {
-    const fetchData = async () => {
-      if (endpoints.length === 0) {
-        setServerData([]);
-        return;
-      }
-
-      const allData = await Promise.all(
-        endpoints.map(async (endpoint) => {
-          try {
-            const response = await fetch(`${endpoint.url}/metrics`);
-            if (!response.ok) throw new Error(`HTTP ${response.status}`);
-            const data = await response.json();
-            
-            // Extract hostname from URL for DNS-based naming
-            const url = new URL(endpoint.url);
-            const serverName = url.hostname;
-            
-            return { 
-              id: data.id || endpoint.id,
-              name: serverName,
-              hostname: serverName,
-              status: data.status || "online",
-              os: data.os || "Unknown",
-              endpointId: endpoint.id,
-              endpointName: endpoint.name,
-              metrics: {
-                cpu: data.cpu?.usage || 0,
-                ram: data.memory?.used_percent || 0,
-                gpu: data.gpu?.usage || 0,
-                power: data.power?.total || 0,
-                temperature: data.temperature?.cpu || 0,
-                network: {
-                  upload: data.network?.upload_speed || 0,
-                  download: data.network?.download_speed || 0,
-                },
-              },
-            };
-          } catch (error) {
-            console.error(`Failed to fetch from ${endpoint.name}:`, error);
-            // Return offline server entry
-            const url = new URL(endpoint.url);
-            return {
-              id: endpoint.id,
-              name: url.hostname,
-              hostname: url.hostname,
-              status: "offline",
-              os: "Unknown",
-              endpointId: endpoint.id,
-              endpointName: endpoint.name,
-              metrics: {
-                cpu: 0,
-                ram: 0,
-                gpu: 0,
-                power: 0,
-                temperature: 0,
-                network: { upload: 0, download: 0 },
-              },
-            };
-          }
-        })
-      );
-
-      setServerData(allData);
-    };
+    if (!current || current.id === loadedId) return;
+    setWidgets(current.widgets);
+    setLayouts(current.layouts);
+    setSelectedPreset("");
+    setLoadedId(current.id);
+  }, [current, loadedId]);
 
-    fetchData();
-    const interval = setInterval(fetchData, 5000);
-    return () => clearInterval(interval);
-  }, [endpoints]);
+  useEffect(() => () => clearTimeout(layoutSaveTimer.current), []);
+
+  const saveDashboard = async (id: string, changes: Partial<Pick<SavedDashboard, "name" | "widgets" | "layouts">>) => {
+    queryClient.setQueryData<SavedDashboard[]>(["dashboards"], (list = []) =>
+      list.map((d) => (d.id === id ? { ...d, ...changes } : d))
+    );
+    try {
+      await settingsApi.updateDashboard(id, changes);
+    } catch (error) {
+      console.error("Failed to save dashboard:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save dashboard to database",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const saveWidgets = (updatedWidgets: WidgetConfig[]) => {
+    setWidgets(updatedWidgets);
+    if (current) saveDashboard(current.id, { widgets: updatedWidgets });
+  };
 
   const addWidget = (type: string, title: string) => {
     const newWidget: WidgetConfig = {
@@ -192,88 +227,164 @@ export default function CustomDashboard() {
       type,
       title,
     };
-    const updatedWidgets = [...widgets, newWidget];
-    setWidgets(updatedWidgets);
-    localStorage.setItem("dashboardWidgets", JSON.stringify(updatedWidgets));
+    saveWidgets([...widgets, newWidget]);
   };
 
   const removeWidget = (id: string) => {
-    const updatedWidgets = widgets.filter((w) => w.i !== id);
-    setWidgets(updatedWidgets);
-    localStorage.setItem("dashboardWidgets", JSON.stringify(updatedWidgets));
+    saveWidgets(widgets.filter((w) => w.i !== id));
+  };
+
+  const updateWidget = (updated: WidgetConfig) => {
+    saveWidgets(widgets.map((w) => (w.i === updated.i ? updated : w)));
+    setEditingWidget(null);
   };
 
   const applyPreset = (presetKey: string) => {
-    const preset = dashboardPresets[presetKey as keyof typeof dashboardPresets];
-    if (!preset) return;
+    const preset = dashboardPresets[presetKey];
+    if (!preset || !current) return;
 
-    setWidgets(preset.widgets);
-    setLayouts(preset.layout);
+    const { widgets: presetWidgets, layouts: presetLayouts } = fromDashboardDocument(preset.document, endpoints);
+    setWidgets(presetWidgets);
+    setLayouts(presetLayouts);
     setSelectedPreset(presetKey);
-    localStorage.setItem("dashboardWidgets", JSON.stringify(preset.widgets));
-    localStorage.setItem("dashboardLayouts", JSON.stringify(preset.layout));
+    saveDashboard(current.id, { widgets: presetWidgets, layouts: presetLayouts });
   };
 
-  const handleLayoutChange = (layout: Layout[], allLayouts: { [key: string]: Layout[] }) => {
+  const handleLayoutChange = (layout: Layout[], allLayouts: Layouts) => {
     setLayouts(allLayouts);
-    localStorage.setItem("dashboardLayouts", JSON.stringify(allLayouts));
+    if (!canEdit || !current || JSON.stringify(allLayouts) === JSON.stringify(current.layouts)) return;
+
+    // Dragging fires many layout changes; persist once it settles
+    const id = current.id;
+    clearTimeout(layoutSaveTimer.current);
+    layoutSaveTimer.current = setTimeout(() => saveDashboard(id, { layouts: allLayouts }), LAYOUT_SAVE_DELAY);
+  };
+
+  const handleCreateDashboard = async (name: string) => {
+    try {
+      const created = await settingsApi.createDashboard({ id: `dash-${Date.now()}`, name, widgets: [], layouts: {} });
+      queryClient.setQueryData<SavedDashboard[]>(["dashboards"], (list = []) => [...list, created]);
+      navigate(`/custom/${created.id}`);
+    } catch (error) {
+      console.error("Failed to create dashboard:", error);
+      toast({
+        title: "Error",
+        description: "Failed to create dashboard",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleExportDashboard = () => {
+    if (!current) return;
+    downloadDashboardDocument(toDashboardDocument({ name: current.name, widgets, layouts }, endpoints));
+  };
+
+  const handleImportDashboard = async (file: File) => {
+    try {
+      const doc = parseDashboardDocument(JSON.parse(await file.text()));
+      const { widgets: importedWidgets, layouts: importedLayouts, unmatched } = fromDashboardDocument(doc, endpoints);
+      const created = await settingsApi.createDashboard({
+        id: `dash-${Date.now()}`,
+        name: doc.name,
+        widgets: importedWidgets,
+        layouts: importedLayouts,
+      });
+      queryClient.setQueryData<SavedDashboard[]>(["dashboards"], (list = []) => [...list, created]);
+      navigate(`/custom/${created.id}`);
+      toast({
+        title: "Dashboard Imported",
+        description: unmatched > 0
+          ? `${unmatched} widget(s) referenced unknown servers and now show the fleet`
+          : `"${doc.name}" is ready`,
+      });
+    } catch (error) {
+      console.error("Failed to import dashboard:", error);
+      toast({
+        title: "Import Failed",
+        description: error instanceof SyntaxError ? "The file is not valid JSON" : (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteDashboard = async () => {
+    if (!current) return;
+    try {
+      await settingsApi.deleteDashboard(current.id);
+      const remaining = dashboards.filter((d) => d.id !== current.id);
+      queryClient.setQueryData<SavedDashboard[]>(["dashboards"], remaining);
+      navigate(remaining.length > 0 ? `/custom/${remaining[0].id}` : "/custom", { replace: true });
+      toast({
+        title: "Dashboard Deleted",
+        description: `"${current.name}" was removed`,
+      });
+    } catch (error) {
+      console.error("Failed to delete dashboard:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete dashboard",
+        variant: "destructive",
+      });
+    }
   };
 
   const renderWidget = (widget: WidgetConfig) => {
-    // Generate time-series data from server metrics
-    const timeSeriesData = Array.from({ length: 20 }, (_, i) => {
-      const baseTime = Date.now() - (19 - i) * 60000;
-      
-      // Aggregate metrics from all servers for time series
-      const avgMetrics = serverData.reduce(
-        (acc, server) => ({
-          usage: acc.usage + (server.metrics?.cpu || 0) / serverData.length,
-          watts: acc.watts + (server.metrics?.power || 0) / serverData.length,
-          temp: acc.temp + (server.metrics?.temperature || 0) / serverData.length,
-          ramUsage: acc.ramUsage + (server.metrics?.ram || 0) / serverData.length,
-          gpuUsage: acc.gpuUsage + (server.metrics?.gpu || 0) / serverData.length,
-          upload: acc.upload + (server.metrics?.network?.upload || 0) / serverData.length,
-          download: acc.download + (server.metrics?.network?.download || 0) / serverData.length,
-        }),
-        { usage: 0, watts: 0, temp: 0, ramUsage: 0, gpuUsage: 0, upload: 0, download: 0 }
-      );
-
-      // Add some variation to simulate real-time changes
-      return {
-        time: baseTime,
-        usage: Math.max(0, Math.min(100, avgMetrics.usage + (Math.random() - 0.5) * 10)),
-        watts: Math.max(0, avgMetrics.watts + (Math.random() - 0.5) * 50),
-        temp: Math.max(20, Math.min(100, avgMetrics.temp + (Math.random() - 0.5) * 5)),
-        ramUsage: Math.max(0, Math.min(100, avgMetrics.ramUsage + (Math.random() - 0.5) * 10)),
-        gpuUsage: Math.max(0, Math.min(100, avgMetrics.gpuUsage + (Math.random() - 0.5) * 10)),
-        upload: Math.max(0, avgMetrics.upload + (Math.random() - 0.5) * 10),
-        download: Math.max(0, avgMetrics.download + (Math.random() - 0.5) * 20),
-      };
-    });
-
-    const servers = serverData.map(data => ({
-      id: data.id || data.endpointId || "unknown",
-      name: data.name || data.endpointName || "Unknown Server",
-      hostname: data.hostname || "unknown",
-      status: data.status || "offline",
-      os: data.os || "Unknown",
+    const source = widgetSource(widget);
+    const sourceServers = serversForSource(source, serverData);
+
+    // Combine the samples recorded for every server the widget is bound to
+    const timeSeriesData = aggregateSamples(
+      sourceServers.map((server) => bufferedSamples.get(server.id) || []),
+      sourceAggregate(source)
+    )
+      .map((sample) => ({
+        time: sample.time,
+        usage: sample.cpu,
+        ramUsage: sample.ram,
+        gpuUsage: sample.gpu,
+        watts: sample.power,
+        temp: sample.cpuTemp,
+        upload: sample.networkOut,
+        download: sample.networkIn,
+      }));
+
+    const servers = sourceServers.map(data => ({
+      id: data.id,
+      name: data.name,
+      hostname: data.hostname,
+      status: data.status,
+      os: data.os,
     }));
 
     switch (widget.type) {
       case "cpu":
-        return <CPUWidget data={timeSeriesData} />;
+        return <CPUWidget title={widget.title} data={timeSeriesData} />;
       case "ram":
-        return <RAMWidget data={timeSeriesData.map(d => ({ ...d, usage: d.ramUsage }))} />;
+        return <RAMWidget title={widget.title} data={timeSeriesData.map(d => ({ ...d, usage: d.ramUsage }))} />;
       case "gpu":
-        return <GPUWidget data={timeSeriesData.map(d => ({ ...d, usage: d.gpuUsage }))} />;
+        return <GPUWidget title={widget.title} data={timeSeriesData.filter(d => d.gpuUsage !== undefined).map(d => ({ ...d, usage: d.gpuUsage }))} />;
       case "power":
-        return <PowerWidget data={timeSeriesData} />;
+        return <PowerWidget title={widget.title} data={timeSeriesData} />;
       case "temperature":
-        return <TemperatureWidget data={timeSeriesData} />;
+        return <TemperatureWidget title={widget.title} data={timeSeriesData} />;
       case "status":
-        return <ServerStatusWidget servers={servers} />;
+        return <ServerStatusWidget title={widget.title} servers={servers} />;
       case "network":
-        return <NetworkWidget data={timeSeriesData} />;
+        return <NetworkWidget title={widget.title} data={timeSeriesData} />;
+      case "carbon":
+        return (
+          <CarbonWidget
+            title={widget.title}
+            sources={sourceServers
+              .map((data) => ({
+                serverId: data.id,
+                name: data.name,
+                endpoint: endpoints.find((e) => e.id === data.endpointId),
+              }))
+              .filter((data) => supportsFeature(data.endpoint, "energy"))}
+          />
+        );
       default:
         return null;
     }
@@ -298,89 +409,50 @@ export default function CustomDashboard() {
       <div className="max-w-[1800px] mx-auto space-y-6">
         <div className="flex items-center justify-between">
           <div>
-            <h1 className="text-3xl font-bold tracking-tight">Custom Dashboard</h1>
-            <p className="text-muted-foreground">Drag and drop widgets to customize your view</p>
+            <h1 className="text-3xl font-bold tracking-tight">{current?.name || "Custom Dashboard"}</h1>
+            <p className="text-muted-foreground">
+              {canEdit ? "Drag and drop widgets to customize your view" : "Shared dashboards from your team"}
+            </p>
           </div>
           <div className="flex items-center gap-3">
-            <Select value={selectedPreset} onValueChange={applyPreset}>
-              <SelectTrigger className="w-[200px]">
-                <SelectValue placeholder="Load preset..." />
-              </SelectTrigger>
-              <SelectContent>
-                {Object.entries(dashboardPresets).map(([key, preset]) => {
-                  const Icon = preset.icon;
-                  return (
-                    <SelectItem key={key} value={key}>
-                      <div className="flex items-center gap-2">
-                        <Icon className="h-4 w-4" />
-                        {preset.name}
-                      </div>
-                    </SelectItem>
-                  );
-                })}
-              </SelectContent>
-            </Select>
-            <Sheet>
-              <SheetTrigger asChild>
-                <Button>
-                  <Plus className="mr-2 h-4 w-4" />
-                  Add Widget
-                </Button>
-              </SheetTrigger>
-            <SheetContent>
-              <SheetHeader>
-                <SheetTitle>Add Widget</SheetTitle>
-                <SheetDescription>Choose a widget to add to your dashboard</SheetDescription>
-              </SheetHeader>
-              <div className="grid gap-3 py-4">
-                {availableWidgets.map((widget) => (
-                  <Card
-                    key={widget.type}
-                    className="cursor-pointer hover:bg-accent transition-colors"
-                    onClick={() => addWidget(widget.type, widget.title)}
-                  >
-                    <CardHeader className="p-4">
-                      <CardTitle className="text-base flex items-center gap-2">
-                        <span className="text-2xl">{widget.icon}</span>
-                        {widget.title}
-                      </CardTitle>
-                    </CardHeader>
-                  </Card>
-                ))}
-              </div>
-            </SheetContent>
-          </Sheet>
-          </div>
-        </div>
-
-        {endpoints.length === 0 ? (
-          <Card className="py-12">
-            <CardContent className="text-center">
-              <LayoutIcon className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
-              <h3 className="text-lg font-semibold mb-2">No Server Endpoints Configured</h3>
-              <p className="text-muted-foreground mb-4">
-                Configure server API endpoints in Settings to start monitoring your servers
-              </p>
-              <Button onClick={() => window.location.href = '/settings'}>
-                Go to Settings
-              </Button>
-            </CardContent>
-          </Card>
-        ) : widgets.length === 0 ? (
-          <Card className="py-12">
-            <CardContent className="text-center">
-              <LayoutIcon className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
-              <h3 className="text-lg font-semibold mb-2">No Widgets Added</h3>
-              <p className="text-muted-foreground mb-4">
-                Start by adding widgets to create your custom dashboard
-              </p>
-              <Sheet>
-                <SheetTrigger asChild>
-                  <Button>
-                    <Plus className="mr-2 h-4 w-4" />
-                    Add Your First Widget
-                  </Button>
-                </SheetTrigger>
+            <DashboardSwitcher
+              dashboards={dashboards}
+              currentId={current?.id}
+              onSelect={(id) => navigate(`/custom/${id}`)}
+              onCreate={handleCreateDashboard}
+              onRename={(name) => current && saveDashboard(current.id, { name })}
+              onDelete={handleDeleteDashboard}
+              onImport={handleImportDashboard}
+              onExport={handleExportDashboard}
+              canEdit={canEdit}
+            />
+            {canEdit && (
+              <>
+                <Select value={selectedPreset} onValueChange={applyPreset} disabled={!current}>
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue placeholder="Load preset..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(dashboardPresets).map(([key, preset]) => {
+                      const Icon = preset.icon;
+                      return (
+                        <SelectItem key={key} value={key}>
+                          <div className="flex items-center gap-2">
+                            <Icon className="h-4 w-4" />
+                            {preset.document.name}
+                          </div>
+                        </SelectItem>
+                      );
+                    })}
+                  </SelectContent>
+                </Select>
+                <Sheet>
+                  <SheetTrigger asChild>
+                    <Button disabled={!current}>
+                      <Plus className="mr-2 h-4 w-4" />
+                      Add Widget
+                    </Button>
+                  </SheetTrigger>
                 <SheetContent>
                   <SheetHeader>
                     <SheetTitle>Add Widget</SheetTitle>
@@ -404,6 +476,85 @@ export default function CustomDashboard() {
                   </div>
                 </SheetContent>
               </Sheet>
+              </>
+            )}
+          </div>
+        </div>
+
+        {isLoading ? (
+          <Card className="p-6">
+            <p className="text-muted-foreground">Loading dashboards...</p>
+          </Card>
+        ) : isError ? (
+          <Card className="p-6">
+            <p className="text-muted-foreground">
+              Failed to load dashboards from the settings server
+            </p>
+          </Card>
+        ) : dashboardId && !current ? (
+          <Card className="py-12">
+            <CardContent className="text-center">
+              <LayoutIcon className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+              <h3 className="text-lg font-semibold mb-2">Dashboard Not Found</h3>
+              <p className="text-muted-foreground mb-4">
+                This dashboard may have been deleted or the link is incorrect
+              </p>
+              <Button onClick={() => navigate("/custom")}>Open Default Dashboard</Button>
+            </CardContent>
+          </Card>
+        ) : !endpointsLoading && endpoints.length === 0 ? (
+          <Card className="py-12">
+            <CardContent className="text-center">
+              <LayoutIcon className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+              <h3 className="text-lg font-semibold mb-2">No Server Endpoints Configured</h3>
+              <p className="text-muted-foreground mb-4">
+                Configure server API endpoints in Settings to start monitoring your servers
+              </p>
+              <Button onClick={() => window.location.href = '/settings'}>
+                Go to Settings
+              </Button>
+            </CardContent>
+          </Card>
+        ) : widgets.length === 0 ? (
+          <Card className="py-12">
+            <CardContent className="text-center">
+              <LayoutIcon className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+              <h3 className="text-lg font-semibold mb-2">No Widgets Added</h3>
+              <p className="text-muted-foreground mb-4">
+                {canEdit ? "Start by adding widgets to create your custom dashboard" : "This dashboard has no widgets yet"}
+              </p>
+              {canEdit && (
+                <Sheet>
+                  <SheetTrigger asChild>
+                    <Button>
+                      <Plus className="mr-2 h-4 w-4" />
+                      Add Your First Widget
+                    </Button>
+                  </SheetTrigger>
+                  <SheetContent>
+                    <SheetHeader>
+                      <SheetTitle>Add Widget</SheetTitle>
+                      <SheetDescription>Choose a widget to add to your dashboard</SheetDescription>
+                    </SheetHeader>
+                    <div className="grid gap-3 py-4">
+                      {availableWidgets.map((widget) => (
+                        <Card
+                          key={widget.type}
+                          className="cursor-pointer hover:bg-accent transition-colors"
+                          onClick={() => addWidget(widget.type, widget.title)}
+                        >
+                          <CardHeader className="p-4">
+                            <CardTitle className="text-base flex items-center gap-2">
+                              <span className="text-2xl">{widget.icon}</span>
+                              {widget.title}
+                            </CardTitle>
+                          </CardHeader>
+                        </Card>
+                      ))}
+                    </div>
+                  </SheetContent>
+                </Sheet>
+              )}
             </CardContent>
           </Card>
         ) : (
@@ -415,25 +566,48 @@ export default function CustomDashboard() {
             rowHeight={60}
             onLayoutChange={handleLayoutChange}
             draggableHandle=".drag-handle"
+            isDraggable={canEdit}
+            isResizable={canEdit}
           >
             {widgets.map((widget) => (
               <div key={widget.i} className="relative">
                 <div className="drag-handle absolute top-2 left-2 right-2 h-8 cursor-move z-10 bg-card/50 backdrop-blur-sm rounded-t-lg flex items-center justify-between px-3">
-                  <span className="text-xs font-medium text-muted-foreground">Drag to move</span>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    className="h-6 px-2"
-                    onClick={() => removeWidget(widget.i)}
-                  >
-                    ×
-                  </Button>
+                  <span className="text-xs font-medium text-muted-foreground truncate">
+                    {describeSource(widgetSource(widget), endpoints)}
+                  </span>
+                  {canEdit && (
+                    <div className="flex items-center">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2"
+                        onClick={() => setEditingWidget(widget)}
+                      >
+                        <Settings2 className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2"
+                        onClick={() => removeWidget(widget.i)}
+                      >
+                        ×
+                      </Button>
+                    </div>
+                  )}
                 </div>
                 <div className="h-full pt-8">{renderWidget(widget)}</div>
               </div>
             ))}
           </ResponsiveGridLayout>
         )}
+
+        <WidgetSettingsSheet
+          widget={editingWidget}
+          endpoints={endpoints}
+          onOpenChange={(open) => !open && setEditingWidget(null)}
+          onSave={updateWidget}
+        />
       </div>
     </div>
   );
@@ -2,45 +2,29 @@ import { useEffect, useState } from "react";
 import { ServerCard } from "@/components/dashboard/ServerCard";
 import { MetricsChart } from "@/components/dashboard/MetricsChart";
 import { PowerConsumption } from "@/components/dashboard/PowerConsumption";
+import { EnergyUsage } from "@/components/dashboard/EnergyUsage";
+import { CarbonFootprint } from "@/components/dashboard/CarbonFootprint";
+import { FleetCostTable } from "@/components/dashboard/FleetCostTable";
+import { FacilityPower } from "@/components/dashboard/FacilityPower";
+import { EfficiencyMetrics } from "@/components/dashboard/EfficiencyMetrics";
+import { IdleWasteReport } from "@/components/dashboard/IdleWasteReport";
 import { HealthPredictions } from "@/components/dashboard/HealthPredictions";
-import { Card } from "@/components/ui/card";
+import { MetricsHistory } from "@/components/dashboard/MetricsHistory";
+import { ServerFilterBar } from "@/components/dashboard/ServerFilterBar";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-
-export interface ServerMetrics {
-  id: string;
-  name: string;
-  hostname: string;
-  os: string;
-  status: "online" | "offline" | "throttled";
-  uptime: number;
-  lastSeen: Date;
-  metrics: {
-    cpu: { usage: number; temp: number; cores: number };
-    ram: { used: number; total: number; temp?: number };
-    gpu?: { usage: number; temp: number; memory: number };
-    power: {
-      total: number;
-      cpu: number;
-      gpu?: number;
-      ram: number;
-      storage: number;
-      other: number;
-    };
-    network: { in: number; out: number };
-  };
-}
-
-interface ServerEndpoint {
-  id: string;
-  name: string;
-  url: string;
-}
+import { ServerMetrics, useServerMetrics } from "@/lib/metricsClient";
+import { RETENTION_OPTIONS, setRetentionMinutes, useBufferedSamples, useRetentionMinutes } from "@/lib/metricsBuffer";
+import { supportsFeature } from "@/lib/agentProbe";
+import { EMPTY_ENDPOINT_FILTER, matchesEndpointFilter, useServerEndpoints } from "@/lib/serverEndpoints";
+import { CloudOff } from "lucide-react";
 
 // Mock data for demonstration
 const mockServers: ServerMetrics[] = [
   {
     id: "srv-1",
+    endpointId: "srv-1",
     name: "production-web",
     hostname: "prod-web-01.local",
     os: "Ubuntu 22.04",
@@ -57,6 +41,7 @@ const mockServers: ServerMetrics[] = [
   },
   {
     id: "srv-2",
+    endpointId: "srv-2",
     name: "database-primary",
     hostname: "db-primary.local",
     os: "Ubuntu 20.04",
@@ -72,6 +57,7 @@ const mockServers: ServerMetrics[] = [
   },
   {
     id: "srv-3",
+    endpointId: "srv-3",
     name: "ml-training",
     hostname: "ml-gpu-01.local",
     os: "Windows Server 2022",
@@ -89,114 +75,39 @@ const mockServers: ServerMetrics[] = [
 ];
 
 export default function Dashboard() {
-  const [servers, setServers] = useState<ServerMetrics[]>([]);
   const [selectedServer, setSelectedServer] = useState<string | null>(null);
-  const [endpoints, setEndpoints] = useState<ServerEndpoint[]>([]);
+  const [filter, setFilter] = useState(EMPTY_ENDPOINT_FILTER);
+  const { endpoints, isLoading: endpointsLoading, isOffline } = useServerEndpoints();
+  const { data: liveServers = [] } = useServerMetrics(endpoints);
   const { toast } = useToast();
 
   useEffect(() => {
-    const savedEndpoints = localStorage.getItem("serverEndpoints");
-    if (savedEndpoints) {
-      setEndpoints(JSON.parse(savedEndpoints));
-    }
-  }, []);
-
-  useEffect(() => {
-    if (endpoints.length === 0) {
+    if (!endpointsLoading && endpoints.length === 0) {
       toast({
         title: "Using Mock Data",
         description: "Configure server endpoints in Settings to connect to real servers",
         variant: "default",
       });
-      setServers(mockServers);
-      return;
     }
+  }, [endpoints, endpointsLoading, toast]);
 
-    const fetchMetrics = async () => {
-      const allData = await Promise.all(
-        endpoints.map(async (endpoint) => {
-          try {
-            // Remove trailing slash from URL to prevent double slashes
-            const baseUrl = endpoint.url.replace(/\/$/, '');
-            const response = await fetch(`${baseUrl}/metrics`);
-            if (!response.ok) throw new Error(`HTTP ${response.status}`);
-            const data = await response.json();
-            
-            // Extract hostname from URL for DNS-based naming
-            const url = new URL(endpoint.url);
-            const serverName = url.hostname;
-            
-            // Transform data to match ServerMetrics interface
-            return {
-              id: data.id || endpoint.id,
-              name: serverName,
-              hostname: serverName,
-              os: data.os || "Unknown",
-              status: (data.status || "online") as "online" | "offline" | "throttled",
-              uptime: data.uptime || 0,
-              lastSeen: new Date(data.lastSeen || Date.now()),
-              metrics: {
-                cpu: {
-                  usage: data.cpu?.usage || 0,
-                  temp: data.temperature?.cpu || data.cpu?.temp || 0,
-                  cores: data.cpu?.cores || 0,
-                },
-                ram: {
-                  used: data.memory?.used || data.ram?.used || 0,
-                  total: data.memory?.total || data.ram?.total || 0,
-                  temp: data.temperature?.ram || data.ram?.temp,
-                },
-                gpu: data.gpu ? {
-                  usage: data.gpu.usage || 0,
-                  temp: data.temperature?.gpu || data.gpu.temp || 0,
-                  memory: data.gpu.memory || 0,
-                } : undefined,
-                power: {
-                  total: data.power?.total || 0,
-                  cpu: data.power?.cpu || 0,
-                  gpu: data.power?.gpu,
-                  ram: data.power?.ram || 0,
-                  storage: data.power?.storage || 0,
-                  other: data.power?.other || 0,
-                },
-                network: {
-                  in: data.network?.download_speed || data.network?.in || 0,
-                  out: data.network?.upload_speed || data.network?.out || 0,
-                },
-              },
-            };
-          } catch (error) {
-            console.error(`Failed to fetch from ${endpoint.name}:`, error);
-            // Return offline server entry
-            const url = new URL(endpoint.url);
-            return {
-              id: endpoint.id,
-              name: url.hostname,
-              hostname: url.hostname,
-              os: "Unknown",
-              status: "offline" as const,
-              uptime: 0,
-              lastSeen: new Date(),
-              metrics: {
-                cpu: { usage: 0, temp: 0, cores: 0 },
-                ram: { used: 0, total: 0 },
-                power: { total: 0, cpu: 0, ram: 0, storage: 0, other: 0 },
-                network: { in: 0, out: 0 },
-              },
-            };
-          }
-        })
-      );
-
-      setServers(allData);
-    };
-
-    fetchMetrics();
-    const interval = setInterval(fetchMetrics, 5000);
-    return () => clearInterval(interval);
-  }, [endpoints, toast]);
-
+  const servers = endpoints.length === 0 ? mockServers : liveServers;
+  const endpointFor = (s: ServerMetrics) => endpoints.find((e) => e.id === s.endpointId);
+  const visibleServers = servers.filter((s) => matchesEndpointFilter(endpointFor(s), filter, [s.name, s.hostname]));
   const server = selectedServer ? servers.find((s) => s.id === selectedServer) : null;
+  const serverEndpoint = server ? endpointFor(server) : undefined;
+  const showPredictions = supportsFeature(serverEndpoint, "predictions");
+  const showHistory = supportsFeature(serverEndpoint, "history");
+  const showEnergy = supportsFeature(serverEndpoint, "energy");
+  const energyFleet = servers
+    .map((s) => ({ serverId: s.id, name: s.name, endpoint: endpointFor(s) }))
+    .filter((s) => s.endpoint && supportsFeature(s.endpoint, "energy"));
+  const showEfficiency = supportsFeature(serverEndpoint, "efficiency");
+  const efficiencyFleet = servers
+    .map((s) => ({ serverId: s.id, name: s.name, endpoint: endpointFor(s) }))
+    .filter((s) => s.endpoint && supportsFeature(s.endpoint, "efficiency"));
+  const samples = useBufferedSamples(server?.id);
+  const retention = useRetentionMinutes();
 
   return (
     <div className="min-h-screen bg-background p-6">
@@ -209,17 +120,34 @@ export default function Dashboard() {
             </p>
           </div>
           <div className="flex items-center gap-3">
+            {isOffline && (
+              <span
+                className="flex items-center gap-1 text-sm text-yellow-500"
+                title="The settings server is unreachable, showing the server list cached in this browser"
+              >
+                <CloudOff className="h-4 w-4" />
+                Cached server list
+              </span>
+            )}
             <span className="text-sm text-muted-foreground">
               {servers.filter((s) => s.status === "online").length}/{servers.length} Online
             </span>
           </div>
         </div>
 
+        <ServerFilterBar endpoints={endpoints} filter={filter} onChange={setFilter} />
+
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          {servers.map((server) => (
+          {visibleServers.length === 0 && (
+            <p className="col-span-full text-center py-8 text-sm text-muted-foreground">
+              No servers match the current filter
+            </p>
+          )}
+          {visibleServers.map((server) => (
             <ServerCard
               key={server.id}
               server={server}
+              endpoint={endpointFor(server)}
               onClick={() => setSelectedServer(server.id)}
               isSelected={selectedServer === server.id}
             />
@@ -227,28 +155,43 @@ export default function Dashboard() {
         </div>
 
         {server && (
-          <Tabs defaultValue="metrics" className="w-full">
-            <TabsList className="grid w-full grid-cols-4 max-w-2xl">
-              <TabsTrigger value="metrics">Metrics</TabsTrigger>
-              <TabsTrigger value="predictions">Predictions</TabsTrigger>
-              <TabsTrigger value="power">Power</TabsTrigger>
-              <TabsTrigger value="history">History</TabsTrigger>
+          <Tabs key={server.id} defaultValue="metrics" className="w-full">
+            <TabsList className="w-full max-w-2xl justify-start">
+              <TabsTrigger value="metrics" className="flex-1">Metrics</TabsTrigger>
+              {showPredictions && <TabsTrigger value="predictions" className="flex-1">Predictions</TabsTrigger>}
+              <TabsTrigger value="power" className="flex-1">Power</TabsTrigger>
+              {showHistory && <TabsTrigger value="history" className="flex-1">History</TabsTrigger>}
             </TabsList>
 
             <TabsContent value="metrics" className="space-y-4">
+              <div className="flex items-center justify-end gap-2">
+                <span className="text-sm text-muted-foreground">Window</span>
+                <Select value={String(retention)} onValueChange={(value) => setRetentionMinutes(Number(value))}>
+                  <SelectTrigger className="w-[140px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RETENTION_OPTIONS.map((minutes) => (
+                      <SelectItem key={minutes} value={String(minutes)}>
+                        Last {minutes} min
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
                 <MetricsChart
                   title="CPU Usage"
-                  data={[{ time: Date.now(), value: server.metrics.cpu.usage }]}
-                  dataKey="value"
+                  data={samples}
+                  dataKey="cpu"
                   color="hsl(var(--chart-1))"
                   unit="%"
                   max={100}
                 />
                 <MetricsChart
                   title="RAM Usage"
-                  data={[{ time: Date.now(), value: (server.metrics.ram.used / server.metrics.ram.total) * 100 }]}
-                  dataKey="value"
+                  data={samples}
+                  dataKey="ram"
                   color="hsl(var(--chart-2))"
                   unit="%"
                   max={100}
@@ -256,8 +199,8 @@ export default function Dashboard() {
                 {server.metrics.gpu && (
                   <MetricsChart
                     title="GPU Usage"
-                    data={[{ time: Date.now(), value: server.metrics.gpu.usage }]}
-                    dataKey="value"
+                    data={samples}
+                    dataKey="gpu"
                     color="hsl(var(--chart-3))"
                     unit="%"
                     max={100}
@@ -265,34 +208,50 @@ export default function Dashboard() {
                 )}
                 <MetricsChart
                   title="Temperature"
-                  data={[
-                    { name: "CPU", value: server.metrics.cpu.temp },
-                    { name: "RAM", value: server.metrics.ram.temp || 0 },
-                    { name: "GPU", value: server.metrics.gpu?.temp || 0 },
+                  data={samples}
+                  series={[
+                    { dataKey: "cpuTemp", name: "CPU", color: "hsl(var(--chart-1))" },
+                    { dataKey: "ramTemp", name: "RAM", color: "hsl(var(--chart-2))" },
+                    ...(server.metrics.gpu ? [{ dataKey: "gpuTemp", name: "GPU", color: "hsl(var(--chart-3))" }] : []),
                   ]}
-                  dataKey="value"
-                  color="hsl(var(--chart-4))"
                   unit="°C"
                   max={100}
                 />
               </div>
             </TabsContent>
 
-            <TabsContent value="predictions">
-              <HealthPredictions serverId={server.id} apiEndpoint={endpoints.find(e => e.id === server.id)?.url || ""} />
-            </TabsContent>
+            {showPredictions && (
+              <TabsContent value="predictions">
+                <HealthPredictions serverId={server.id} apiEndpoint={serverEndpoint?.url || ""} />
+              </TabsContent>
+            )}
 
-            <TabsContent value="power">
-              <PowerConsumption server={server} />
+            <TabsContent value="power" className="space-y-4">
+              <PowerConsumption
+                server={server}
+                endpoint={showEnergy ? serverEndpoint : undefined}
+                fleet={energyFleet}
+              />
+              {serverEndpoint && (
+                <FacilityPower server={server} endpoint={serverEndpoint} servers={servers} endpoints={endpoints} />
+              )}
+              {showEnergy && <EnergyUsage server={server} endpoint={serverEndpoint} />}
+              {showEnergy && (
+                <CarbonFootprint
+                  server={{ serverId: server.id, name: server.name, endpoint: serverEndpoint }}
+                  fleet={energyFleet}
+                />
+              )}
+              {showEnergy && <FleetCostTable fleet={energyFleet} selectedId={server.id} />}
+              <EfficiencyMetrics server={server} endpoint={showEfficiency ? serverEndpoint : undefined} />
+              {showEfficiency && serverEndpoint && <IdleWasteReport fleet={efficiencyFleet} selectedId={server.id} />}
             </TabsContent>
 
-            <TabsContent value="history">
-              <Card className="p-6">
-                <p className="text-muted-foreground">
-                  Historical data will be fetched from your API endpoint
-                </p>
-              </Card>
-            </TabsContent>
+            {showHistory && (
+              <TabsContent value="history">
+                <MetricsHistory server={server} endpoint={serverEndpoint} />
+              </TabsContent>
+            )}
           </Tabs>
         )}
       </div>
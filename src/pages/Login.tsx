@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useLocation, useNavigate } from "react-router-dom";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Activity, Loader2 } from "lucide-react";
+import { Session, login, sessionQueryKey, setupAdmin, useSession } from "@/lib/auth";
+
+export default function Login() {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { setupRequired } = useSession();
+  const from = (location.state as { from?: string } | null)?.from || "/";
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const user = setupRequired
+        ? await setupAdmin(username.trim(), password)
+        : await login(username.trim(), password);
+      queryClient.setQueryData<Session>(sessionQueryKey, { user, setup_required: false });
+      navigate(from, { replace: true });
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background p-6">
+      <Card className="w-full max-w-sm p-6">
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Activity className="w-6 h-6 text-primary" />
+              <span className="text-xl font-bold">Monitor</span>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {setupRequired
+                ? "No accounts exist yet. Create the first admin account."
+                : "Sign in to view your servers."}
+            </p>
+          </div>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="login-username">Username</Label>
+              <Input
+                id="login-username"
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="login-password">Password</Label>
+              <Input
+                id="login-password"
+                type="password"
+                autoComplete={setupRequired ? "new-password" : "current-password"}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+              {setupRequired && <p className="text-xs text-muted-foreground">At least 8 characters</p>}
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <Button type="submit" className="w-full" disabled={submitting || !username.trim() || !password}>
+            {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {setupRequired ? "Create Admin" : "Sign In"}
+          </Button>
+        </form>
+      </Card>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -6,19 +7,33 @@ import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
-import { Plus, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { ServerEndpointDialog } from "@/components/settings/ServerEndpointDialog";
+import { AgentProbeResult } from "@/components/settings/AgentProbeResult";
+import { AlertRulesCard } from "@/components/settings/AlertRulesCard";
+import { AgentConfigCard } from "@/components/settings/AgentConfigCard";
+import { ThresholdHistoryCard } from "@/components/settings/ThresholdHistoryCard";
+import { NotificationChannelsCard } from "@/components/settings/NotificationChannelsCard";
+import { NotificationDeliveryLog } from "@/components/settings/NotificationDeliveryLog";
+import { UsersCard } from "@/components/settings/UsersCard";
+import { AuditLogCard } from "@/components/settings/AuditLogCard";
+import { CarbonIntensityCard } from "@/components/settings/CarbonIntensityCard";
+import { TariffsCard } from "@/components/settings/TariffsCard";
+import { FacilitiesCard } from "@/components/settings/FacilitiesCard";
+import { Loader2, Pencil, Plus, PlugZap, Trash2 } from "lucide-react";
 import * as settingsApi from "@/lib/settingsApi";
-
-interface ServerEndpoint {
-  id: string;
-  name: string;
-  url: string;
-}
+import type { AlertThresholds, ServerEndpoint } from "@/lib/settingsApi";
+import { serverEndpointsQueryKey, useServerEndpoints } from "@/lib/serverEndpoints";
+import { AgentCapabilities, probeAgent } from "@/lib/agentProbe";
 
 export default function Settings() {
-  const [serverEndpoints, setServerEndpoints] = useState<ServerEndpoint[]>([]);
+  const queryClient = useQueryClient();
+  const { endpoints: serverEndpoints, isOffline } = useServerEndpoints();
   const [newServerName, setNewServerName] = useState("");
   const [newServerUrl, setNewServerUrl] = useState("");
+  const [editingServer, setEditingServer] = useState<ServerEndpoint | null>(null);
+  const [newServerProbe, setNewServerProbe] = useState<AgentCapabilities | null>(null);
+  const [testingId, setTestingId] = useState<string | null>(null);
   
   // Alert thresholds
   const [cpuThreshold, setCpuThreshold] = useState(
@@ -34,26 +49,6 @@ export default function Settings() {
     localStorage.getItem("alertTempThreshold") || "85"
   );
   
-  // Notification channels
-  const [smtpHost, setSmtpHost] = useState(
-    localStorage.getItem("smtpHost") || ""
-  );
-  const [smtpPort, setSmtpPort] = useState(
-    localStorage.getItem("smtpPort") || "587"
-  );
-  const [smtpUser, setSmtpUser] = useState(
-    localStorage.getItem("smtpUser") || ""
-  );
-  const [alertEmail, setAlertEmail] = useState(
-    localStorage.getItem("alertEmail") || ""
-  );
-  const [slackWebhook, setSlackWebhook] = useState(
-    localStorage.getItem("slackWebhook") || ""
-  );
-  const [discordWebhook, setDiscordWebhook] = useState(
-    localStorage.getItem("discordWebhook") || ""
-  );
-  
   const { toast } = useToast();
 
   useEffect(() => {
@@ -62,29 +57,14 @@ export default function Settings() {
 
   const loadSettings = async () => {
     try {
-      const [endpoints, alerts, notifications] = await Promise.all([
-        settingsApi.getServerEndpoints(),
-        settingsApi.getAlertThresholds(),
-        settingsApi.getNotificationSettings(),
-      ]);
+      const alerts = await settingsApi.getAlertThresholds();
 
-      setServerEndpoints(endpoints);
       setCpuThreshold(alerts.cpu.toString());
       setRamThreshold(alerts.ram.toString());
       setGpuThreshold(alerts.gpu.toString());
       setTempThreshold(alerts.temperature.toString());
-      
-      setSmtpHost(notifications.smtp_host || '');
-      setSmtpPort(notifications.smtp_port || '587');
-      setSmtpUser(notifications.smtp_user || '');
-      setAlertEmail(notifications.alert_email || '');
-      setSlackWebhook(notifications.slack_webhook || '');
-      setDiscordWebhook(notifications.discord_webhook || '');
     } catch (error) {
       console.error('Failed to load settings from API:', error);
-      // Fallback to localStorage
-      const savedEndpoints = localStorage.getItem("serverEndpoints");
-      if (savedEndpoints) setServerEndpoints(JSON.parse(savedEndpoints));
     }
   };
 
@@ -97,22 +77,28 @@ export default function Settings() {
       });
       return;
     }
+    setTestingId("new");
+    const capabilities = newServerProbe || (await probeAgent({ url: newServerUrl }));
+    setTestingId(null);
     const newServer: ServerEndpoint = {
       id: Date.now().toString(),
       name: newServerName,
       url: newServerUrl,
+      capabilities,
     };
 
     try {
       await settingsApi.addServerEndpoint(newServer);
-      const updated = [...serverEndpoints, newServer];
-      setServerEndpoints(updated);
-      localStorage.setItem("serverEndpoints", JSON.stringify(updated));
+      await queryClient.invalidateQueries({ queryKey: serverEndpointsQueryKey });
       setNewServerName("");
       setNewServerUrl("");
+      setNewServerProbe(null);
       toast({
         title: "Server Added",
-        description: "Server endpoint added successfully",
+        description: capabilities.reachable
+          ? "Server endpoint added successfully"
+          : "Server endpoint added, but the agent did not respond to the connection test",
+        variant: capabilities.reachable ? "default" : "destructive",
       });
     } catch (error) {
       console.error('Failed to add server:', error);
@@ -124,12 +110,62 @@ export default function Settings() {
     }
   };
 
+  const handleTestNewServer = async () => {
+    if (!newServerUrl.trim()) return;
+    setTestingId("new");
+    setNewServerProbe(await probeAgent({ url: newServerUrl }));
+    setTestingId(null);
+  };
+
+  // Re-runs the connection test for a saved endpoint and stores the result on it
+  const handleTestServer = async (server: ServerEndpoint) => {
+    setTestingId(server.id);
+    try {
+      const capabilities = await probeAgent(server);
+      await settingsApi.updateServerEndpoint(server.id, { capabilities });
+      await queryClient.invalidateQueries({ queryKey: serverEndpointsQueryKey });
+      toast({
+        title: capabilities.reachable ? "Connection OK" : "Connection Failed",
+        description: capabilities.reachable
+          ? `${server.name} answered in ${capabilities.latencyMs} ms`
+          : capabilities.error || `${server.name} did not respond`,
+        variant: capabilities.reachable ? "default" : "destructive",
+      });
+    } catch (error) {
+      console.error('Failed to save connection test:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save connection test result to database",
+        variant: "destructive",
+      });
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  const handleUpdateServer = async ({ id, created_at, ...changes }: ServerEndpoint) => {
+    try {
+      await settingsApi.updateServerEndpoint(id, changes);
+      await queryClient.invalidateQueries({ queryKey: serverEndpointsQueryKey });
+      setEditingServer(null);
+      toast({
+        title: "Server Updated",
+        description: `${changes.name} saved`,
+      });
+    } catch (error) {
+      console.error('Failed to update server:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update server endpoint in database",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleRemoveServer = async (id: string) => {
     try {
       await settingsApi.deleteServerEndpoint(id);
-      const updated = serverEndpoints.filter((s) => s.id !== id);
-      setServerEndpoints(updated);
-      localStorage.setItem("serverEndpoints", JSON.stringify(updated));
+      await queryClient.invalidateQueries({ queryKey: serverEndpointsQueryKey });
       toast({
         title: "Server Removed",
         description: "Server endpoint removed",
@@ -144,6 +180,17 @@ export default function Settings() {
     }
   };
   
+  const handleRestoreAlerts = (thresholds: AlertThresholds) => {
+    setCpuThreshold(thresholds.cpu.toString());
+    setRamThreshold(thresholds.ram.toString());
+    setGpuThreshold(thresholds.gpu.toString());
+    setTempThreshold(thresholds.temperature.toString());
+    localStorage.setItem("alertCpuThreshold", thresholds.cpu.toString());
+    localStorage.setItem("alertRamThreshold", thresholds.ram.toString());
+    localStorage.setItem("alertGpuThreshold", thresholds.gpu.toString());
+    localStorage.setItem("alertTempThreshold", thresholds.temperature.toString());
+  };
+
   const handleSaveAlerts = async () => {
     try {
       await settingsApi.saveAlertThresholds({
@@ -156,6 +203,10 @@ export default function Settings() {
       localStorage.setItem("alertRamThreshold", ramThreshold);
       localStorage.setItem("alertGpuThreshold", gpuThreshold);
       localStorage.setItem("alertTempThreshold", tempThreshold);
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ["agentConfig"] }),
+        queryClient.invalidateQueries({ queryKey: ["alertThresholdHistory"] }),
+      ]);
       toast({
         title: "Alert Thresholds Saved",
         description: "Settings saved to database",
@@ -170,36 +221,6 @@ export default function Settings() {
     }
   };
   
-  const handleSaveNotifications = async () => {
-    try {
-      await settingsApi.saveNotificationSettings({
-        smtp_host: smtpHost,
-        smtp_port: smtpPort,
-        smtp_user: smtpUser,
-        alert_email: alertEmail,
-        slack_webhook: slackWebhook,
-        discord_webhook: discordWebhook,
-      });
-      localStorage.setItem("smtpHost", smtpHost);
-      localStorage.setItem("smtpPort", smtpPort);
-      localStorage.setItem("smtpUser", smtpUser);
-      localStorage.setItem("alertEmail", alertEmail);
-      localStorage.setItem("slackWebhook", slackWebhook);
-      localStorage.setItem("discordWebhook", discordWebhook);
-      toast({
-        title: "Notification Settings Saved",
-        description: "Settings saved to database",
-      });
-    } catch (error) {
-      console.error('Failed to save notifications:', error);
-      toast({
-        title: "Error",
-        description: "Failed to save notification settings to database",
-        variant: "destructive",
-      });
-    }
-  };
-
   return (
     <div className="min-h-screen bg-background p-6">
       <div className="max-w-4xl mx-auto space-y-6">
@@ -211,10 +232,14 @@ export default function Settings() {
         </div>
 
         <Tabs defaultValue="servers" className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-7">
             <TabsTrigger value="servers">Servers</TabsTrigger>
+            <TabsTrigger value="rules">Alert Rules</TabsTrigger>
             <TabsTrigger value="alerts">Alert Thresholds</TabsTrigger>
             <TabsTrigger value="notifications">Notifications</TabsTrigger>
+            <TabsTrigger value="energy">Energy</TabsTrigger>
+            <TabsTrigger value="users">Users</TabsTrigger>
+            <TabsTrigger value="audit">Audit Log</TabsTrigger>
           </TabsList>
 
           <TabsContent value="servers" className="space-y-4">
@@ -225,6 +250,11 @@ export default function Settings() {
                   <p className="text-sm text-muted-foreground">
                     Manage multiple server monitoring endpoints
                   </p>
+                  {isOffline && (
+                    <p className="text-sm text-destructive mt-2">
+                      The settings server is unreachable. Showing the list cached in this browser; changes cannot be saved.
+                    </p>
+                  )}
                 </div>
 
                 <Separator />
@@ -235,10 +265,49 @@ export default function Settings() {
                       key={server.id}
                       className="flex items-center gap-3 p-4 bg-muted/30 rounded-lg border border-border"
                     >
-                      <div className="flex-1">
+                      <div className="flex-1 space-y-1">
                         <p className="font-medium">{server.name}</p>
                         <p className="text-sm text-muted-foreground font-mono">{server.url}</p>
+                        {(server.location || server.rack || server.owner) && (
+                          <p className="text-xs text-muted-foreground">
+                            {[server.location, server.rack, server.owner && `Owner: ${server.owner}`]
+                              .filter(Boolean)
+                              .join(" · ")}
+                          </p>
+                        )}
+                        {server.tags && server.tags.length > 0 && (
+                          <div className="flex flex-wrap gap-1">
+                            {server.tags.map((tag) => (
+                              <Badge key={tag} variant="secondary">{tag}</Badge>
+                            ))}
+                          </div>
+                        )}
+                        {server.capabilities && (
+                          <div className="pt-1">
+                            <AgentProbeResult capabilities={server.capabilities} />
+                          </div>
+                        )}
                       </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Test connection"
+                        disabled={testingId === server.id}
+                        onClick={() => handleTestServer(server)}
+                      >
+                        {testingId === server.id ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <PlugZap className="h-4 w-4" />
+                        )}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setEditingServer(server)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
                       <Button
                         variant="ghost"
                         size="icon"
@@ -277,30 +346,62 @@ export default function Settings() {
                         id="serverUrl"
                         placeholder="http://192.168.1.100:3000"
                         value={newServerUrl}
-                        onChange={(e) => setNewServerUrl(e.target.value)}
+                        onChange={(e) => {
+                          setNewServerUrl(e.target.value);
+                          setNewServerProbe(null);
+                        }}
                       />
                       <p className="text-xs text-muted-foreground">
                         The base URL of your metrics API server (without /api suffix)
                       </p>
                     </div>
-                    <Button onClick={handleAddServer} className="w-full">
-                      <Plus className="h-4 w-4 mr-2" />
-                      Add Server Endpoint
-                    </Button>
+                    {newServerProbe && (
+                      <div className="p-3 rounded-lg border border-border">
+                        <AgentProbeResult capabilities={newServerProbe} />
+                      </div>
+                    )}
+                    <div className="grid grid-cols-2 gap-3">
+                      <Button
+                        variant="outline"
+                        onClick={handleTestNewServer}
+                        disabled={!newServerUrl.trim() || testingId === "new"}
+                      >
+                        {testingId === "new" ? (
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        ) : (
+                          <PlugZap className="h-4 w-4 mr-2" />
+                        )}
+                        Test Connection
+                      </Button>
+                      <Button onClick={handleAddServer} disabled={testingId === "new"}>
+                        <Plus className="h-4 w-4 mr-2" />
+                        Add Server Endpoint
+                      </Button>
+                    </div>
                   </div>
                 </div>
               </div>
             </Card>
           </TabsContent>
 
+          <ServerEndpointDialog
+            endpoint={editingServer}
+            onOpenChange={(open) => !open && setEditingServer(null)}
+            onSave={handleUpdateServer}
+          />
+
+          <TabsContent value="rules" className="space-y-4">
+            <AlertRulesCard endpoints={serverEndpoints} />
+          </TabsContent>
+
           <TabsContent value="alerts" className="space-y-4">
             <Card className="p-6">
               <div className="space-y-6">
                 <div>
                   <h3 className="text-lg font-semibold mb-4">Alert Thresholds</h3>
                   <p className="text-sm text-muted-foreground mb-6">
-                    Configure when alerts should be triggered. These values are stored locally for reference.
-                    Update your backend server's .env file with these values for them to take effect.
+                    Configure when agents should send alerts. Saved values reach the agents with Push to Agents
+                    below, or use Alert Rules to have the dashboard server evaluate thresholds itself.
                   </p>
                 </div>
 
@@ -371,107 +472,30 @@ export default function Settings() {
                 <Button onClick={handleSaveAlerts}>Save Alert Thresholds</Button>
               </div>
             </Card>
-          </TabsContent>
 
-          <TabsContent value="notifications" className="space-y-4">
-            <Card className="p-6">
-              <div className="space-y-6">
-                <div>
-                  <h3 className="text-lg font-semibold mb-4">Notification Channels</h3>
-                  <p className="text-sm text-muted-foreground mb-6">
-                    Configure how you want to receive alerts. These credentials must be added to your backend server's .env file.
-                  </p>
-                </div>
-
-                <Separator />
+            <ThresholdHistoryCard onRestore={handleRestoreAlerts} />
 
-                <div>
-                  <h4 className="font-semibold mb-4">Email (SMTP)</h4>
-                  <div className="space-y-4">
-                    <div className="grid grid-cols-2 gap-4">
-                      <div className="space-y-2">
-                        <Label htmlFor="smtp-host">SMTP Host</Label>
-                        <Input
-                          id="smtp-host"
-                          placeholder="smtp.gmail.com"
-                          value={smtpHost}
-                          onChange={(e) => setSmtpHost(e.target.value)}
-                        />
-                      </div>
-                      <div className="space-y-2">
-                        <Label htmlFor="smtp-port">SMTP Port</Label>
-                        <Input
-                          id="smtp-port"
-                          type="number"
-                          placeholder="587"
-                          value={smtpPort}
-                          onChange={(e) => setSmtpPort(e.target.value)}
-                        />
-                      </div>
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="smtp-user">SMTP Username</Label>
-                      <Input
-                        id="smtp-user"
-                        placeholder="your-email@gmail.com"
-                        value={smtpUser}
-                        onChange={(e) => setSmtpUser(e.target.value)}
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="alert-email">Alert Email Address</Label>
-                      <Input
-                        id="alert-email"
-                        placeholder="admin@yourcompany.com"
-                        value={alertEmail}
-                        onChange={(e) => setAlertEmail(e.target.value)}
-                      />
-                      <p className="text-xs text-muted-foreground">
-                        Where alerts will be sent
-                      </p>
-                    </div>
-                  </div>
-                </div>
+            <AgentConfigCard />
+          </TabsContent>
 
-                <Separator />
+          <TabsContent value="notifications" className="space-y-4">
+            <NotificationChannelsCard />
 
-                <div>
-                  <h4 className="font-semibold mb-4">Slack</h4>
-                  <div className="space-y-2">
-                    <Label htmlFor="slack-webhook">Slack Webhook URL</Label>
-                    <Input
-                      id="slack-webhook"
-                      placeholder="https://hooks.slack.com/services/YOUR/WEBHOOK/URL"
-                      value={slackWebhook}
-                      onChange={(e) => setSlackWebhook(e.target.value)}
-                    />
-                    <p className="text-xs text-muted-foreground">
-                      Create a webhook in your Slack workspace settings
-                    </p>
-                  </div>
-                </div>
+            <NotificationDeliveryLog />
+          </TabsContent>
 
-                <Separator />
+          <TabsContent value="energy" className="space-y-4">
+            <TariffsCard endpoints={serverEndpoints} />
+            <CarbonIntensityCard endpoints={serverEndpoints} />
+            <FacilitiesCard endpoints={serverEndpoints} />
+          </TabsContent>
 
-                <div>
-                  <h4 className="font-semibold mb-4">Discord</h4>
-                  <div className="space-y-2">
-                    <Label htmlFor="discord-webhook">Discord Webhook URL</Label>
-                    <Input
-                      id="discord-webhook"
-                      placeholder="https://discord.com/api/webhooks/YOUR/WEBHOOK/URL"
-                      value={discordWebhook}
-                      onChange={(e) => setDiscordWebhook(e.target.value)}
-                    />
-                    <p className="text-xs text-muted-foreground">
-                      Create a webhook in your Discord channel settings
-                    </p>
-                  </div>
-                </div>
+          <TabsContent value="users" className="space-y-4">
+            <UsersCard />
+          </TabsContent>
 
-                <Button onClick={handleSaveNotifications}>Save Notification Settings</Button>
-              </div>
-            </Card>
+          <TabsContent value="audit" className="space-y-4">
+            <AuditLogCard />
           </TabsContent>
         </Tabs>
 
@@ -2,7 +2,7 @@
 # Start the production server with SQLite settings storage
 
 echo "Installing dependencies..."
-npm install express cors sql.js
+npm install express cors sql.js nodemailer
 
 echo ""
 echo "Starting server..."